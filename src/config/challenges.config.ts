@@ -70,12 +70,13 @@ export const CHALLENGES: Challenge[] = [
     vehicleSpawnIntervalMs: 8000,
     pedestrianRespawnMinMs: 5000,
     pedestrianRespawnMaxMs: 15000,
-    meterHighParkingRateThreshold: 5,
-    boothHighParkingRateThreshold: 5,
+    // A bit of everyone, to introduce the archetypes
+    parkerArchetypeDistribution: { commuter: 0.3, family: 0.3, tourist: 0.2, budget: 0.1, premium: 0.1 },
+    // Forgiving demand: nearly everyone pays $5, almost nobody $10
+    meterWillingnessToPay: { mean: 7, stdDev: 1.5 },
+    boothWillingnessToPay: { mean: 7, stdDev: 1.5 },
     meterHighParkingRatePenaltyPerDollar: 10,
     boothHighParkingRatePenaltyPerDollar: 10,
-    meterRefusalToParkThreshold: 10,
-    boothRefusalToParkThreshold: 10,
     highParkingRatePenaltyMessage: "I can't believe they're charging this much to park! 😤",
     refusalToParkMessage: "There's no way I'm paying that much to park. 😤",
   },
@@ -124,12 +125,14 @@ export const CHALLENGES: Challenge[] = [
     pedestrianRespawnMaxMs: 45000, // 45 game min (dine-in)
     needGenerationProbability: 0.55,
     needTypeDistribution: { trash: 0.9, thirst: 0, toilet: 0.1 },
-    meterHighParkingRateThreshold: 1,
-    boothHighParkingRateThreshold: 1,
+    // Families and budget diners, plus commuters grabbing a slice on the way home
+    parkerArchetypeDistribution: { family: 0.4, budget: 0.3, commuter: 0.2, tourist: 0.1 },
+    // Diners tolerate a $1 meter but hardly anyone pays $2, and nobody wants to queue at a booth for pizza
+    meterWillingnessToPay: { mean: 1.5, stdDev: 0.25 },
+    boothWillingnessToPay: { mean: 0, stdDev: 0 },
+    priceSensitivity: 0.25,
     meterHighParkingRatePenaltyPerDollar: 10,
     boothHighParkingRatePenaltyPerDollar: 10,
-    meterRefusalToParkThreshold: 2,
-    boothRefusalToParkThreshold: 1,
     highParkingRatePenaltyMessage: "I gotta pay to park here? 😤",
     refusalToParkMessage: "I'll eat somewhere else if I gotta pay to park. 😤",
   },
@@ -175,12 +178,16 @@ export const CHALLENGES: Challenge[] = [
       // Occasional short visitor (errand / meeting, not a full workday)
       { weight: 0.1, minMs: 120000, maxMs: 240000 },
     ],
-    meterHighParkingRateThreshold: 3,
-    boothHighParkingRateThreshold: 3,
+    // Almost all commuters, with a few budget and premium regulars
+    parkerArchetypeDistribution: { commuter: 0.8, budget: 0.1, premium: 0.1 },
+    // Judge each morning's commute cohort, including the few who stay overnight and leave the next day
+    ratingAttribution: 'arrival',
+    ratingWindowDays: 2,
+    // Commuters mostly pay $3-5; few go to $6
+    meterWillingnessToPay: { mean: 4.5, stdDev: 0.75 },
+    boothWillingnessToPay: { mean: 4.5, stdDev: 0.75 },
     meterHighParkingRatePenaltyPerDollar: 10,
     boothHighParkingRatePenaltyPerDollar: 10,
-    meterRefusalToParkThreshold: 6,
-    boothRefusalToParkThreshold: 6,
     highParkingRatePenaltyMessage: "Woah, expensive parking! 😤",
     refusalToParkMessage: "I'd rather be late than pay that much to park. 😤",
   },
@@ -194,6 +201,7 @@ export const CHALLENGES: Challenge[] = [
     startTimeMinutes: 960, // 4:00 PM — player sees both showtime ramps
     initialGridPath: '/drivein.json',
     budget: 15000,
+    loanLimit: 8000,
     winConditions: [
       { type: 'min_rating', value: 75, description: 'Reach a lot rating of 75' },
       { type: 'min_parking_spots', value: 30, description: 'Place at least 30 parking spots' },
@@ -248,12 +256,23 @@ export const CHALLENGES: Challenge[] = [
     // and returns to the car.
     needGenerationProbability: 1,
     needTypeDistribution: { trash: 0.2, thirst: 0.3, toilet: 0.5 },
-    meterHighParkingRateThreshold: 0, // any meter rate = penalty (effectively)
+    // Family movie night: kids need the lotty potty more often and parents notice when it's missing
+    parkerArchetypeDistribution: { family: 0.5, budget: 0.2, tourist: 0.2, premium: 0.1 },
+    // Litter from the snack runs is part of the rating: 10 of the parker points go to a litter-free lot
+    ratingComponents: [
+      { id: 'parker', label: 'Parker', source: 'parker', maxPoints: 60 },
+      { id: 'appeal', label: 'Appeal', source: 'appeal', maxPoints: 15, coverage: { mode: 'boolean' } },
+      { id: 'safety', label: 'Safety', source: 'safety', maxPoints: 15, coverage: { mode: 'boolean' } },
+      { id: 'cleanliness', label: 'Cleanliness', source: 'cleanliness', maxPoints: 10, coverage: { mode: 'boolean' } },
+    ],
+    // Movie-goers won't feed a meter (any meter rate is all but refused); booth demand centres on $5
+    meterWillingnessToPay: { mean: 0, stdDev: 0 },
     meterHighParkingRatePenaltyPerDollar: 10,
-    boothHighParkingRateThreshold: 4,
+    boothWillingnessToPay: { mean: 5, stdDev: 0.5 },
     boothHighParkingRatePenaltyPerDollar: 10,
-    meterRefusalToParkThreshold: 1, // any meter rate = instant refusal
-    boothRefusalToParkThreshold: 6,
+    priceSensitivity: 0.25,
+    // Event parking: one flat booth price for the whole movie, whatever the booth rate
+    boothBillingPolicy: { flatRate: 20 },
     highParkingRatePenaltyMessage: "This was more expensive than a normal movie. 😤",
     refusalToParkMessage: "This movie is too expensive. Let's go somewhere else. 😤",
   },
@@ -267,6 +286,9 @@ export const CHALLENGES: Challenge[] = [
     startTimeMinutes: 420,
     initialGridPath: '/airport.json',
     budget: 30000,
+    loanLimit: 20000,
+    loanDailyInterestRate: 0.015,
+    loanTermDays: 7,
     winConditions: [
       { type: 'min_rating', value: 80, description: 'Reach a lot rating of 80' },
       { type: 'min_parking_spots', value: 50, description: 'Place at least 50 parking spots' },
@@ -275,6 +297,8 @@ export const CHALLENGES: Challenge[] = [
     // Airport billing: charge per hour (instead of per 15 min) to better fit long-stay parking.
     meterBillingIntervalMinutes: 60,
     boothBillingIntervalMinutes: 60,
+    // Long-term parking: first 15 minutes free for pick-ups, $40 per night for overnight stays
+    boothBillingPolicy: { gracePeriodMinutes: 15, overnightRate: 40 },
     // Traffic shape resembles RHR (night quiet, morning ramp, midday plateau, evening taper) but
     // elevated throughout — airports don't really sleep. Baseline is overridden by the schedule.
     vehicleSpawnIntervalMs: 4000,
@@ -306,12 +330,23 @@ export const CHALLENGES: Challenge[] = [
     // Lot fills up with long-stay travelers; overflow parkers silently divert to another lot
     // instead of tanking the rating and flooding the message panel.
     suppressNoSpotPenalty: true,
-    meterHighParkingRateThreshold: 0, // any meter = penalty
-    boothHighParkingRateThreshold: 2, // $2/hour tolerated; penalty begins at $3/hour
+    // Vacationers, business travelers (premium) and the odd commuter flying out for the day
+    parkerArchetypeDistribution: { tourist: 0.5, premium: 0.2, commuter: 0.2, budget: 0.1 },
+    // Travelers are away for days: score them when they come back, over a 3-day rolling window
+    ratingAttribution: 'departure',
+    ratingWindowDays: 3,
+    // A big lot: full appeal once half of it is covered. Cars sit for days, so safety wants
+    // overlapping lights (full credit at safety 2 per cell)
+    ratingComponents: [
+      { id: 'parker', label: 'Parker', source: 'parker', maxPoints: 70 },
+      { id: 'appeal', label: 'Appeal', source: 'appeal', maxPoints: 15, coverage: { mode: 'capped', capFraction: 0.5 } },
+      { id: 'safety', label: 'Safety', source: 'safety', maxPoints: 15, coverage: { mode: 'graded', fullValue: 2 } },
+    ],
+    meterWillingnessToPay: { mean: 0, stdDev: 0 }, // any meter is all but refused
+    boothWillingnessToPay: { mean: 3, stdDev: 0.75 }, // per hour; few travelers go past $4/hour
+    priceSensitivity: 0.25,
     meterHighParkingRatePenaltyPerDollar: 10,
     boothHighParkingRatePenaltyPerDollar: 10,
-    meterRefusalToParkThreshold: 1, // any meter = instant refusal
-    boothRefusalToParkThreshold: 5,
     highParkingRatePenaltyMessage: "Airport parking really robs you. . . 😤",
     meterRefusalToParkMessage: "A meter? At an airport? I can't do that! 😤",
     boothRefusalToParkMessage: "I need to park for a long time. This rate is unacceptable. 😤",
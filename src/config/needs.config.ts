@@ -0,0 +1,60 @@
+import type { NeedDefinition, NeedType } from '@/types';
+
+/**
+ * Need registry - the pedestrian needs in play, populated per challenge by ChallengeSetup.
+ * Read by NeedsSystem, PedestrianSystem and VehicleSystem; which needs pedestrians actually
+ * have is set by the challenge's needTypeDistribution.
+ */
+export const BUILT_IN_NEEDS: NeedDefinition[] = [
+  {
+    id: 'trash',
+    ploppables: ['Trash Can', 'Dumpster'],
+    mode: 'instant',
+    littersWhenUnfulfilled: true,
+    unfulfilledPenalty: 10,
+    unfulfilledMessage: { text: "I don't want this trash- guess I'll drop it.", emoji: '😬' },
+  },
+  {
+    id: 'thirst',
+    ploppables: ['Vending Machine'],
+    mode: 'timed',
+    durationMinutes: [2, 2],
+    queuePatienceMinutes: 5,
+    unfulfilledPenalty: 10,
+    unfulfilledMessage: { text: "I wish there was a vending machine here, I'm so thirsty.", emoji: '🥵' },
+  },
+  {
+    id: 'toilet',
+    ploppables: ['Portable Toilet'],
+    mode: 'despawn',
+    durationMinutes: [2, 10],
+    queuePatienceMinutes: 10,
+    unfulfilledPenalty: 10,
+    unfulfilledMessage: { text: 'I gotta rush home to use the toilet! No lotty potty here!', emoji: '😰' },
+  },
+];
+
+let currentNeeds: Map<NeedType, NeedDefinition> = new Map(BUILT_IN_NEEDS.map(need => [need.id, need]));
+
+/**
+ * Replace the registry with the built-in needs plus a challenge's own (same id = redefine a built-in).
+ */
+export function setChallengeNeeds(needs: NeedDefinition[]): void {
+  currentNeeds = new Map(BUILT_IN_NEEDS.map(need => [need.id, need]));
+  for (const need of needs) {
+    currentNeeds.set(need.id, need);
+  }
+}
+
+export function getNeedDefinition(needType: NeedType): NeedDefinition | undefined {
+  return currentNeeds.get(needType);
+}
+
+/** All registered needs, built-ins first */
+export function getNeedDefinitions(): NeedDefinition[] {
+  return [...currentNeeds.values()];
+}
+
+export function resetNeeds(): void {
+  setChallengeNeeds([]);
+}
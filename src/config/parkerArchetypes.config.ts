@@ -0,0 +1,159 @@
+import type { NeedType, ParkerArchetype, ParkerArchetypeId, ParkerPenalty } from '@/types';
+
+/**
+ * Parker archetype registry - the kinds of parker in play and how often each shows up, populated per
+ * challenge by ChallengeSetup. Read by VehicleSystem, PedestrianSystem and ParkingTimerSystem.
+ * With no distribution set, parkers have no archetype and use the challenge's settings unchanged.
+ */
+export const BUILT_IN_PARKER_ARCHETYPES: ParkerArchetype[] = [
+  {
+    id: 'commuter',
+    label: 'Commuter',
+    willingnessToPayScale: 1,
+    priceSensitivityScale: 0.75,
+    walkingToleranceTiles: 12,
+    needChanceScale: 0.6,
+    needWeights: { thirst: 1.5 },
+    stayDurationScale: [0.9, 1.1],
+    penaltyWeights: { trafficDelay: 2, gridlock: 1.5 },
+  },
+  {
+    id: 'tourist',
+    label: 'Tourist',
+    willingnessToPayScale: 1.1,
+    priceSensitivityScale: 1.25,
+    walkingToleranceTiles: 15,
+    needChanceScale: 1.2,
+    needWeights: { trash: 1.5 },
+    stayDurationScale: [0.75, 1.5],
+    penaltyWeights: { missingSidewalk: 1.5, trafficDelay: 0.5 },
+  },
+  {
+    id: 'family',
+    label: 'Family',
+    willingnessToPayScale: 0.9,
+    priceSensitivityScale: 1,
+    walkingToleranceTiles: 8,
+    needChanceScale: 1.5,
+    needWeights: { toilet: 2, thirst: 1.5 },
+    stayDurationScale: [1, 1.5],
+    penaltyWeights: { unfulfilledNeed: 1.5, missingSidewalk: 1.5, longWalk: 1.5 },
+  },
+  {
+    id: 'budget',
+    label: 'Budget',
+    willingnessToPayScale: 0.7,
+    priceSensitivityScale: 0.6,
+    walkingToleranceTiles: 20,
+    needChanceScale: 0.8,
+    stayDurationScale: [0.8, 1.2],
+    penaltyWeights: { highRate: 2, longWalk: 0.5 },
+  },
+  {
+    id: 'premium',
+    label: 'Premium',
+    willingnessToPayScale: 1.6,
+    priceSensitivityScale: 1.5,
+    walkingToleranceTiles: 6,
+    needChanceScale: 1,
+    stayDurationScale: [0.8, 1.2],
+    penaltyWeights: { highRate: 0.5, longWalk: 2, droveOnSidewalk: 2, unfulfilledNeed: 1.5 },
+  },
+];
+
+/** Walking tolerance the spot preference walk weight is tuned for; pickier walkers weigh walking more */
+const REFERENCE_WALKING_TOLERANCE_TILES = 10;
+
+let currentArchetypes: Map<ParkerArchetypeId, ParkerArchetype> = new Map(BUILT_IN_PARKER_ARCHETYPES.map(a => [a.id, a]));
+let currentDistribution: Array<{ id: ParkerArchetypeId; weight: number }> = [];
+
+/**
+ * Replace the registry with the built-in archetypes plus a challenge's own (same id = redefine a
+ * built-in), and set how often each appears. Ids not in the registry and non-positive weights are ignored.
+ */
+export function setChallengeParkerArchetypes(
+  archetypes: ParkerArchetype[],
+  distribution: Partial<Record<ParkerArchetypeId, number>>
+): void {
+  currentArchetypes = new Map(BUILT_IN_PARKER_ARCHETYPES.map(a => [a.id, a]));
+  for (const archetype of archetypes) {
+    currentArchetypes.set(archetype.id, archetype);
+  }
+  const weighted = Object.entries(distribution)
+    .filter((entry): entry is [ParkerArchetypeId, number] => currentArchetypes.has(entry[0]) && (entry[1] ?? 0) > 0)
+    .map(([id, weight]) => ({ id, weight }));
+  const total = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  currentDistribution = weighted.map(entry => ({ id: entry.id, weight: entry.weight / total }));
+}
+
+export function getParkerArchetype(id: ParkerArchetypeId | undefined): ParkerArchetype | undefined {
+  return id === undefined ? undefined : currentArchetypes.get(id);
+}
+
+/** All registered archetypes, built-ins first */
+export function getParkerArchetypes(): ParkerArchetype[] {
+  return [...currentArchetypes.values()];
+}
+
+/** True when the challenge mixes archetypes (otherwise no roll is made, keeping seeded runs unchanged) */
+export function hasParkerArchetypes(): boolean {
+  return currentDistribution.length > 0;
+}
+
+/**
+ * Map a roll in [0, 1) onto the archetype distribution. Undefined when the challenge has none.
+ */
+export function pickParkerArchetype(roll: number): ParkerArchetypeId | undefined {
+  let cumulative = 0;
+  for (const entry of currentDistribution) {
+    cumulative += entry.weight;
+    if (roll < cumulative) return entry.id;
+  }
+  // Rounding left the weights just short of 1
+  return currentDistribution[currentDistribution.length - 1]?.id;
+}
+
+/**
+ * How much a penalty counts for a parker (1 without an archetype or a weight for it)
+ */
+export function getParkerPenaltyWeight(id: ParkerArchetypeId | undefined, penalty: ParkerPenalty): number {
+  return getParkerArchetype(id)?.penaltyWeights[penalty] ?? 1;
+}
+
+/**
+ * Multiplier on the spot preference walk weight: REFERENCE_WALKING_TOLERANCE_TILES over the tolerance
+ */
+export function getWalkPreferenceScale(id: ParkerArchetypeId | undefined): number {
+  const archetype = getParkerArchetype(id);
+  return archetype ? REFERENCE_WALKING_TOLERANCE_TILES / Math.max(1, archetype.walkingToleranceTiles) : 1;
+}
+
+/**
+ * Weight a need type distribution by an archetype's needWeights, renormalized to sum to 1
+ */
+export function weightNeedDistribution(
+  distribution: Record<NeedType, number>,
+  id: ParkerArchetypeId | undefined
+): Record<NeedType, number> {
+  const needWeights = getParkerArchetype(id)?.needWeights;
+  if (!needWeights) return distribution;
+  const total = Object.entries(distribution).reduce((sum, [needType, weight]) => sum + weight * (needWeights[needType] ?? 1), 0);
+  if (total <= 0) return distribution;
+  const weighted: Record<NeedType, number> = {};
+  for (const [needType, weight] of Object.entries(distribution)) {
+    weighted[needType] = (weight * (needWeights[needType] ?? 1)) / total;
+  }
+  return weighted;
+}
+
+/**
+ * Parker name as shown in messages, e.g. "Alex Smith (Commuter)"
+ */
+export function formatParkerName(name: string, id: ParkerArchetypeId | undefined): string {
+  const archetype = getParkerArchetype(id);
+  return archetype ? `${name} (${archetype.label})` : name;
+}
+
+export function resetParkerArchetypes(): void {
+  setChallengeParkerArchetypes([], {});
+}
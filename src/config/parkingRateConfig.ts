@@ -1,14 +1,13 @@
+import type { WillingnessToPayDistribution } from '@/types';
+
 /**
  * Runtime parking rate config - populated by ChallengeScene, read by VehicleSystem and ParkingTimerSystem.
- * Used for refusal-to-park thresholds and penalty/refusal messages.
+ * Used for the parker demand curve (willingness-to-pay and price sensitivity) and penalty/refusal messages.
  */
 export interface ParkingRateConfigValues {
-  meterThreshold: number;
-  boothThreshold: number;
-  meterPenalty: number;
-  boothPenalty: number;
-  meterRefusalThreshold: number;
-  boothRefusalThreshold: number;
+  meterWillingnessToPay: WillingnessToPayDistribution;
+  boothWillingnessToPay: WillingnessToPayDistribution;
+  priceSensitivity: number;
   penaltyMessage: string;
   refusalMessage: string;
   meterRefusalMessage: string | null;
@@ -17,12 +16,9 @@ export interface ParkingRateConfigValues {
 }
 
 const DEFAULT_CONFIG: ParkingRateConfigValues = {
-  meterThreshold: 5,
-  boothThreshold: 5,
-  meterPenalty: 10,
-  boothPenalty: 10,
-  meterRefusalThreshold: 10,
-  boothRefusalThreshold: 10,
+  meterWillingnessToPay: { mean: 7, stdDev: 2 },
+  boothWillingnessToPay: { mean: 7, stdDev: 2 },
+  priceSensitivity: 0.5,
   penaltyMessage: "I can't believe they're charging this much to park! 😤",
   refusalMessage: "There's no way I'm paying that much to park. 😤",
   meterRefusalMessage: null,
@@ -43,3 +39,13 @@ export function getParkingRateConfig(): Readonly<ParkingRateConfigValues> {
 export function resetParkingRateConfig(): void {
   currentConfig = { ...DEFAULT_CONFIG };
 }
+
+/**
+ * Demand curve: chance a parker accepts a rate, given their willingness-to-pay.
+ * 50% at their willingness-to-pay, falling smoothly (logistic) as the rate rises past it.
+ * sensitivityScale is the parker archetype's priceSensitivityScale.
+ */
+export function getRateAcceptanceProbability(rate: number, willingnessToPay: number, sensitivityScale: number = 1): number {
+  const sensitivity = Math.max(0.01, currentConfig.priceSensitivity * sensitivityScale);
+  return 1 / (1 + Math.exp((rate - willingnessToPay) / sensitivity));
+}
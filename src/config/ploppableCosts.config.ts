@@ -1,30 +1,22 @@
+import { PLOPPABLE_DEFINITIONS, getPloppableDefinition } from './ploppables.config';
+
 /**
- * Cost in dollars for each ploppable type. Used when placing to deduct from budget.
- * Priced relative to dirt ($1/tile) baseline — material cost only, no labor/installation.
- * Unknown types default to 0 (e.g. dev-only structures, tools like Pedestrian Spawner).
+ * Cost in dollars for each ploppable type, from the ploppable registry. Used when placing to deduct from budget.
+ * Unknown types default to 0 (e.g. dev-only structures).
  */
-export const PLOPPABLE_COSTS: Record<string, number> = {
-  'Flower Patch': 25,
-  'Shrub': 40,
-  'Trash Can': 50,
-  'Bench': 60,
-  'Parking Meter': 50,
-  'Security Camera': 75,
-  'Tree': 80,
-  'Portable Toilet': 100,
-  'Speed Bump': 90,
-  'Crosswalk': 5,  // Paint stripes (similar to parking spot marking, lane lines $1/edge)
-  'Street Light': 120,
-  'Vending Machine': 150,
-  'Parking Spot': 5,  // Stall marking paint (~3 edges worth, like lane lines)
-  'Dumpster': 200,
-  'Parking Booth': 300,
-  'Pedestrian Spawner': 0,
-};
+export const PLOPPABLE_COSTS: Record<string, number> = Object.fromEntries(
+  PLOPPABLE_DEFINITIONS.map(def => [def.type, def.cost])
+);
 
 /** Refund fraction (0-1) when demolishing a ploppable. 0 = no refund. */
 export const DEMOLISH_REFUND_FRACTION = 0;
 
+/** Cost to pick up one piece of litter (Service tool or daily service contract) */
+export const LITTER_CLEANUP_COST = 5;
+
+/** Flat daily fee for the service contract, on top of the per-job service and cleanup costs */
+export const DAILY_SERVICE_CONTRACT_FEE = 25;
+
 export function getPloppableCost(ploppableType: string): number {
-  return PLOPPABLE_COSTS[ploppableType] ?? 0;
+  return getPloppableDefinition(ploppableType)?.cost ?? 0;
 }
@@ -0,0 +1,341 @@
+/**
+ * Ploppable registry - one definition per ploppable type.
+ *
+ * Cost, footprint, orientation, passability, appeal/safety AoE, sprite/emoji and the toolbox
+ * button all come from here; needs list the ploppables that fulfill them in needs.config.ts.
+ * Adding a ploppable is a new entry in PLOPPABLE_DEFINITIONS; type-specific placement rules and
+ * sprite offsets still live in ChallengeSceneTools and PloppableManager.
+ */
+
+/** Toolbox section a ploppable button is listed under */
+export type PloppableCategory = 'Parking' | 'Amenities' | 'Landscaping' | 'Safety & Traffic';
+
+/** Toolbox sections in display order */
+export const PLOPPABLE_CATEGORIES: PloppableCategory[] = ['Parking', 'Amenities', 'Landscaping', 'Safety & Traffic'];
+
+/**
+ * Area-of-effect on cell appeal or safety.
+ * shape: 'circular' (isometric distance) or 'square' (Chebyshev distance)
+ */
+export interface PloppableAoE {
+  delta: number;
+  radius: number;
+  shape: 'circular' | 'square';
+}
+
+/** Per-sprite origin (0–1) and scale multiplier for ploppable sprites. */
+export interface PloppableSpriteConfig {
+  originX: number;
+  originY: number;
+  /** Scale multiplier applied to base tile-relative scale (1 = default). */
+  scaleMultiplier: number;
+}
+
+/** Sprite texture (assets/sprites/<key>.png) and its placement config */
+export interface PloppableSprite extends PloppableSpriteConfig {
+  key: string;
+}
+
+export interface PloppableDefinition {
+  /** Type string stored on placed ploppables (Ploppable.type) */
+  type: string;
+  /** Name shown in the selection panel when it differs from the type */
+  displayName?: string;
+  description: string;
+  /** Placement cost in dollars, priced relative to dirt ($1/tile) — material cost only */
+  cost: number;
+  /** Tiles occupied (2-tile ploppables extend away from their front face) */
+  size: 1 | 2;
+  /**
+   * 'A' = sits at a cell border midpoint, 'B' = cell center facing a direction,
+   * null = drawn at the cell center with no facing
+   */
+  orientationType: 'A' | 'B' | null;
+  /**
+   * Orientations Q/E cycle through during placement (E = next, Q = previous; 0=north, 1=east,
+   * 2=south, 3=west). The first is selected when the tool is picked; a single entry = no rotation.
+   */
+  orientations: number[];
+  /** Placement preview omits the facing arrow */
+  hideArrow?: boolean;
+  /** Need ploppables: pedestrians served at once for timed/despawn needs; the rest queue (omit = unlimited) */
+  capacity?: number;
+  /** Need ploppables: [min, max] game minutes per service, overriding the need's durationMinutes */
+  serviceMinutes?: [number, number];
+  /** Uses before it's full and stops fulfilling needs until serviced (omit = never fills) */
+  fillCapacity?: number;
+  /** Cost in dollars to empty/pump it (Service tool or daily service contract) */
+  serviceCost?: number;
+  /** Daily operating cost in dollars (electricity, wages, restocking), charged when the day closes */
+  upkeep?: number;
+  /** true = passable, false = blocks everything, 'pedestrian-only' = blocks vehicles only */
+  passability: boolean | 'pedestrian-only';
+  appeal?: PloppableAoE;
+  safety?: PloppableAoE;
+  /** Drawn when there is no sprite, and shown on the toolbox button */
+  emoji: string;
+  sprite?: PloppableSprite;
+  /** Toolbox section, or null if placed by a dedicated tool (not listed as a button) */
+  category: PloppableCategory | null;
+}
+
+export const PLOPPABLE_DEFINITIONS: PloppableDefinition[] = [
+  {
+    type: 'Parking Spot',
+    description: 'Every lot needs one, right?',
+    cost: 5, // Stall marking paint (~3 edges worth, like lane lines)
+    size: 1,
+    orientationType: null,
+    orientations: [0, 2, 3, 1],
+    passability: true, // Vehicles park in them
+    emoji: '🅿️',
+    category: 'Parking',
+  },
+  {
+    type: 'Parking Meter',
+    description: 'Parking meters charge per 15 minutes, though will generate negative rating if the rate is too high.',
+    cost: 50,
+    upkeep: 1, // Card reader and coin collection
+    size: 1,
+    orientationType: 'A',
+    orientations: [0],
+    passability: true,
+    emoji: '⏰',
+    sprite: { key: 'meter', originX: 0.5, originY: 1.0, scaleMultiplier: 0.15 },
+    category: 'Parking',
+  },
+  {
+    type: 'Parking Booth',
+    description: 'Place a booth at the exit of the lot to collect parking fare.',
+    cost: 300,
+    upkeep: 60, // Attendant wages
+    size: 2,
+    orientationType: 'B',
+    orientations: [0, 1, 2, 3],
+    passability: false, // Collection tile is passable - handled via subType
+    emoji: '🏪',
+    sprite: { key: 'booth', originX: 0.5, originY: 1.0, scaleMultiplier: 1.8 },
+    category: 'Parking',
+  },
+  {
+    type: 'Occupancy Sensor',
+    description: 'Reports free spots within 3 tiles, so drivers head straight for them instead of circling.',
+    cost: 60,
+    upkeep: 1, // Electricity
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: 'pedestrian-only', // Sensor poles block vehicles
+    emoji: '📡',
+    category: 'Parking',
+  },
+  {
+    type: 'Spaces Sign',
+    description: "A 'spaces available' sign that guides every driver straight to a free spot.",
+    cost: 250,
+    upkeep: 3, // Electricity for the display
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: 'pedestrian-only', // Sign posts block vehicles
+    emoji: '🪧',
+    category: 'Parking',
+  },
+  {
+    type: 'Trash Can',
+    description: 'Unsightly but better than having litter.',
+    cost: 50,
+    size: 1,
+    orientationType: 'A',
+    orientations: [0, 1, 2, 3],
+    fillCapacity: 20,
+    serviceCost: 10,
+    passability: 'pedestrian-only',
+    appeal: { delta: -1, radius: 2, shape: 'circular' },
+    emoji: '🗑️',
+    sprite: { key: 'trashcan', originX: 0.5, originY: 1.0, scaleMultiplier: 0.3 },
+    category: 'Amenities',
+  },
+  {
+    type: 'Dumpster',
+    description: 'A large container for trash required by some businesses.',
+    cost: 200,
+    size: 1,
+    orientationType: 'B',
+    orientations: [2, 3],
+    fillCapacity: 80,
+    serviceCost: 30,
+    passability: 'pedestrian-only', // Peds can path onto cell for trash need; vehicles cannot pass
+    appeal: { delta: -1, radius: 3, shape: 'circular' },
+    emoji: '🗄️',
+    sprite: { key: 'dumpster', originX: 0.5, originY: 1.0, scaleMultiplier: 1.2 },
+    category: 'Amenities',
+  },
+  {
+    type: 'Vending Machine',
+    displayName: 'Lot Pop',
+    description: 'Dispenses refreshments.',
+    cost: 150,
+    upkeep: 10, // Restocking
+    size: 1,
+    orientationType: 'B',
+    orientations: [2, 3],
+    capacity: 1,
+    passability: 'pedestrian-only',
+    emoji: '🥤',
+    sprite: { key: 'vending', originX: 0.5, originY: 1.0, scaleMultiplier: 0.75 },
+    category: 'Amenities',
+  },
+  {
+    type: 'Portable Toilet',
+    displayName: 'Lotty Potty',
+    description: 'When you gotta go, you gotta go.',
+    cost: 100,
+    size: 1,
+    orientationType: 'B',
+    orientations: [2, 3],
+    capacity: 1,
+    fillCapacity: 25,
+    serviceCost: 40, // Pumping
+    passability: 'pedestrian-only', // Peds path onto cell for toilet need (despawn on arrival); vehicles cannot pass
+    appeal: { delta: -1, radius: 2, shape: 'circular' },
+    emoji: '🚽',
+    sprite: { key: 'lotty-potty', originX: 0.5, originY: 1.0, scaleMultiplier: 0.85 },
+    category: 'Amenities',
+  },
+  {
+    type: 'Bench',
+    description: "Why don't you have a seat right over there?",
+    cost: 60,
+    size: 1,
+    orientationType: 'A',
+    orientations: [0, 1, 2, 3],
+    passability: 'pedestrian-only',
+    appeal: { delta: 1, radius: 1, shape: 'circular' },
+    emoji: '🪑',
+    sprite: { key: 'bench', originX: 0.5, originY: 0.5, scaleMultiplier: 0.75 },
+    category: 'Amenities',
+  },
+  {
+    type: 'Tree',
+    description: 'Trees are decorative barriers that increase lot appeal.',
+    cost: 80,
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: 'pedestrian-only',
+    appeal: { delta: 1, radius: 3, shape: 'circular' },
+    emoji: '🌳',
+    sprite: { key: 'tree', originX: 0.5, originY: 1.0, scaleMultiplier: 1.0 },
+    category: 'Landscaping',
+  },
+  {
+    type: 'Shrub',
+    description: 'Shrubs are decorative barriers that increase lot appeal.',
+    cost: 40,
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: false,
+    appeal: { delta: 1, radius: 2, shape: 'circular' },
+    emoji: '🌿',
+    sprite: { key: 'shrub', originX: 0.5, originY: 0.5, scaleMultiplier: 0.75 },
+    category: 'Landscaping',
+  },
+  {
+    type: 'Flower Patch',
+    description: 'Flowers are decorations that increase lot appeal.',
+    cost: 25,
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: true,
+    appeal: { delta: 1, radius: 1, shape: 'square' },
+    emoji: '🌸',
+    sprite: { key: 'flowers', originX: 0.5, originY: 0.5, scaleMultiplier: 0.5 },
+    category: 'Landscaping',
+  },
+  {
+    type: 'Street Light',
+    description: 'Brighten the lot making it safer.',
+    cost: 120,
+    upkeep: 3, // Electricity
+    size: 1,
+    orientationType: 'A',
+    orientations: [0, 1, 2, 3],
+    passability: true,
+    safety: { delta: 1, radius: 2, shape: 'circular' },
+    emoji: '💡',
+    sprite: { key: 'lamp', originX: 0.5, originY: 1.0, scaleMultiplier: 1.5 },
+    category: 'Safety & Traffic',
+  },
+  {
+    type: 'Security Camera',
+    description: 'Hang from street lights to greater improve lot safety.',
+    cost: 75,
+    upkeep: 2, // Electricity and recording
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: true,
+    safety: { delta: 1, radius: 5, shape: 'circular' },
+    emoji: '📹',
+    sprite: { key: 'camera', originX: 0.5, originY: 1.0, scaleMultiplier: 0.3 },
+    category: 'Safety & Traffic',
+  },
+  {
+    type: 'Speed Bump',
+    description: 'Speed Bumps slow down traffic making the lot safer.',
+    cost: 90,
+    size: 1,
+    orientationType: 'B',
+    orientations: [2, 3],
+    hideArrow: true,
+    passability: true,
+    safety: { delta: 1, radius: 1, shape: 'circular' },
+    emoji: '⛰️',
+    sprite: { key: 'speedbump', originX: 0.5, originY: 0.5, scaleMultiplier: 0.7 },
+    category: 'Safety & Traffic',
+  },
+  {
+    type: 'Crosswalk',
+    description: 'Benefits pedestrian pathing while keeping vehicle asphalt favorability.',
+    cost: 5, // Paint stripes (similar to parking spot marking, lane lines $1/edge)
+    size: 1,
+    orientationType: 'B',
+    orientations: [0, 1],
+    passability: true,
+    safety: { delta: 1, radius: 1, shape: 'circular' },
+    emoji: '🚸',
+    category: 'Safety & Traffic',
+  },
+  {
+    type: 'Pedestrian Spawner',
+    description: 'Pedestrians spawn here and wander randomly on the pedestrian rail grid.',
+    cost: 0,
+    size: 1,
+    orientationType: null,
+    orientations: [0],
+    passability: true,
+    emoji: '🚶',
+    sprite: { key: 'cone', originX: 0.5, originY: 1.0, scaleMultiplier: 0.15 },
+    category: null,
+  },
+];
+
+const DEFINITIONS_BY_TYPE = new Map(PLOPPABLE_DEFINITIONS.map(def => [def.type, def]));
+
+/**
+ * Get the definition for a ploppable type, or undefined for unknown types
+ * (e.g. dev-only structures).
+ */
+export function getPloppableDefinition(ploppableType: string): PloppableDefinition | undefined {
+  return DEFINITIONS_BY_TYPE.get(ploppableType);
+}
+
+/**
+ * Definitions listed in a toolbox section, in registry order.
+ */
+export function getToolboxPloppables(category: PloppableCategory): PloppableDefinition[] {
+  return PLOPPABLE_DEFINITIONS.filter(def => def.category === category);
+}
@@ -0,0 +1,78 @@
+import type { GridManager } from '@/core/GridManager';
+import type { CellData, RatingComponent, RatingCoverage } from '@/types';
+
+/**
+ * Rating formula registry - the components summed into the 0–100 lot rating, populated per challenge
+ * by ChallengeSetup. Read by RatingSystem (scores) and the rating breakdown in the stats panel.
+ */
+
+/** Parker score for a visit with no penalties; the parker component scales the average against it */
+export const PARKER_FULL_SCORE = 70;
+
+export const DEFAULT_RATING_COMPONENTS: RatingComponent[] = [
+  { id: 'parker', label: 'Parker', source: 'parker', maxPoints: 70 },
+  { id: 'appeal', label: 'Appeal', source: 'appeal', maxPoints: 15, coverage: { mode: 'boolean' } },
+  { id: 'safety', label: 'Safety', source: 'safety', maxPoints: 15, coverage: { mode: 'boolean' } },
+];
+
+const DEFAULT_GRADED_FULL_VALUE = 2;
+const DEFAULT_CAP_FRACTION = 0.5;
+
+let currentComponents: RatingComponent[] = DEFAULT_RATING_COMPONENTS;
+
+/**
+ * Replace the rating formula with a challenge's components (empty = the default formula)
+ */
+export function setChallengeRatingComponents(components: RatingComponent[]): void {
+  currentComponents = components.length > 0 ? components : DEFAULT_RATING_COMPONENTS;
+}
+
+export function getRatingComponents(): readonly RatingComponent[] {
+  return currentComponents;
+}
+
+/** Most points the formula can give (100 for well-formed formulas) */
+export function getMaxRatingPoints(): number {
+  return currentComponents.reduce((sum, component) => sum + component.maxPoints, 0);
+}
+
+/**
+ * Coverage (0–1) of a set of cell values under a coverage function
+ */
+export function getCoverage(values: number[], coverage: RatingCoverage = { mode: 'boolean' }): number {
+  if (values.length === 0) return 0;
+  if (coverage.mode === 'graded') {
+    const fullValue = Math.max(Number.EPSILON, coverage.fullValue ?? DEFAULT_GRADED_FULL_VALUE);
+    return values.reduce((sum, value) => sum + Math.min(1, Math.max(0, value / fullValue)), 0) / values.length;
+  }
+  const covered = values.filter(value => value > 0).length / values.length;
+  if (coverage.mode === 'capped') {
+    return Math.min(1, covered / Math.max(Number.EPSILON, coverage.capFraction ?? DEFAULT_CAP_FRACTION));
+  }
+  return covered;
+}
+
+/**
+ * Coverage (0–1) of a cell value across the grid. Permanent tiles are excluded since players cannot plop on them.
+ */
+export function getPlayableCellCoverage(
+  gridManager: GridManager,
+  gridWidth: number,
+  gridHeight: number,
+  cellValue: (cellData: CellData | undefined) => number,
+  coverage?: RatingCoverage
+): number {
+  const values: number[] = [];
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      const cellData = gridManager.getCellData(x, y);
+      if (cellData?.isPermanent) continue;
+      values.push(cellValue(cellData));
+    }
+  }
+  return getCoverage(values, coverage);
+}
+
+export function resetRatingComponents(): void {
+  setChallengeRatingComponents([]);
+}
@@ -0,0 +1,32 @@
+/**
+ * Vehicle sprite variant: [upTextureKey, downTextureKey, scale].
+ * "Up" = screen-Y decreasing (nose top-left); "down" = screen-Y increasing (nose bottom-right).
+ * Scale is relative to VEHICLE_SPRITE_SCALE (1.0 = default size, <1 = smaller, >1 = larger).
+ */
+export type VehicleVariant = [string, string, number];
+
+/** Sprites used for vehicles that intend to park. */
+export const PARKER_VARIANTS: VehicleVariant[] = [
+  ['car1u', 'car1d', 1.0],
+  ['car2u', 'car2d', 1.0],
+  ['car3u', 'car3d', 1.0],
+];
+
+/** Sprites used for vehicles that are just passing through (includes cars + larger vehicles). */
+export const NON_PARKER_VARIANTS: VehicleVariant[] = [
+  ['car1u', 'car1d', 1.0],
+  ['car2u', 'car2d', 1.0],
+  ['car3u', 'car3d', 1.0],
+  ['bus1u', 'bus1d', 2.0],
+  ['truck1u', 'truck1d', 1.25],
+];
+
+/** All unique variants (union of both pools) — used for preloading and sprite lookup by index. */
+export const VEHICLE_VARIANTS: VehicleVariant[] = (() => {
+  const seen = new Set<string>();
+  const all: VehicleVariant[] = [];
+  for (const v of [...PARKER_VARIANTS, ...NON_PARKER_VARIANTS]) {
+    if (!seen.has(v[0])) { seen.add(v[0]); all.push(v); }
+  }
+  return all;
+})();
@@ -7,14 +7,16 @@ import { SpawnerManager } from '@/managers/SpawnerManager';
 import {
   EntityRenderer,
   VEHICLE_TEXTURE_UP,
-  VEHICLE_VARIANTS,
   PLOPPABLE_SPRITES,
   ISO_ENTITY_DEPTH_BASE,
   ISO_ENTITY_DEPTH_Y_FACTOR,
 } from '@/renderers/EntityRenderer';
+import { VEHICLE_VARIANTS } from '@/config/vehicleVariants.config';
 import { PathfindingUtilities } from '@/utils/PathfindingUtilities';
 import { VehicleSystem } from '@/systems/VehicleSystem';
 import { PedestrianSystem } from '@/systems/PedestrianSystem';
+import { LEDGER_CATEGORY_LABELS, type IncomeStatement, type LedgerCategory } from '@/systems/EconomySystem';
+import type { RatingComponentScore } from '@/systems/RatingSystem';
 import { GameSystems } from './GameSystems';
 import { Ploppable } from '@/types';
 import { setGameUIVisibility } from '@/utils/menuVisibility';
@@ -55,6 +57,7 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
   protected highlightGraphics!: Phaser.GameObjects.Graphics;
   protected vehicleGraphics!: Phaser.GameObjects.Graphics;
   protected pedestrianGraphics!: Phaser.GameObjects.Graphics;
+  protected maintenanceGraphics!: Phaser.GameObjects.Graphics;
 
   /** One Graphics per fence edge so each segment has its own depth (screen-Y sorted). */
   protected fenceGraphicsByKey: Map<string, Phaser.GameObjects.Graphics> = new Map();
@@ -214,89 +217,18 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
     // Create graphics object for pedestrians - drawn above ploppables (depth 3) so peds appear on top when occupying same cell (e.g. dumpster trash need)
     this.pedestrianGraphics = this.add.graphics();
     this.pedestrianGraphics.setDepth(3.5);
+
+    // Litter and fill bars - above ploppables, below pedestrians
+    this.maintenanceGraphics = this.add.graphics();
+    this.maintenanceGraphics.setDepth(3.4);
   }
 
   /**
    * Initialize entity systems (vehicle and pedestrian)
    */
   protected initializeSystems(): void {
-    // Create edge blocking callback for pathfinding
-    const isEdgeBlocked = (
-      cellX: number,
-      cellY: number,
-      edge: number,
-      entityType: 'vehicle' | 'pedestrian',
-      isEntryEdge: boolean,
-      movementDirection: 'north' | 'south' | 'east' | 'west',
-      laneLineOneWayOnly?: boolean
-    ): boolean => {
-      return PathfindingUtilities.isEdgeBlockedForEntity(
-        cellX,
-        cellY,
-        edge,
-        entityType,
-        this.gridManager,
-        isEntryEdge,
-        movementDirection,
-        laneLineOneWayOnly ?? false
-      );
-    };
-    
-    // Create move cost callback for pathfinding
-    // - Vehicles: penalizes lane-line crossings and non-asphalt surfaces
-    // - Pedestrians: penalizes non-concrete tiles to encourage using sidewalks
-    const getMoveCost = (
-      fromX: number,
-      fromY: number,
-      toX: number,
-      toY: number,
-      direction: 'north' | 'south' | 'east' | 'west',
-      entityType: 'vehicle' | 'pedestrian'
-    ): number => {
-      let cost = PathfindingUtilities.getLaneLineCrossingCost(
-        fromX,
-        fromY,
-        toX,
-        toY,
-        direction,
-        entityType,
-        this.gridManager
-      );
-
-      const targetCell = this.gridManager.getCellData(toX, toY);
-
-      if (entityType === 'vehicle') {
-        // Vehicles strongly prefer asphalt. Other drivable surfaces carry increasing
-        // penalties so A* routes along roads when possible, while still allowing
-        // short cuts through 1-2 tiles of concrete (e.g. a sidewalk-enclosed lot
-        // entrance) when no better route exists.
-        // Grass is hard-blocked in isEdgeBlockedForEntity; no cost entry needed here.
-        const surface = targetCell?.surfaceType;
-        if (surface === 'concrete' && !targetCell?.behavesLikeSidewalk) {
-          cost += 10;
-        } else if (surface === 'dirt') {
-          cost += 4;
-        } else if (surface === 'gravel') {
-          cost += 2;
-        }
-        // Concrete sidewalks (behavesLikeSidewalk but NOT crosswalks) get a moderate
-        // penalty so vehicles prefer asphalt but can still cut through 1-2 tiles.
-        // Crosswalks are exempt -- they inherit the underlying surface cost (asphalt = 0).
-        if (targetCell?.behavesLikeSidewalk && targetCell?.ploppable?.type !== 'Crosswalk') {
-          cost += 5;
-        }
-      } else {
-        // For pedestrians, ADD cost for non-concrete tiles to encourage using sidewalks
-        // We use a penalty approach instead of discount because negative costs break A* heuristic
-        // (Manhattan distance doesn't account for discounts, causing suboptimal paths)
-        const isSidewalkLike = targetCell?.surfaceType === 'concrete' || targetCell?.behavesLikeSidewalk === true;
-        if (!isSidewalkLike) {
-          cost += 0.8;
-        }
-      }
-      
-      return cost;
-    };
+    const isEdgeBlocked = PathfindingUtilities.createEdgeBlockedCallback(() => this.gridManager);
+    const getMoveCost = PathfindingUtilities.createMoveCostCallback(() => this.gridManager);
     
     // Initialize pedestrian system first (needed by vehicle system)
     this.pedestrianSystem = new PedestrianSystem(
@@ -374,9 +306,15 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
 
     // Let PedestrianSystem ask VehicleSystem to end a parker's stay (used by the Drive-In Disaster
     // "unfulfilled toilet → bail" path). Wired here to avoid a circular ped↔vehicle dependency.
-    this.pedestrianSystem.setOnParkerEarlyExit((vehicleId: string) => {
-      this.vehicleSystem.forceParkerEarlyExit(vehicleId);
+    this.pedestrianSystem.setOnParkerEarlyExit((vehicleId, reason) => {
+      this.vehicleSystem.forceParkerEarlyExit(vehicleId, reason);
     });
+
+    // Cached pathfinding fields are rebuilt only after edits that change movement.
+    // Resolved on every call so a resized (replaced) grid manager is picked up.
+    const getGridRevision = () => this.gridManager.getPathingRevision();
+    this.pedestrianSystem.setGridRevisionCallback(getGridRevision);
+    this.vehicleSystem.setGridRevisionCallback(getGridRevision);
   }
 
   /**
@@ -446,9 +384,52 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
       GameSystems.time.addHours(-1);
     }, { signal });
 
+    this.updateIncomeStatementUI();
     this.updateSpeedButtonState();
   }
 
+  /**
+   * Income statement in the expanded stats panel: today so far next to yesterday
+   */
+  private updateIncomeStatementUI(): void {
+    const statementEl = document.getElementById('income-statement');
+    if (!statementEl) return;
+    const categories = Object.keys(LEDGER_CATEGORY_LABELS) as LedgerCategory[];
+    if (statementEl.childElementCount === 0) {
+      const addCell = (text: string, className: string, id?: string) => {
+        const cell = document.createElement('span');
+        cell.className = className;
+        cell.textContent = text;
+        if (id) cell.id = id;
+        statementEl.appendChild(cell);
+      };
+      addCell('', 'income-statement-header');
+      addCell('Today', 'income-statement-header income-statement-amount');
+      addCell('Yesterday', 'income-statement-header income-statement-amount');
+      for (const category of [...categories, 'net']) {
+        const label = category === 'net' ? 'Net' : LEDGER_CATEGORY_LABELS[category as LedgerCategory];
+        const netClass = category === 'net' ? ' income-statement-net' : '';
+        addCell(label, `income-statement-label${netClass}`);
+        addCell('--', `income-statement-amount${netClass}`, `income-today-${category}`);
+        addCell('--', `income-statement-amount${netClass}`, `income-yesterday-${category}`);
+      }
+    }
+    const currentDay = GameSystems.time.getCurrentDay();
+    const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString()}`;
+    const columns: Array<['today' | 'yesterday', IncomeStatement | null]> = [
+      ['today', GameSystems.economy.getIncomeStatement(currentDay)],
+      ['yesterday', currentDay === 0 ? null : GameSystems.economy.getIncomeStatement(currentDay - 1)],
+    ];
+    for (const [column, statement] of columns) {
+      for (const category of categories) {
+        const cell = document.getElementById(`income-${column}-${category}`);
+        if (cell) cell.textContent = statement ? formatAmount(statement.lines[category]) : 'n/a';
+      }
+      const netCell = document.getElementById(`income-${column}-net`);
+      if (netCell) netCell.textContent = statement ? formatAmount(statement.net) : 'n/a';
+    }
+  }
+
   /**
    * Sync pause/speed button appearance with TimeSystem state (e.g. after challenge code changes it).
    */
@@ -544,6 +525,7 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
     const dayEl = document.getElementById('game-day');
     const budgetEl = document.getElementById('game-budget');
     const ratingEl = document.getElementById('game-rating');
+    const seedEl = document.getElementById('game-seed');
     
     if (clockEl) {
       clockEl.textContent = GameSystems.time.getTimeString();
@@ -554,12 +536,15 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
     if (budgetEl) {
       budgetEl.textContent = `$${GameSystems.economy.getMoney().toLocaleString()}`;
     }
+    if (seedEl) {
+      seedEl.textContent = `Seed: ${GameSystems.random.getSeed()}`;
+    }
     if (ratingEl) {
       const components = GameSystems.rating.getComponentRatings(this.gridManager, this.gridWidth, this.gridHeight);
       const currentDay = GameSystems.time.getCurrentDay();
       const previous = currentDay === 0 ? null : GameSystems.rating.getPreviousDayRating();
       
-      // Floor the total rating (since components are integers, total is just their sum)
+      // Floor the total rating
       const totalRating = Math.floor(components.total);
       
       // Previous day rating display (also floored if not null)
@@ -568,30 +553,45 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
       // Collapsed view: only show current and previous rating
       ratingEl.textContent = `${totalRating} : ${previousDisplay}`;
       
-      // Update expanded view components (if elements exist)
-      const parkerEl = document.getElementById('rating-parker');
-      const appealEl = document.getElementById('rating-appeal');
-      const safetyEl = document.getElementById('rating-safety');
-      
-      if (parkerEl) {
-        // Parker contribution is 70% of parker rating (0-70)
-        const parkerContribution = Math.floor(components.parker * 0.70);
-        parkerEl.textContent = `${parkerContribution}/70`;
-      }
-      if (appealEl) {
-        // Appeal contribution is already 0-15
-        const appealContribution = Math.floor(components.appeal);
-        appealEl.textContent = `${appealContribution}/15`;
-      }
-      if (safetyEl) {
-        // Safety contribution is already 0-15
-        const safetyContribution = Math.floor(components.safety);
-        safetyEl.textContent = `${safetyContribution}/15`;
-      }
+      this.updateRatingBreakdownUI(components.components);
     }
     this.updateSpeedButtonState();
   }
 
+  /**
+   * Rating breakdown in the expanded stats panel: one row per rating component of the challenge
+   */
+  private updateRatingBreakdownUI(components: RatingComponentScore[]): void {
+    const breakdownEl = document.getElementById('rating-breakdown');
+    if (!breakdownEl) return;
+    const key = components.map(component => `${component.id}:${component.label}:${component.maxPoints}`).join(',');
+    if (breakdownEl.dataset.components !== key) {
+      breakdownEl.dataset.components = key;
+      breakdownEl.replaceChildren(...components.map(component => {
+        const row = document.createElement('div');
+        row.className = 'rating-component';
+        const label = document.createElement('span');
+        label.className = 'rating-component-label';
+        label.textContent = component.label;
+        const value = document.createElement('span');
+        value.className = 'rating-component-value';
+        value.id = `rating-${component.id}`;
+        row.append(label, value);
+        return row;
+      }));
+    }
+    const windowDays = GameSystems.rating.getWindowDays();
+    const parkerTitle = windowDays > 1
+      ? `Parkers over the last ${windowDays} days, by ${GameSystems.rating.getAttribution()} day`
+      : `Today's parkers, by ${GameSystems.rating.getAttribution()} day`;
+    for (const component of components) {
+      const valueEl = document.getElementById(`rating-${component.id}`);
+      if (!valueEl) continue;
+      valueEl.textContent = `${Math.floor(component.points)}/${component.maxPoints}`;
+      if (component.source === 'parker') valueEl.title = parkerTitle;
+    }
+  }
+
   /**
    * Render all visual elements
    */
@@ -771,7 +771,7 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
   }
 
   /**
-   * Render entities (vehicles and pedestrians)
+   * Render entities (vehicles and pedestrians) and the maintenance overlay
    */
   protected renderEntities(): void {
     const vehicles = this.vehicleSystem.getVehicles();
@@ -806,42 +806,29 @@ export abstract class BaseGameplayScene extends Phaser.Scene {
       this.gridOffsetY,
       this.showPedestrianTargetMarkers
     );
+
+    EntityRenderer.drawMaintenance(
+      this.gridManager,
+      this.gridWidth,
+      this.gridHeight,
+      this.maintenanceGraphics,
+      this.gridOffsetX,
+      this.gridOffsetY
+    );
   }
 
   /**
    * Get all parking spots from the grid
    */
   protected getAllParkingSpots(): Ploppable[] {
-    // Include both Parking Spot and Parking Meter types (meters are placed on spots)
-    const parkingSpots: Ploppable[] = [];
-    
-    for (let x = 0; x < this.gridWidth; x++) {
-      for (let y = 0; y < this.gridHeight; y++) {
-        const cellData = this.gridManager.getCellData(x, y);
-        const ploppable = cellData?.ploppable;
-        if (ploppable && (ploppable.type === 'Parking Spot' || ploppable.type === 'Parking Meter')) {
-          parkingSpots.push(ploppable);
-        }
-      }
-    }
-    
-    return parkingSpots;
+    return this.gridManager.getParkingSpots();
   }
 
   /**
    * Get all pedestrian destinations (spawners) from the grid
    */
   protected getPedestrianDestinations(): { x: number; y: number }[] {
-    const destinations: { x: number; y: number }[] = [];
-    for (let x = 0; x < this.gridWidth; x++) {
-      for (let y = 0; y < this.gridHeight; y++) {
-        const cellData = this.gridManager.getCellData(x, y);
-        if (cellData?.ploppable?.type === 'Pedestrian Spawner') {
-          destinations.push({ x, y });
-        }
-      }
-    }
-    return destinations;
+    return this.gridManager.getPedestrianDestinations();
   }
 
   /**
@@ -0,0 +1,137 @@
+import { Challenge } from '@/types';
+import { VehicleSystem } from '@/systems/VehicleSystem';
+import { PedestrianSystem } from '@/systems/PedestrianSystem';
+import { TimeSystem } from '@/systems/TimeSystem';
+import { ParkingTimerSystem } from '@/systems/ParkingTimerSystem';
+import { getSpawnIntervalMsForSchedule, getPotentialParkerChanceForSchedule } from '@/config/challenges.config';
+import { setParkingRateConfig } from '@/config/parkingRateConfig';
+import { setChallengeNeeds } from '@/config/needs.config';
+import { setChallengeParkerArchetypes } from '@/config/parkerArchetypes.config';
+import { setChallengeRatingComponents } from '@/config/rating.config';
+import { GameSystems } from './GameSystems';
+
+/**
+ * ChallengeSetup - Applies a challenge's config to the simulation systems
+ *
+ * Shared by ChallengeScene and HeadlessSimulation so a challenge behaves the same
+ * in the browser and when simulated from Node.
+ */
+export class ChallengeSetup {
+  /**
+   * Configure vehicle/pedestrian systems and the parking timer from a challenge.
+   * In dev mode (or with no challenge) the spawn/parking tuning is skipped and only
+   * the need and pricing defaults are applied.
+   */
+  static apply(
+    challenge: Challenge | undefined,
+    vehicleSystem: VehicleSystem,
+    pedestrianSystem: PedestrianSystem,
+    isDevMode: boolean = false
+  ): void {
+    if (challenge && !isDevMode) {
+      const fallbackSpawnMs = challenge.vehicleSpawnIntervalMs ?? 3000;
+      vehicleSystem.setSpawnIntervalMs(fallbackSpawnMs);
+      if (challenge.vehicleSpawnSchedule?.length) {
+        vehicleSystem.setGetSpawnIntervalMs(() => {
+          const totalMinutes = TimeSystem.getInstance().getTotalMinutes();
+          return getSpawnIntervalMsForSchedule(totalMinutes, challenge.vehicleSpawnSchedule!, fallbackSpawnMs);
+        });
+      }
+      const fallbackParkerChance = challenge.potentialParkerChance ?? 0.5;
+      vehicleSystem.setPotentialParkerChance(fallbackParkerChance);
+      if (challenge.potentialParkerSchedule?.length) {
+        vehicleSystem.setGetPotentialParkerChance(() => {
+          const totalMinutes = TimeSystem.getInstance().getTotalMinutes();
+          return getPotentialParkerChanceForSchedule(totalMinutes, challenge.potentialParkerSchedule!, fallbackParkerChance);
+        });
+      }
+      if (challenge.pedestrianRespawnBands?.length) {
+        pedestrianSystem.setRespawnBands(challenge.pedestrianRespawnBands);
+      } else if (challenge.pedestrianRespawnMinMs != null && challenge.pedestrianRespawnMaxMs != null) {
+        pedestrianSystem.setRespawnDurationMs(challenge.pedestrianRespawnMinMs, challenge.pedestrianRespawnMaxMs);
+      }
+      if (challenge.driverExitsVehicleProbability != null) {
+        vehicleSystem.setDriverExitsVehicleProbability(challenge.driverExitsVehicleProbability);
+      }
+      if (challenge.parkingDurationMinMs != null && challenge.parkingDurationMaxMs != null) {
+        vehicleSystem.setParkingDurationMs(challenge.parkingDurationMinMs, challenge.parkingDurationMaxMs);
+      }
+      if (challenge.unfulfilledToiletEndsStay) {
+        pedestrianSystem.setUnfulfilledToiletEndsStay(true);
+      }
+      if (challenge.suppressNoSpotPenalty) {
+        vehicleSystem.setSuppressNoSpotPenalty(true);
+      }
+      vehicleSystem.setTrafficDelayPenalty(
+        challenge.trafficDelayToleranceMs ?? 20000,
+        challenge.trafficDelayPenaltyPerMinute ?? 1,
+        challenge.trafficDelayMessage ?? null
+      );
+      if (challenge.spotPreferenceWeights) {
+        vehicleSystem.setSpotPreferenceWeights(challenge.spotPreferenceWeights);
+      }
+      if (challenge.spotSearchMode) {
+        vehicleSystem.setSpotSearch(true, challenge.spotSearchTimeoutMs ?? 15000);
+      }
+      if (challenge.movieGoerMode) {
+        vehicleSystem.setMovieGoerMode(true);
+        if (challenge.showtimeEnds && challenge.showtimeEnds.length > 0) {
+          const ends = [...challenge.showtimeEnds].sort((a, b) => a - b);
+          const variance = challenge.showtimeLeaveVarianceMs ?? 2000;
+          vehicleSystem.setMovieGoerParkingDurationFn(() => {
+            const t = TimeSystem.getInstance().getTotalMinutes();
+            // Pick the next upcoming show end; falls back to the earliest end the following day
+            // (t + 1440) so late-night parkers (rare w/ current schedules) still get a sane duration.
+            let nextEndMinutes = ends.find(e => e > t);
+            if (nextEndMinutes === undefined) nextEndMinutes = ends[0] + 1440;
+            const gameMinutesUntilEnd = nextEndMinutes - t;
+            // 1 game min = 1 real sec, so ms = gameMinutes * 1000.
+            const baseMs = Math.max(0, gameMinutesUntilEnd) * 1000;
+            return baseMs + GameSystems.random.next() * variance;
+          });
+        }
+      }
+    }
+
+    setChallengeNeeds(challenge?.needs ?? []);
+    if (challenge?.needGenerationProbability != null) {
+      pedestrianSystem.setNeedGenerationProbability(challenge.needGenerationProbability);
+    } else {
+      pedestrianSystem.setNeedGenerationProbability(0.5);
+    }
+    if (challenge?.needTypeDistribution != null) {
+      pedestrianSystem.setNeedTypeDistribution(challenge.needTypeDistribution);
+    } else {
+      pedestrianSystem.setNeedTypeDistribution({ trash: 0.25, thirst: 0.25, toilet: 0.5 });
+    }
+    setChallengeParkerArchetypes(challenge?.parkerArchetypes ?? [], challenge?.parkerArchetypeDistribution ?? {});
+    setChallengeRatingComponents(challenge?.ratingComponents ?? []);
+
+    const parkingTimer = ParkingTimerSystem.getInstance();
+    const meterPenalty = challenge?.meterHighParkingRatePenaltyPerDollar ?? challenge?.highParkingRatePenaltyPerDollar ?? 10;
+    const boothPenalty = challenge?.boothHighParkingRatePenaltyPerDollar ?? challenge?.highParkingRatePenaltyPerDollar ?? 10;
+    if (challenge) {
+      parkingTimer.setMeterBillingIntervalMinutes(challenge.meterBillingIntervalMinutes ?? 15);
+      parkingTimer.setBoothBillingIntervalMinutes(challenge.boothBillingIntervalMinutes ?? 15);
+      parkingTimer.setMeterHighRatePenalty(meterPenalty);
+      parkingTimer.setBoothHighRatePenalty(boothPenalty);
+      parkingTimer.setBillingPolicy('meter', challenge.meterBillingPolicy ?? {});
+      parkingTimer.setBillingPolicy('booth', challenge.boothBillingPolicy ?? {});
+      setParkingRateConfig({
+        meterWillingnessToPay: challenge.meterWillingnessToPay ?? { mean: 7, stdDev: 2 },
+        boothWillingnessToPay: challenge.boothWillingnessToPay ?? { mean: 7, stdDev: 2 },
+        priceSensitivity: challenge.priceSensitivity ?? 0.5,
+        penaltyMessage: challenge.highParkingRatePenaltyMessage ?? "I can't believe they're charging this much to park! 😤",
+        refusalMessage: challenge.refusalToParkMessage ?? "There's no way I'm paying that much to park. 😤",
+        meterRefusalMessage: challenge.meterRefusalToParkMessage ?? null,
+        boothRefusalMessage: challenge.boothRefusalToParkMessage ?? null,
+      });
+      GameSystems.rating.setRatingWindow(challenge.ratingAttribution ?? 'departure', challenge.ratingWindowDays ?? 1);
+      GameSystems.loans.setLoanTerms(
+        challenge.loanLimit ?? 0,
+        challenge.loanDailyInterestRate ?? 0.02,
+        challenge.loanTermDays ?? 5
+      );
+    }
+  }
+}
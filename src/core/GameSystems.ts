@@ -5,8 +5,14 @@ import { AppealSystem } from '@/systems/AppealSystem';
 import { SafetySystem } from '@/systems/SafetySystem';
 import { ParkingTimerSystem } from '@/systems/ParkingTimerSystem';
 import { MessageSystem } from '@/systems/MessageSystem';
+import { RandomSystem } from '@/systems/RandomSystem';
+import { MaintenanceSystem } from '@/systems/MaintenanceSystem';
+import { LoanSystem } from '@/systems/LoanSystem';
 import { GridManager } from './GridManager';
 import { resetParkingRateConfig } from '@/config/parkingRateConfig';
+import { resetNeeds } from '@/config/needs.config';
+import { resetParkerArchetypes } from '@/config/parkerArchetypes.config';
+import { resetRatingComponents } from '@/config/rating.config';
 
 /**
  * GameSystems - Central access point for all game systems
@@ -64,6 +70,27 @@ export class GameSystems {
     return MessageSystem.getInstance();
   }
   
+  /**
+   * Access the RandomSystem singleton (seeded RNG for all simulation randomness)
+   */
+  static get random(): RandomSystem {
+    return RandomSystem.getInstance();
+  }
+  
+  /**
+   * Access the MaintenanceSystem singleton (fill levels, litter, servicing)
+   */
+  static get maintenance(): MaintenanceSystem {
+    return MaintenanceSystem.getInstance();
+  }
+  
+  /**
+   * Access the LoanSystem singleton (borrowing, debt service, bankruptcy)
+   */
+  static get loans(): LoanSystem {
+    return LoanSystem.getInstance();
+  }
+  
   /**
    * Reset all systems for a new challenge
    * Call this when starting a new challenge or entering dev mode
@@ -72,13 +99,21 @@ export class GameSystems {
    * @param gridManager - Grid manager instance (optional, for resetting appeal/safety)
    * @param gridWidth - Grid width (optional)
    * @param gridHeight - Grid height (optional)
+   * @param startTimeMinutes - Game minute the clock starts at (optional, default midnight)
+   * @param seed - RNG seed for this run (optional; a fresh random seed when omitted)
    */
-  static resetForChallenge(initialBudget: number, gridManager?: GridManager, gridWidth?: number, gridHeight?: number, startTimeMinutes?: number): void {
+  static resetForChallenge(initialBudget: number, gridManager?: GridManager, gridWidth?: number, gridHeight?: number, startTimeMinutes?: number, seed?: number): void {
+    this.random.reset(seed);
     this.time.reset(startTimeMinutes ?? 0);
     this.rating.reset();
     this.economy.reset(initialBudget);
     this.parkingTimer.reset();
+    this.maintenance.reset();
+    this.loans.reset();
     resetParkingRateConfig();
+    resetNeeds();
+    resetParkerArchetypes();
+    resetRatingComponents();
     this.messages.reset();
     if (gridManager && gridWidth !== undefined && gridHeight !== undefined) {
       this.appeal.reset(gridManager, gridWidth, gridHeight);
@@ -92,8 +127,9 @@ export class GameSystems {
    * 
    * Handles:
    * - Advancing game time
-   * - Triggering rating finalization at 11:59 PM
-   * - Triggering daily reset at midnight
+   * - Sampling the rating history every game hour
+   * - Triggering rating finalization and closing the books (upkeep, income statement) at 11:59 PM
+   * - Triggering daily reset at midnight (debt service, then the daily service contract)
    * 
    * @param delta - Time elapsed since last frame in milliseconds
    * @param gridManager - Grid manager instance (optional, for composite rating calculation)
@@ -104,15 +140,28 @@ export class GameSystems {
     this.time.update(delta);
     const scaledDelta = this.time.getScaledDelta(delta);
     this.parkingTimer.update(scaledDelta);
+    if (gridManager && gridWidth !== undefined && gridHeight !== undefined) {
+      this.rating.recordHourlySample(gridManager, gridWidth, gridHeight);
+    }
     
     // Check for 11:59 PM rating finalization (peek only; ChallengeScene consumes and shows win/lose overlay)
     if (this.time.peekRatingFinalized()) {
-      this.rating.finalizeDay(gridManager, gridWidth, gridHeight);
+      // The flag stays set until a scene consumes it and a long frame can cross midnight too,
+      // so name the day that reached 11:59 (finalizeDay and closeDay ignore days already done)
+      const closingDay = this.time.isElevenFiftyNine() ? this.time.getCurrentDay() : this.time.getCurrentDay() - 1;
+      this.rating.finalizeDay(closingDay, gridManager, gridWidth, gridHeight);
+      if (gridManager && gridWidth !== undefined && gridHeight !== undefined) {
+        this.economy.closeDay(closingDay, gridManager, gridWidth, gridHeight);
+      }
     }
     
     // Check for midnight day change
     if (this.time.consumeDayChange()) {
       this.rating.resetDailyScores(this.time.getCurrentDay());
+      this.loans.runDailyDebtService();
+      if (gridManager && gridWidth !== undefined && gridHeight !== undefined) {
+        this.maintenance.runDailyService(gridManager, gridWidth, gridHeight);
+      }
     }
   }
 }
@@ -1,4 +1,4 @@
-import { CellData, COLOR_TO_SURFACE, SurfaceType } from '@/types';
+import { CellData, COLOR_TO_SURFACE, Ploppable, SurfaceType } from '@/types';
 
 /**
  * GridManager - Manages cell data and border segments for the isometric grid
@@ -15,6 +15,9 @@ export class GridManager {
   private borderSegments: Map<string, number> = new Map();
   private gridWidth: number;
   private gridHeight: number;
+  // Shared across instances so a replacement grid (resize) never reuses an old grid's revision
+  private static lastPathingRevision: number = 0;
+  private pathingRevision: number = ++GridManager.lastPathingRevision;
 
   constructor(gridWidth: number, gridHeight: number) {
     this.gridWidth = gridWidth;
@@ -29,6 +32,59 @@ export class GridManager {
     return this.gridHeight;
   }
 
+  /**
+   * Revision that changes whenever an edit could change pathfinding: border segments,
+   * surfaces, sidewalk flags or ploppables (spot reservations and AoE values don't count).
+   * PathfindingSystem keys its cached distance fields on it.
+   */
+  getPathingRevision(): number {
+    return this.pathingRevision;
+  }
+
+  private markPathingChanged(): void {
+    this.pathingRevision = ++GridManager.lastPathingRevision;
+  }
+
+  /**
+   * The parts of a cell that pathfinding reads, for detecting edits that change movement
+   */
+  private static getPathingSignature(data: CellData | undefined): string {
+    if (!data) return '';
+    const ploppable = data.ploppable ? { ...data.ploppable, reserved: undefined, fillLevel: undefined } : undefined;
+    return JSON.stringify([data.surfaceType, data.behavesLikeSidewalk, ploppable]);
+  }
+
+  /**
+   * Get all parking spots on the grid (Parking Spot and Parking Meter; meters are placed on spots)
+   */
+  getParkingSpots(): Ploppable[] {
+    const parkingSpots: Ploppable[] = [];
+    for (let x = 0; x < this.gridWidth; x++) {
+      for (let y = 0; y < this.gridHeight; y++) {
+        const ploppable = this.getCellData(x, y)?.ploppable;
+        if (ploppable && (ploppable.type === 'Parking Spot' || ploppable.type === 'Parking Meter')) {
+          parkingSpots.push(ploppable);
+        }
+      }
+    }
+    return parkingSpots;
+  }
+
+  /**
+   * Get all pedestrian destinations (Pedestrian Spawner ploppables) on the grid
+   */
+  getPedestrianDestinations(): { x: number; y: number }[] {
+    const destinations: { x: number; y: number }[] = [];
+    for (let x = 0; x < this.gridWidth; x++) {
+      for (let y = 0; y < this.gridHeight; y++) {
+        if (this.getCellData(x, y)?.ploppable?.type === 'Pedestrian Spawner') {
+          destinations.push({ x, y });
+        }
+      }
+    }
+    return destinations;
+  }
+
   /**
    * Get a simple key for a cell: `${gridX},${gridY}`
    */
@@ -128,6 +184,7 @@ export class GridManager {
   setCellData(gridX: number, gridY: number, data: CellData): void {
     const cellKey = this.getCellKey(gridX, gridY);
     const existingData = this.cellData.get(cellKey) || {};
+    const signatureBefore = GridManager.getPathingSignature(existingData);
     const merged = { ...existingData, ...data };
     
     // Delete properties that are explicitly set to undefined
@@ -138,6 +195,30 @@ export class GridManager {
     });
     
     this.cellData.set(cellKey, merged);
+    if (GridManager.getPathingSignature(merged) !== signatureBefore) this.markPathingChanged();
+  }
+
+  /**
+   * Replace a cell's data outright (no merge). Passing undefined removes the cell's data.
+   * Used by editor undo/redo to put a cell back exactly as it was.
+   */
+  replaceCellData(gridX: number, gridY: number, data: CellData | undefined): void {
+    const cellKey = this.getCellKey(gridX, gridY);
+    if (GridManager.getPathingSignature(this.cellData.get(cellKey)) !== GridManager.getPathingSignature(data)) {
+      this.markPathingChanged();
+    }
+    if (data === undefined) {
+      this.cellData.delete(cellKey);
+    } else {
+      this.cellData.set(cellKey, data);
+    }
+  }
+
+  /**
+   * Get all cell data keyed by `${gridX},${gridY}` (for iteration)
+   */
+  getAllCellData(): Map<string, CellData> {
+    return this.cellData;
   }
 
   /**
@@ -151,6 +232,7 @@ export class GridManager {
    * Set border segment color for a given key
    */
   setBorderSegment(key: string, color: number): void {
+    if (this.borderSegments.get(key) !== color) this.markPathingChanged();
     this.borderSegments.set(key, color);
   }
 
@@ -158,7 +240,7 @@ export class GridManager {
    * Delete border segment for a given key
    */
   deleteBorderSegment(key: string): void {
-    this.borderSegments.delete(key);
+    if (this.borderSegments.delete(key)) this.markPathingChanged();
   }
 
   /**
@@ -181,6 +263,7 @@ export class GridManager {
   clear(): void {
     this.cellData.clear();
     this.borderSegments.clear();
+    this.markPathingChanged();
   }
 
   /**
@@ -223,6 +306,7 @@ export class GridManager {
       // Clear existing data
       this.cellData.clear();
       this.borderSegments.clear();
+      this.markPathingChanged();
       
       // Load cell data (only cells that fit in current grid dimensions)
       if (data.cellData && typeof data.cellData === 'object') {
@@ -0,0 +1,200 @@
+import { Challenge } from '@/types';
+import { GridManager } from './GridManager';
+import { GameSystems } from './GameSystems';
+import { ChallengeSetup } from './ChallengeSetup';
+import { VehicleSystem, CongestionMetrics } from '@/systems/VehicleSystem';
+import { PedestrianSystem } from '@/systems/PedestrianSystem';
+import { ChallengeSystem, ChallengeMetrics } from '@/systems/ChallengeSystem';
+import { SpawnerManager } from '@/managers/SpawnerManager';
+import { PathfindingUtilities } from '@/utils/PathfindingUtilities';
+import type { LotPricing } from '@/systems/ParkingTimerSystem';
+
+export interface HeadlessSimulationOptions {
+  /** Number of game days to simulate (each day ends at the 11:59 PM rating finalization). */
+  days: number;
+  /** Simulated real-time frame length in ms (default ~60 FPS). */
+  frameMs?: number;
+  /** Game speed multiplier: 1, 2 or 4 (default 4, the fastest in-game speed). */
+  speedMultiplier?: number;
+  /** Stop as soon as the challenge is won or lost instead of running all days (default true). */
+  stopOnGameOver?: boolean;
+}
+
+export type HeadlessSimulationOutcome = 'won' | 'lost' | 'bankrupt' | 'timeup' | null;
+
+export interface HeadlessSimulationResult {
+  /** Metrics as ChallengeScene computes them, sampled when the run ended. */
+  metrics: ChallengeMetrics;
+  /** Metrics sampled at each day's rating finalization, in order. */
+  dailyMetrics: ChallengeMetrics[];
+  /** Win/lose result using the same rules as ChallengeScene; null if undecided after the last day. */
+  outcome: HeadlessSimulationOutcome;
+  /** Number of rating finalizations that occurred. */
+  daysSimulated: number;
+  /** Stall and trip times over vehicles that left the map during the run. */
+  congestion: CongestionMetrics;
+}
+
+/**
+ * HeadlessSimulation - Runs a challenge without Phaser or the DOM
+ *
+ * Builds the same systems BaseGameplayScene does from a Challenge and a grid JSON
+ * (GridManager.serializeGrid format, optionally with vehicleSpawnerPairs and the exported
+ * lot pricing), then ticks
+ * them in fixed frames. Game systems are singletons, so only one simulation (or scene)
+ * can run at a time.
+ */
+export class HeadlessSimulation {
+  private challenge: Challenge;
+  private gridManager: GridManager;
+  private gridWidth: number;
+  private gridHeight: number;
+  private vehicleSystem: VehicleSystem;
+  private pedestrianSystem: PedestrianSystem;
+  private challengeSystem: ChallengeSystem;
+  private initialBudget: number;
+
+  /**
+   * @param seed - RNG seed; runs with the same challenge, grid and seed produce identical results
+   */
+  constructor(challenge: Challenge, gridJson: string, seed?: number) {
+    const parsed = JSON.parse(gridJson) as {
+      gridWidth?: number;
+      gridHeight?: number;
+      gridSize?: number;
+      vehicleSpawnerPairs?: Array<[number, number, number, number]>;
+    } & Partial<LotPricing>;
+    this.challenge = challenge;
+    this.gridWidth = parsed.gridWidth ?? parsed.gridSize ?? 10;
+    this.gridHeight = parsed.gridHeight ?? parsed.gridSize ?? 10;
+    this.gridManager = new GridManager(this.gridWidth, this.gridHeight);
+    this.initialBudget = challenge.budget ?? 10000;
+    this.challengeSystem = new ChallengeSystem(challenge);
+
+    GameSystems.resetForChallenge(
+      this.initialBudget, this.gridManager, this.gridWidth, this.gridHeight, challenge.startTimeMinutes, seed
+    );
+    if (!this.gridManager.deserializeGrid(gridJson)) {
+      throw new Error(`Invalid grid JSON for challenge "${challenge.id}"`);
+    }
+
+    const isEdgeBlocked = PathfindingUtilities.createEdgeBlockedCallback(() => this.gridManager);
+    const getMoveCost = PathfindingUtilities.createMoveCostCallback(() => this.gridManager);
+    this.pedestrianSystem = new PedestrianSystem(
+      this.gridWidth,
+      this.gridHeight,
+      (x: number, y: number) => this.gridManager.getCellData(x, y),
+      () => this.gridManager.getPedestrianDestinations(),
+      isEdgeBlocked,
+      this.gridManager,
+      0,
+      getMoveCost
+    );
+    this.vehicleSystem = new VehicleSystem(
+      this.gridWidth,
+      this.gridHeight,
+      (x: number, y: number) => this.gridManager.getCellData(x, y),
+      () => this.gridManager.getParkingSpots(),
+      isEdgeBlocked,
+      getMoveCost,
+      this.pedestrianSystem
+    );
+    this.pedestrianSystem.setOnParkerEarlyExit((vehicleId, reason) => {
+      this.vehicleSystem.forceParkerEarlyExit(vehicleId, reason);
+    });
+    const getGridRevision = () => this.gridManager.getPathingRevision();
+    this.pedestrianSystem.setGridRevisionCallback(getGridRevision);
+    this.vehicleSystem.setGridRevisionCallback(getGridRevision);
+
+    ChallengeSetup.apply(challenge, this.vehicleSystem, this.pedestrianSystem);
+    GameSystems.parkingTimer.loadLotPricing(parsed, challenge);
+    SpawnerManager.rebuildSpawnerPairsFromGrid(
+      this.gridManager,
+      this.gridWidth,
+      this.gridHeight,
+      this.vehicleSystem,
+      this.pedestrianSystem,
+      parsed.vehicleSpawnerPairs
+    );
+  }
+
+  /**
+   * Tick the simulation until the requested number of days have been finalized
+   * (or the challenge is decided, when stopOnGameOver is set).
+   */
+  run(options: HeadlessSimulationOptions): HeadlessSimulationResult {
+    const frameMs = options.frameMs ?? 1000 / 60;
+    const stopOnGameOver = options.stopOnGameOver ?? true;
+    const maxDay = this.challenge.maxDay ?? 5;
+    GameSystems.time.setSpeedMultiplier(options.speedMultiplier ?? 4);
+
+    const dailyMetrics: ChallengeMetrics[] = [];
+    let outcome: HeadlessSimulationOutcome = null;
+    let daysSimulated = 0;
+
+    while (daysSimulated < options.days) {
+      // Same order as ChallengeScene.update: bankruptcy check, then systems, then day finalization.
+      if (outcome === null && GameSystems.loans.isBankrupt()) {
+        outcome = 'bankrupt';
+        if (stopOnGameOver) break;
+      }
+      if (outcome === null && GameSystems.economy.getMoney() < 0) {
+        outcome = 'lost';
+        if (stopOnGameOver) break;
+      }
+      GameSystems.update(frameMs, this.gridManager, this.gridWidth, this.gridHeight);
+      const scaledDelta = GameSystems.time.getScaledDelta(frameMs);
+      this.vehicleSystem.update(scaledDelta, this.gridWidth, this.gridHeight, 0, 0);
+      this.pedestrianSystem.update(scaledDelta, this.gridWidth, this.gridHeight, 0, 0);
+
+      if (GameSystems.time.consumeRatingFinalized()) {
+        daysSimulated++;
+        const metrics = this.getMetrics();
+        dailyMetrics.push(metrics);
+        if (outcome === null) {
+          const displayedDay = GameSystems.time.getCurrentDay() + 1;
+          if (this.challengeSystem.checkWinConditions(metrics)) {
+            outcome = 'won';
+          } else if (displayedDay >= maxDay) {
+            outcome = 'timeup';
+          }
+          if (outcome !== null && stopOnGameOver) break;
+        }
+      }
+    }
+
+    return {
+      metrics: this.getMetrics(),
+      dailyMetrics,
+      outcome,
+      daysSimulated,
+      congestion: this.vehicleSystem.getCongestionMetrics(),
+    };
+  }
+
+  /**
+   * Current challenge metrics (profit, rating, day, parking spots, ploppable counts)
+   */
+  getMetrics(): ChallengeMetrics {
+    return ChallengeSystem.gatherMetrics(this.gridManager, this.gridWidth, this.gridHeight, this.initialBudget);
+  }
+
+  /**
+   * Seed this run is using (the generated one when none was passed in)
+   */
+  getSeed(): number {
+    return GameSystems.random.getSeed();
+  }
+
+  getVehicleSystem(): VehicleSystem {
+    return this.vehicleSystem;
+  }
+
+  getPedestrianSystem(): PedestrianSystem {
+    return this.pedestrianSystem;
+  }
+
+  getGridManager(): GridManager {
+    return this.gridManager;
+  }
+}
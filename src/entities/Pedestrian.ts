@@ -1,4 +1,4 @@
-import { Pedestrian } from '@/types';
+import { Pedestrian, NeedType, ParkerArchetypeId } from '@/types';
 
 export class PedestrianEntity implements Pedestrian {
   id: string;
@@ -15,21 +15,25 @@ export class PedestrianEntity implements Pedestrian {
   vehicleY: number;
   destinationX?: number;
   destinationY?: number;
-  state: 'spawning' | 'going_to_destination' | 'at_destination' | 'despawned' | 'respawning' | 'returning_to_vehicle' | 'at_vehicle' | 'going_to_need' | 'fulfilling_need';
+  state: 'spawning' | 'going_to_destination' | 'at_destination' | 'despawned' | 'respawning' | 'returning_to_vehicle' | 'at_vehicle' | 'going_to_need' | 'queued_for_need' | 'fulfilling_need';
   respawnTimer?: number;
   respawnDuration?: number;
   // Need system fields
-  currentNeed?: 'trash' | 'thirst' | 'toilet' | null;
+  currentNeed?: NeedType | null;
   needTargetPloppableId?: string;
   needTargetX?: number;
   needTargetY?: number;
   needFulfillmentTimer?: number;
   needFulfillmentStartTime?: number;
+  needFulfillmentMinutes?: number;
+  needServiceSlot?: boolean;
+  needQueueStartTime?: number;
   satisfaction?: number;
   rating?: number;
-  unfulfilledNeeds?: ('trash' | 'thirst' | 'toilet')[];
+  unfulfilledNeeds?: NeedType[];
   actualPathTiles?: { x: number; y: number }[];
   isMovieGoerNeedTrip?: boolean;
+  archetype?: ParkerArchetypeId;
 
   constructor(
     vehicleId: string,
@@ -40,7 +44,8 @@ export class PedestrianEntity implements Pedestrian {
     path: { x: number; y: number }[],
     speed: number,
     respawnDuration: number,
-    name?: string
+    name?: string,
+    archetype?: ParkerArchetypeId
   ) {
     this.id = `pedestrian-${Date.now()}-${Math.random()}`;
     this.vehicleId = vehicleId;
@@ -55,6 +60,7 @@ export class PedestrianEntity implements Pedestrian {
     this.respawnDuration = respawnDuration;
     this.respawnTimer = respawnDuration;
     this.name = name;
+    this.archetype = archetype;
     
     // Initialize personal variables
     this.satisfaction = 50; // Default satisfaction
@@ -1,5 +1,6 @@
-import { Vehicle } from '@/types';
+import { Vehicle, ParkerArchetypeId } from '@/types';
 import { MessageSystem } from '@/systems/MessageSystem';
+import { formatParkerName } from '@/config/parkerArchetypes.config';
 
 export class VehicleEntity implements Vehicle {
   id: string;
@@ -27,6 +28,20 @@ export class VehicleEntity implements Vehicle {
   pedestrianSpawned?: boolean;
   movieGoerMode?: boolean;
   movieGoerNeedEvents?: number[];
+  waitTimer?: number;
+  gridlockRerouted?: boolean;
+  boothServiceTimer?: number;
+  stalledMs?: number;
+  inboundTripMs?: number;
+  outboundTripMs?: number;
+  searchingForSpot?: boolean;
+  spotSearchTimer?: number;
+  willingnessToPay?: { meter: number; booth: number };
+  acceptsRate?: { meter: boolean; booth: boolean };
+  plannedStayMs?: number;
+  lockedRates?: { meter: number; booth: number };
+  destination?: { x: number; y: number };
+  archetype?: ParkerArchetypeId;
 
   constructor(
     spawnerX: number,
@@ -36,7 +51,8 @@ export class VehicleEntity implements Vehicle {
     path: { x: number; y: number }[],
     speed: number,
     isPotentialParker: boolean = false,
-    spriteVariant: number = 0
+    spriteVariant: number = 0,
+    archetype?: ParkerArchetypeId
   ) {
     this.id = `vehicle-${Date.now()}-${Math.random()}`;
     this.spawnerX = spawnerX;
@@ -61,9 +77,10 @@ export class VehicleEntity implements Vehicle {
     this.sidewalkMessageShown = false;
     this.spriteVariant = spriteVariant;
     
-    // Generate a name for potential parkers
+    // Generate a name for potential parkers (archetype shown after it in messages)
     if (isPotentialParker) {
-      this.name = MessageSystem.generateParkerName();
+      this.archetype = archetype;
+      this.name = formatParkerName(MessageSystem.generateParkerName(), archetype);
     }
   }
 }
@@ -0,0 +1,216 @@
+/**
+ * SaveGameManager - Mid-challenge save games in named localStorage slots
+ *
+ * A save snapshots the whole run: the grid (GridManager.serializeGrid) with its vehicle
+ * spawner pairs, live vehicles and pedestrians, parking timers and rates, parker scores,
+ * money and its ledger, loans, the service contract, the clock and the RNG position. Challenge
+ * tuning (spawn schedules, penalties, etc.) is not saved; it is re-applied from the challenge
+ * config when the save is loaded.
+ */
+
+import { GridManager } from '@/core/GridManager';
+import { GameSystems } from '@/core/GameSystems';
+import { SpawnerManager } from './SpawnerManager';
+import type { VehicleSystem, VehicleSystemSaveState } from '@/systems/VehicleSystem';
+import type { PedestrianSystem, PedestrianSystemSaveState } from '@/systems/PedestrianSystem';
+import type { TimeSaveState } from '@/systems/TimeSystem';
+import type { RatingSaveState } from '@/systems/RatingSystem';
+import type { ParkingTimerSaveState } from '@/systems/ParkingTimerSystem';
+import type { RandomSaveState } from '@/systems/RandomSystem';
+import type { MaintenanceSaveState } from '@/systems/MaintenanceSystem';
+import type { EconomySaveState } from '@/systems/EconomySystem';
+import type { LoanSaveState } from '@/systems/LoanSystem';
+import type { GameMessage } from '@/systems/MessageSystem';
+
+const STORAGE_KEY = 'parking-lot-tycoon-saves';
+
+/** Bump when the save format changes incompatibly; older saves are then ignored. */
+const SAVE_VERSION = 1;
+
+export interface SaveGameData {
+  version: number;
+  slotName: string;
+  /** ISO timestamp of when the save was written */
+  savedAt: string;
+  challengeId: string;
+  isDevMode: boolean;
+  gridWidth: number;
+  gridHeight: number;
+  /** GridManager.serializeGrid output */
+  grid: string;
+  vehicleSpawnerPairs: Array<[number, number, number, number]>;
+  money: number;
+  time: TimeSaveState;
+  rating: RatingSaveState;
+  parkingTimer: ParkingTimerSaveState;
+  random: RandomSaveState;
+  /** Absent in saves written before maintenance existed (no service contract) */
+  maintenance?: MaintenanceSaveState;
+  /** Absent in saves written before the ledger existed (empty ledger) */
+  economy?: EconomySaveState;
+  /** Absent in saves written before loans existed (no debt) */
+  loans?: LoanSaveState;
+  messages: GameMessage[];
+  vehicles: VehicleSystemSaveState;
+  pedestrians: PedestrianSystemSaveState;
+}
+
+/** What the menu needs to list a slot without restoring it */
+export interface SaveSlotSummary {
+  slotName: string;
+  savedAt: string;
+  challengeId: string;
+  isDevMode: boolean;
+  day: number;
+  gameMinutes: number;
+  money: number;
+}
+
+function loadRaw(): Record<string, SaveGameData> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Record<string, SaveGameData>;
+      if (parsed && typeof parsed === 'object') {
+        const slots: Record<string, SaveGameData> = {};
+        for (const [name, data] of Object.entries(parsed)) {
+          if (data?.version === SAVE_VERSION) slots[name] = data;
+        }
+        return slots;
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return {};
+}
+
+function save(slots: Record<string, SaveGameData>): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(slots));
+    return true;
+  } catch {
+    // Quota exceeded or storage disabled
+    return false;
+  }
+}
+
+/**
+ * Snapshot the running game. Systems are read through GameSystems; the scene passes
+ * its own grid and entity systems.
+ */
+export function captureSaveGame(
+  slotName: string,
+  challengeId: string,
+  isDevMode: boolean,
+  gridManager: GridManager,
+  gridWidth: number,
+  gridHeight: number,
+  vehicleSystem: VehicleSystem,
+  pedestrianSystem: PedestrianSystem
+): SaveGameData {
+  return {
+    version: SAVE_VERSION,
+    slotName,
+    savedAt: new Date().toISOString(),
+    challengeId,
+    isDevMode,
+    gridWidth,
+    gridHeight,
+    grid: gridManager.serializeGrid(),
+    vehicleSpawnerPairs: vehicleSystem.getSpawnerDespawnerPairs().map(p => [p.spawnerX, p.spawnerY, p.despawnerX, p.despawnerY]),
+    money: GameSystems.economy.getMoney(),
+    time: GameSystems.time.getSaveState(),
+    rating: GameSystems.rating.getSaveState(),
+    parkingTimer: GameSystems.parkingTimer.getSaveState(),
+    random: GameSystems.random.getSaveState(),
+    maintenance: GameSystems.maintenance.getSaveState(),
+    economy: GameSystems.economy.getSaveState(),
+    loans: GameSystems.loans.getSaveState(),
+    messages: GameSystems.messages.getMessages(),
+    vehicles: vehicleSystem.getSaveState(),
+    pedestrians: pedestrianSystem.getSaveState(),
+  };
+}
+
+/**
+ * Restore a snapshot into freshly set up systems (after GameSystems.resetForChallenge and
+ * ChallengeSetup.apply). The grid must already be sized to data.gridWidth x data.gridHeight.
+ *
+ * @returns false if the grid could not be deserialized (nothing else is restored)
+ */
+export function restoreSaveGame(
+  data: SaveGameData,
+  gridManager: GridManager,
+  vehicleSystem: VehicleSystem,
+  pedestrianSystem: PedestrianSystem
+): boolean {
+  if (!gridManager.deserializeGrid(data.grid)) return false;
+  // Rebuilding pairs clears entities and rolls new spawn timers, so entity state is loaded after it
+  SpawnerManager.rebuildSpawnerPairsFromGrid(
+    gridManager,
+    data.gridWidth,
+    data.gridHeight,
+    vehicleSystem,
+    pedestrianSystem,
+    data.vehicleSpawnerPairs
+  );
+  vehicleSystem.loadSaveState(data.vehicles);
+  pedestrianSystem.loadSaveState(data.pedestrians);
+  GameSystems.economy.setMoney(data.money);
+  GameSystems.time.loadSaveState(data.time);
+  GameSystems.rating.loadSaveState(data.rating);
+  GameSystems.parkingTimer.loadSaveState(data.parkingTimer);
+  if (data.maintenance) GameSystems.maintenance.loadSaveState(data.maintenance);
+  if (data.economy) GameSystems.economy.loadSaveState(data.economy);
+  if (data.loans) GameSystems.loans.loadSaveState(data.loans);
+  GameSystems.messages.loadMessages(data.messages);
+  // Last, so nothing above consumes rolls from the restored sequence
+  GameSystems.random.loadSaveState(data.random);
+  return true;
+}
+
+/**
+ * Write a save to its slot (overwrites a slot with the same name).
+ * @returns false if localStorage rejected the write (e.g. quota exceeded)
+ */
+export function writeSaveSlot(data: SaveGameData): boolean {
+  const slots = loadRaw();
+  slots[data.slotName] = data;
+  return save(slots);
+}
+
+/**
+ * Read a save slot, or null if it doesn't exist (or is from an incompatible version).
+ */
+export function readSaveSlot(slotName: string): SaveGameData | null {
+  return loadRaw()[slotName] ?? null;
+}
+
+/**
+ * Delete a save slot.
+ */
+export function deleteSaveSlot(slotName: string): void {
+  const slots = loadRaw();
+  if (slotName in slots) {
+    delete slots[slotName];
+    save(slots);
+  }
+}
+
+/**
+ * List all save slots, newest first.
+ */
+export function listSaveSlots(): SaveSlotSummary[] {
+  return Object.values(loadRaw())
+    .map(data => ({
+      slotName: data.slotName,
+      savedAt: data.savedAt,
+      challengeId: data.challengeId,
+      isDevMode: data.isDevMode,
+      day: data.time.currentDay,
+      gameMinutes: data.time.gameMinutes,
+      money: data.money,
+    }))
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
@@ -1,4 +1,4 @@
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
 import { TILE_WIDTH, TILE_HEIGHT } from '@/config/game.config';
 import { GridManager } from '@/core/GridManager';
 import { SpawnerDespawnerPair } from '@/types';
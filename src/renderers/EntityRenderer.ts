@@ -3,87 +3,28 @@ import { TILE_WIDTH, TILE_HEIGHT } from '@/config/game.config';
 import { VehicleEntity } from '@/entities/Vehicle';
 import { PedestrianEntity } from '@/entities/Pedestrian';
 import { isoToScreen } from '@/utils/isometric';
-
-/**
- * Vehicle sprite variant: [upTextureKey, downTextureKey, scale].
- * "Up" = screen-Y decreasing (nose top-left); "down" = screen-Y increasing (nose bottom-right).
- * Scale is relative to VEHICLE_SPRITE_SCALE (1.0 = default size, <1 = smaller, >1 = larger).
- */
-export type VehicleVariant = [string, string, number];
-
-/** Sprites used for vehicles that intend to park. */
-export const PARKER_VARIANTS: VehicleVariant[] = [
-  ['car1u', 'car1d', 1.0],
-  ['car2u', 'car2d', 1.0],
-  ['car3u', 'car3d', 1.0],
-];
-
-/** Sprites used for vehicles that are just passing through (includes cars + larger vehicles). */
-export const NON_PARKER_VARIANTS: VehicleVariant[] = [
-  ['car1u', 'car1d', 1.0],
-  ['car2u', 'car2d', 1.0],
-  ['car3u', 'car3d', 1.0],
-  ['bus1u', 'bus1d', 2.0],
-  ['truck1u', 'truck1d', 1.25],
-];
-
-/** All unique variants (union of both pools) — used for preloading and sprite lookup by index. */
-export const VEHICLE_VARIANTS: VehicleVariant[] = (() => {
-  const seen = new Set<string>();
-  const all: VehicleVariant[] = [];
-  for (const v of [...PARKER_VARIANTS, ...NON_PARKER_VARIANTS]) {
-    if (!seen.has(v[0])) { seen.add(v[0]); all.push(v); }
-  }
-  return all;
-})();
+import { VEHICLE_VARIANTS } from '@/config/vehicleVariants.config';
+import { GridManager } from '@/core/GridManager';
+import { GameSystems } from '@/core/GameSystems';
+import { PLOPPABLE_DEFINITIONS, type PloppableSprite, type PloppableSpriteConfig } from '@/config/ploppables.config';
 
 /** Legacy convenience alias (variant 0) used by the sprite pool default texture. */
 export const VEHICLE_TEXTURE_UP = VEHICLE_VARIANTS[0][0];
 
-/** Ploppable type name -> sprite texture key (for types that have PNG sprites). */
-export const PLOPPABLE_SPRITES: Record<string, string> = {
-  'Trash Can': 'trashcan',
-  'Bench': 'bench',
-  'Street Light': 'lamp',
-  'Tree': 'tree',
-  'Shrub': 'shrub',
-  'Flower Patch': 'flowers',
-  'Vending Machine': 'vending',
-  'Dumpster': 'dumpster',
-  'Portable Toilet': 'lotty-potty',
-  'Booth Barrier': 'barrier',
-  'Parking Booth': 'booth',
-  'Parking Meter': 'meter',
-  'Speed Bump': 'speedbump',
-  'Security Camera': 'camera',
-  'Pedestrian Spawner': 'cone',
+/** Ploppable type name -> sprite, from the ploppable registry plus sprites drawn for part of a ploppable. */
+const SPRITES_BY_TYPE: Record<string, PloppableSprite> = {
+  'Booth Barrier': { key: 'barrier', originX: 0.5, originY: 1.0, scaleMultiplier: 0.3 },
 };
-
-/** Per-sprite origin (0–1) and scale multiplier for ploppable sprites. */
-export interface PloppableSpriteConfig {
-  originX: number;
-  originY: number;
-  /** Scale multiplier applied to base tile-relative scale (1 = default). */
-  scaleMultiplier: number;
+for (const def of PLOPPABLE_DEFINITIONS) {
+  if (def.sprite) SPRITES_BY_TYPE[def.type] = def.sprite;
 }
 
-export const PLOPPABLE_SPRITE_CONFIG: Record<string, PloppableSpriteConfig> = {
-  'Trash Can': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.3 },
-  'Tree': { originX: 0.5, originY: 1.0, scaleMultiplier: 1.0 },
-  'Shrub': { originX: 0.5, originY: 0.5, scaleMultiplier: 0.75 },
-  'Flower Patch': { originX: 0.5, originY: 0.5, scaleMultiplier: 0.5 },
-  'Street Light': { originX: 0.5, originY: 1.0, scaleMultiplier: 1.5 },
-  'Bench': { originX: 0.5, originY: 0.5, scaleMultiplier: 0.75 },
-  'Vending Machine': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.75 },
-  'Dumpster': { originX: 0.5, originY: 1.0, scaleMultiplier: 1.2 },
-  'Portable Toilet': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.85 },
-  'Booth Barrier': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.3 },
-  'Parking Booth': { originX: 0.5, originY: 1.0, scaleMultiplier: 1.8 },
-  'Parking Meter': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.15 },
-  'Speed Bump': { originX: 0.5, originY: 0.5, scaleMultiplier: 0.7 },
-  'Security Camera': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.3 },
-  'Pedestrian Spawner': { originX: 0.5, originY: 1.0, scaleMultiplier: 0.15 },
-};
+/** Ploppable type name -> sprite texture key (for types that have PNG sprites). */
+export const PLOPPABLE_SPRITES: Record<string, string> = Object.fromEntries(
+  Object.entries(SPRITES_BY_TYPE).map(([type, sprite]) => [type, sprite.key])
+);
+
+export const PLOPPABLE_SPRITE_CONFIG: Record<string, PloppableSpriteConfig> = SPRITES_BY_TYPE;
 
 /** Depth base for vehicles and props that must sort with them by screen Y (isometric overlap). */
 export const ISO_ENTITY_DEPTH_BASE = 1.8;
@@ -222,7 +163,7 @@ export class EntityRenderer {
       // Draw a larger circle at the destination cell (cell center) — Dev Mode debug only
       if (!showTargetMarkers) return;
       // Show destination when going to destination, show vehicle when returning, show need target when fulfilling needs
-      if ((pedestrian.state === 'going_to_need' || pedestrian.state === 'fulfilling_need') && 
+      if ((pedestrian.state === 'going_to_need' || pedestrian.state === 'queued_for_need' || pedestrian.state === 'fulfilling_need') && 
           pedestrian.needTargetX !== undefined && pedestrian.needTargetY !== undefined) {
         // Show need fulfillment target location
         const needScreenPos = isoToScreen(pedestrian.needTargetX, pedestrian.needTargetY);
@@ -255,5 +196,50 @@ export class EntityRenderer {
       }
     });
   }
-}
 
+  /**
+   * Draw litter specks on littered cells and a fill bar over ploppables that fill with use
+   */
+  static drawMaintenance(
+    gridManager: GridManager,
+    gridWidth: number,
+    gridHeight: number,
+    graphics: Phaser.GameObjects.Graphics,
+    gridOffsetX: number,
+    gridOffsetY: number
+  ): void {
+    graphics.clear();
+    for (let y = 0; y < gridHeight; y++) {
+      for (let x = 0; x < gridWidth; x++) {
+        const cellData = gridManager.getCellData(x, y);
+        if (!cellData) continue;
+        const center = isoToScreen(x, y);
+        const centerX = center.x + gridOffsetX;
+        const centerY = center.y + gridOffsetY;
+
+        // Litter: a few pale specks per piece, placed deterministically around the cell center
+        const litter = Math.min(cellData.litter ?? 0, 6);
+        for (let i = 0; i < litter; i++) {
+          const angle = i * 2.4 + x * 0.7 + y * 1.3;
+          const distance = (i % 3 + 1) * (TILE_HEIGHT / 10);
+          graphics.fillStyle(i % 2 === 0 ? 0xf0f0e0 : 0xc8a060, 1);
+          graphics.fillRect(centerX + Math.cos(angle) * distance * 2 - 2, centerY + Math.sin(angle) * distance - 1, 4, 2);
+        }
+
+        // Fill bar: only on the ploppable's own cell, green → red as it fills
+        const ploppable = cellData.ploppable;
+        if (!ploppable || ploppable.x !== x || ploppable.y !== y) continue;
+        const fill = GameSystems.maintenance.getFillFraction(ploppable);
+        if (fill === null || fill === 0) continue;
+        const barWidth = TILE_WIDTH * 0.4;
+        const barHeight = 4;
+        const barX = centerX - barWidth / 2;
+        const barY = centerY + TILE_HEIGHT / 4;
+        graphics.fillStyle(0x000000, 0.6);
+        graphics.fillRect(barX - 1, barY - 1, barWidth + 2, barHeight + 2);
+        graphics.fillStyle(fill >= 1 ? 0xff0000 : fill >= 0.75 ? 0xffaa00 : 0x00cc00, 1);
+        graphics.fillRect(barX, barY, barWidth * fill, barHeight);
+      }
+    }
+  }
+}
@@ -81,6 +81,37 @@ export function showLoseOverlay(
   });
 }
 
+/**
+ * Show bankrupt overlay (a day's loan payment couldn't be made). Buttons call onMenu, onRetry.
+ */
+export function showBankruptOverlay(
+  container: HTMLElement,
+  onMenu: () => void,
+  onRetry: () => void
+): void {
+  if (document.getElementById(OVERLAY_ID)) return;
+  const overlay = document.createElement('div');
+  overlay.id = OVERLAY_ID;
+  overlay.style.cssText = OVERLAY_STYLE;
+  overlay.innerHTML = `
+    <h2 style="margin-bottom:20px;font-size:28px;">Bankrupt</h2>
+    <p style="margin-bottom:24px;">You couldn't make a loan payment and the bank took the lot.</p>
+    <div style="display:flex;gap:16px;">
+      <button id="overlay-menu-btn" class="action-button" style="width:140px;">Menu</button>
+      <button id="overlay-retry-btn" class="action-button" style="width:140px;">Retry</button>
+    </div>
+  `;
+  container.appendChild(overlay);
+  document.getElementById('overlay-menu-btn')?.addEventListener('click', () => {
+    removeOverlay();
+    onMenu();
+  });
+  document.getElementById('overlay-retry-btn')?.addEventListener('click', () => {
+    removeOverlay();
+    onRetry();
+  });
+}
+
 /**
  * Show time-up overlay. maxDay is displayed in the message. Buttons call onMenu, onRetry.
  */
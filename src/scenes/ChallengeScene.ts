@@ -2,16 +2,21 @@ import Phaser from 'phaser';
 import { TILE_WIDTH, TILE_HEIGHT } from '@/config/game.config';
 import { BaseGameplayScene } from '@/core/BaseGameplayScene';
 import { GameSystems } from '@/core/GameSystems';
+import type { Challenge } from '@/types';
 import { SpawnerManager } from '@/managers/SpawnerManager';
 import { GridManager } from '@/core/GridManager';
-import { ParkingTimerSystem } from '@/systems/ParkingTimerSystem';
-import { getChallengeById, getSpawnIntervalMsForSchedule, getPotentialParkerChanceForSchedule } from '@/config/challenges.config';
-import { setParkingRateConfig } from '@/config/parkingRateConfig';
-import { ChallengeSystem } from '@/systems/ChallengeSystem';
+import { getChallengeById } from '@/config/challenges.config';
+import { ChallengeSetup } from '@/core/ChallengeSetup';
+import { ChallengeSystem, type ChallengeMetrics } from '@/systems/ChallengeSystem';
+import type { LotPricing } from '@/systems/ParkingTimerSystem';
 import { completeChallenge } from '@/managers/ProgressManager';
+import { captureSaveGame, readSaveSlot, restoreSaveGame, writeSaveSlot } from '@/managers/SaveGameManager';
 import { LeaderboardSystem } from '@/systems/LeaderboardSystem';
-import { TimeSystem } from '@/systems/TimeSystem';
 import * as ChallengeOverlays from '@/scenes/ChallengeOverlays';
+import { initializeFinancePanel, updateFinancePanel } from '@/scenes/FinancePanel';
+import { initializeRatingHistoryPanel, updateRatingHistoryPanel } from '@/scenes/RatingHistoryPanel';
+import { initializeRatingReasonsPanel, updateRatingReasonsPanel } from '@/scenes/RatingReasonsPanel';
+import { initializeEntityInspectorPanel } from '@/scenes/EntityInspectorPanel';
 import { getChallengeBehavior } from '@/scenes/challengeBehaviors';
 import type { ChallengeBehavior, ChallengeBehaviorContext } from '@/scenes/challengeBehaviors';
 import { GridEditorController, type GridEditorContext } from '@/scenes/ChallengeSceneTools';
@@ -19,6 +24,10 @@ import { GridEditorController, type GridEditorContext } from '@/scenes/Challenge
 export class ChallengeScene extends BaseGameplayScene implements ChallengeBehaviorContext, GridEditorContext {
   protected challengeId!: string;
   protected isDevMode!: boolean;
+  /** Seed the player picked on the menu; undefined means a fresh random seed per run. */
+  private requestedSeed: number | undefined;
+  /** Save slot to restore on setup (set when loading a saved game from the menu). */
+  private saveSlot: string | undefined;
 
   private initialBudget: number = 0;
   private challengeSystem: ChallengeSystem | null = null;
@@ -39,6 +48,8 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     const data = (this.scene.settings.data || {}) as Record<string, unknown>;
     this.challengeId = (data.challengeId as string) ?? 'learning-lot';
     this.isDevMode = data.isDevMode === true;
+    this.requestedSeed = typeof data.seed === 'number' ? data.seed : undefined;
+    this.saveSlot = typeof data.saveSlot === 'string' ? data.saveSlot : undefined;
     super.create();
   }
 
@@ -61,102 +72,30 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     const challenge = getChallengeById(this.challengeId);
     const budget = challenge?.budget ?? 10000;
     this.initialBudget = budget;
-    GameSystems.resetForChallenge(budget, this.gridManager, this.gridWidth, this.gridHeight, challenge?.startTimeMinutes);
-
-    if (challenge && !this.isDevMode) {
-      this.challengeSystem = new ChallengeSystem(challenge);
-      const fallbackSpawnMs = challenge.vehicleSpawnIntervalMs ?? 3000;
-      this.vehicleSystem.setSpawnIntervalMs(fallbackSpawnMs);
-      if (challenge.vehicleSpawnSchedule?.length) {
-        this.vehicleSystem.setGetSpawnIntervalMs(() => {
-          const totalMinutes = TimeSystem.getInstance().getTotalMinutes();
-          return getSpawnIntervalMsForSchedule(totalMinutes, challenge.vehicleSpawnSchedule!, fallbackSpawnMs);
-        });
-      }
-      const fallbackParkerChance = challenge.potentialParkerChance ?? 0.5;
-      this.vehicleSystem.setPotentialParkerChance(fallbackParkerChance);
-      if (challenge.potentialParkerSchedule?.length) {
-        this.vehicleSystem.setGetPotentialParkerChance(() => {
-          const totalMinutes = TimeSystem.getInstance().getTotalMinutes();
-          return getPotentialParkerChanceForSchedule(totalMinutes, challenge.potentialParkerSchedule!, fallbackParkerChance);
-        });
-      }
-      if (challenge.pedestrianRespawnBands?.length) {
-        this.pedestrianSystem.setRespawnBands(challenge.pedestrianRespawnBands);
-      } else if (challenge.pedestrianRespawnMinMs != null && challenge.pedestrianRespawnMaxMs != null) {
-        this.pedestrianSystem.setRespawnDurationMs(challenge.pedestrianRespawnMinMs, challenge.pedestrianRespawnMaxMs);
-      }
-      if (challenge.driverExitsVehicleProbability != null) {
-        this.vehicleSystem.setDriverExitsVehicleProbability(challenge.driverExitsVehicleProbability);
-      }
-      if (challenge.parkingDurationMinMs != null && challenge.parkingDurationMaxMs != null) {
-        this.vehicleSystem.setParkingDurationMs(challenge.parkingDurationMinMs, challenge.parkingDurationMaxMs);
-      }
-      if (challenge.unfulfilledToiletEndsStay) {
-        this.pedestrianSystem.setUnfulfilledToiletEndsStay(true);
-      }
-      if (challenge.suppressNoSpotPenalty) {
-        this.vehicleSystem.setSuppressNoSpotPenalty(true);
-      }
-      if (challenge.movieGoerMode) {
-        this.vehicleSystem.setMovieGoerMode(true);
-        if (challenge.showtimeEnds && challenge.showtimeEnds.length > 0) {
-          const ends = [...challenge.showtimeEnds].sort((a, b) => a - b);
-          const variance = challenge.showtimeLeaveVarianceMs ?? 2000;
-          this.vehicleSystem.setMovieGoerParkingDurationFn(() => {
-            const t = TimeSystem.getInstance().getTotalMinutes();
-            // Pick the next upcoming show end; falls back to the earliest end the following day
-            // (t + 1440) so late-night parkers (rare w/ current schedules) still get a sane duration.
-            let nextEndMinutes = ends.find(e => e > t);
-            if (nextEndMinutes === undefined) nextEndMinutes = ends[0] + 1440;
-            const gameMinutesUntilEnd = nextEndMinutes - t;
-            // 1 game min = 1 real sec, so ms = gameMinutes * 1000.
-            const baseMs = Math.max(0, gameMinutesUntilEnd) * 1000;
-            return baseMs + Math.random() * variance;
-          });
-        }
-      }
-    } else {
-      this.challengeSystem = null;
-    }
+    GameSystems.resetForChallenge(budget, this.gridManager, this.gridWidth, this.gridHeight, challenge?.startTimeMinutes, this.requestedSeed);
 
-    GameSystems.messages.initializePanel();
+    this.challengeSystem = challenge && !this.isDevMode ? new ChallengeSystem(challenge) : null;
+    ChallengeSetup.apply(challenge, this.vehicleSystem, this.pedestrianSystem, this.isDevMode);
 
-    if (challenge?.needGenerationProbability != null) {
-      this.pedestrianSystem.setNeedGenerationProbability(challenge.needGenerationProbability);
-    } else {
-      this.pedestrianSystem.setNeedGenerationProbability(0.5);
-    }
-    if (challenge?.needTypeDistribution != null) {
-      this.pedestrianSystem.setNeedTypeDistribution(challenge.needTypeDistribution);
-    } else {
-      this.pedestrianSystem.setNeedTypeDistribution({ trash: 0.25, thirst: 0.25, toilet: 0.5 });
-    }
-
-    const parkingTimer = ParkingTimerSystem.getInstance();
-    const meterThreshold = challenge?.meterHighParkingRateThreshold ?? challenge?.highParkingRateThreshold ?? 5;
-    const meterPenalty = challenge?.meterHighParkingRatePenaltyPerDollar ?? challenge?.highParkingRatePenaltyPerDollar ?? 10;
-    const boothThreshold = challenge?.boothHighParkingRateThreshold ?? challenge?.highParkingRateThreshold ?? 5;
-    const boothPenalty = challenge?.boothHighParkingRatePenaltyPerDollar ?? challenge?.highParkingRatePenaltyPerDollar ?? 10;
-    const meterRefusal = challenge?.meterRefusalToParkThreshold ?? 10;
-    const boothRefusal = challenge?.boothRefusalToParkThreshold ?? 10;
-    if (challenge) {
-      parkingTimer.setMeterBillingIntervalMinutes(challenge.meterBillingIntervalMinutes ?? 15);
-      parkingTimer.setBoothBillingIntervalMinutes(challenge.boothBillingIntervalMinutes ?? 15);
-      parkingTimer.setMeterHighRatePenalty(meterThreshold, meterPenalty);
-      parkingTimer.setBoothHighRatePenalty(boothThreshold, boothPenalty);
-      setParkingRateConfig({
-        meterThreshold,
-        boothThreshold,
-        meterPenalty,
-        boothPenalty,
-        meterRefusalThreshold: meterRefusal,
-        boothRefusalThreshold: boothRefusal,
-        penaltyMessage: challenge.highParkingRatePenaltyMessage ?? "I can't believe they're charging this much to park! 😤",
-        refusalMessage: challenge.refusalToParkMessage ?? "There's no way I'm paying that much to park. 😤",
-        meterRefusalMessage: challenge.meterRefusalToParkMessage ?? null,
-        boothRefusalMessage: challenge.boothRefusalToParkMessage ?? null,
-      });
+    GameSystems.messages.initializePanel();
+    initializeFinancePanel();
+    initializeRatingHistoryPanel();
+    initializeRatingReasonsPanel();
+    initializeEntityInspectorPanel();
+
+    // Restore a saved game on top of the fresh challenge setup (grid, entities, clock, money, ratings)
+    let restoredFromSave = false;
+    if (this.saveSlot) {
+      const saveData = readSaveSlot(this.saveSlot);
+      if (saveData && saveData.challengeId === this.challengeId) {
+        restoredFromSave = restoreSaveGame(saveData, this.gridManager, this.vehicleSystem, this.pedestrianSystem);
+      }
+      if (restoredFromSave) {
+        GameSystems.messages.addSystemMessage(`Loaded "${this.saveSlot}"`, '💾');
+      } else {
+        console.warn('Failed to load save slot', this.saveSlot);
+      }
+      this.redrawGrid();
     }
 
     this.populateWinConditionsUI(challenge?.winConditions);
@@ -171,8 +110,9 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
       this.tools.setDevOnlyToolsVisibility(false);
     }
 
-    // Load initial grid from URL when challenge defines one (e.g. Learning Lot)
-    if (challenge?.initialGridPath) {
+    // Load initial grid from URL when challenge defines one (e.g. Learning Lot).
+    // A restored save already has its grid, and skips the Learning Lot tutorial.
+    if (!restoredFromSave && challenge?.initialGridPath) {
       this.initialGridAbort?.abort();
       this.initialGridAbort = new AbortController();
       const expectedChallengeId = this.challengeId;
@@ -181,7 +121,7 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
         .then((content) => {
           if (!this.sceneActive || this.challengeId !== expectedChallengeId) return;
           try {
-            const data = JSON.parse(content) as { vehicleSpawnerPairs?: Array<[number, number, number, number]> };
+            const data = JSON.parse(content) as { vehicleSpawnerPairs?: Array<[number, number, number, number]> } & Partial<LotPricing>;
             const success = this.gridManager.deserializeGrid(content);
             if (success) {
               SpawnerManager.rebuildSpawnerPairsFromGrid(
@@ -192,6 +132,7 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
                 this.pedestrianSystem,
                 data.vehicleSpawnerPairs
               );
+              GameSystems.parkingTimer.loadLotPricing(data, challenge);
             this.redrawGrid();
           }
           if (this.challengeId === 'learning-lot' && !this.isDevMode) {
@@ -206,7 +147,7 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
         if (err instanceof DOMException && err.name === 'AbortError') return;
         console.warn('Failed to load initial grid from', challenge.initialGridPath);
       });
-    } else if (this.challengeId === 'learning-lot' && !this.isDevMode) {
+    } else if (!restoredFromSave && this.challengeId === 'learning-lot' && !this.isDevMode) {
       this.time.delayedCall(400, () => {
         if (!this.sceneActive || this.challengeId !== 'learning-lot') return;
         this.challengeBehavior = getChallengeBehavior(this.challengeId, this);
@@ -223,6 +164,37 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
       },
       { signal: this.backMenuUiAbort.signal }
     );
+    document.getElementById('save-game-button')?.addEventListener(
+      'click',
+      () => this.saveGame(),
+      { signal: this.backMenuUiAbort.signal }
+    );
+  }
+
+  /**
+   * Prompt for a slot name and save the whole run to it (overwrites a slot with the same name)
+   */
+  private saveGame(): void {
+    if (this.gameOverState !== 'playing') return;
+    const displayedDay = GameSystems.time.getCurrentDay() + 1;
+    const challengeName = getChallengeById(this.challengeId)?.name ?? this.challengeId;
+    const slotName = window.prompt('Save game as:', `${challengeName} - Day ${displayedDay}`)?.trim();
+    if (!slotName) return;
+    const data = captureSaveGame(
+      slotName.slice(0, 40),
+      this.challengeId,
+      this.isDevMode,
+      this.gridManager,
+      this.gridWidth,
+      this.gridHeight,
+      this.vehicleSystem,
+      this.pedestrianSystem
+    );
+    if (writeSaveSlot(data)) {
+      GameSystems.messages.addSystemMessage(`Game saved to "${data.slotName}"`, '💾');
+    } else {
+      alert('Could not save the game (browser storage is full or unavailable).');
+    }
   }
 
   update(time: number, delta: number): void {
@@ -239,6 +211,12 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
       super.update(time, delta);
       return;
     }
+    if (GameSystems.loans.isBankrupt()) {
+      this.gameOverState = 'lost';
+      this.showBankruptOverlay();
+      super.update(time, delta);
+      return;
+    }
     const money = GameSystems.economy.getMoney();
     if (money < 0) {
       this.gameOverState = 'lost';
@@ -269,34 +247,15 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     }
   }
 
-  private gatherChallengeMetrics(): { profit?: number; rating?: number; currentDay?: number; parkingSpotCount?: number; ploppableCountByType?: Record<string, number> } {
-    const profit = GameSystems.economy.getMoney() - this.initialBudget;
-    const components = GameSystems.rating.getComponentRatings(this.gridManager, this.gridWidth, this.gridHeight);
-    const rating = Math.floor(components.total);
-    const currentDay = GameSystems.time.getCurrentDay();
-    const parkingSpots = this.getAllParkingSpots();
-    const ploppableCountByType: Record<string, number> = {};
-    for (let x = 0; x < this.gridWidth; x++) {
-      for (let y = 0; y < this.gridHeight; y++) {
-        const cellData = this.gridManager.getCellData(x, y);
-        const p = cellData?.ploppable;
-        if (p && p.x === x && p.y === y) {
-          ploppableCountByType[p.type] = (ploppableCountByType[p.type] ?? 0) + 1;
-          if (p.addOns) {
-            for (const addOn of p.addOns) {
-              ploppableCountByType[addOn] = (ploppableCountByType[addOn] ?? 0) + 1;
-            }
-          }
-        }
-      }
-    }
-    return {
-      profit,
-      rating,
-      currentDay,
-      parkingSpotCount: parkingSpots.length,
-      ploppableCountByType,
-    };
+  protected updateUI(): void {
+    super.updateUI();
+    updateFinancePanel();
+    updateRatingHistoryPanel();
+    updateRatingReasonsPanel(this.gridManager, this.gridWidth, this.gridHeight);
+  }
+
+  private gatherChallengeMetrics(): ChallengeMetrics {
+    return ChallengeSystem.gatherMetrics(this.gridManager, this.gridWidth, this.gridHeight, this.initialBudget);
   }
 
   private populateWinConditionsUI(winConditions?: Array<{ description: string }>): void {
@@ -367,6 +326,12 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     ChallengeOverlays.showLoseOverlay(container, () => this.goToMenu(), () => this.retry());
   }
 
+  private showBankruptOverlay(): void {
+    const container = document.getElementById('app-container');
+    if (!container) return;
+    ChallengeOverlays.showBankruptOverlay(container, () => this.goToMenu(), () => this.retry());
+  }
+
   private showTimeUpOverlay(): void {
     const container = document.getElementById('app-container');
     if (!container) return;
@@ -382,7 +347,7 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     const challenge = getChallengeById(this.challengeId);
     const gridWidth = challenge?.lotSize?.width ?? 10;
     const gridHeight = challenge?.lotSize?.height ?? 10;
-    this.scene.start('ChallengeScene', { challengeId: this.challengeId, gridWidth, gridHeight });
+    this.scene.start('ChallengeScene', { challengeId: this.challengeId, gridWidth, gridHeight, seed: this.requestedSeed });
   }
 
   private submitAndGoToLeaderboard(): void {
@@ -462,6 +427,10 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     return this.isDevMode;
   }
 
+  getChallenge(): Challenge | undefined {
+    return getChallengeById(this.challengeId);
+  }
+
   getCamera(): Phaser.Cameras.Scene2D.Camera {
     return this.cameras.main;
   }
@@ -479,12 +448,13 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
   }
 
   /**
-   * Override render to add appeal/safety visualization overlay
+   * Override render to add appeal/safety visualization overlay and the inspected entity's highlight
    */
   protected render(): void {
     super.render();
     if (this.tools) {
       this.tools.renderVisualization();
+      this.tools.renderInspector();
     }
   }
 
@@ -516,6 +486,7 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     this.railGraphics.clear();
     this.vehicleGraphics.clear();
     this.pedestrianGraphics.clear();
+    this.maintenanceGraphics.clear();
     this.highlightGraphics.clear();
     this.clearLabels();
     
@@ -538,6 +509,7 @@ export class ChallengeScene extends BaseGameplayScene implements ChallengeBehavi
     this.railGraphics.setVisible(true);
     this.vehicleGraphics.setVisible(true);
     this.pedestrianGraphics.setVisible(true);
+    this.maintenanceGraphics.setVisible(true);
     this.highlightGraphics.setVisible(true);
     
     // Redraw everything (this calls render() which draws all graphics)
@@ -5,8 +5,8 @@
 
 import Phaser from 'phaser';
 import { TILE_WIDTH, TILE_HEIGHT } from '@/config/game.config';
-import { getIsometricTilePoints } from '@/utils/isometric';
-import { Ploppable, COLOR_TO_SURFACE } from '@/types';
+import { getIsometricTilePoints, isoToScreen } from '@/utils/isometric';
+import { Challenge, Ploppable, COLOR_TO_SURFACE } from '@/types';
 import { GridManager } from '@/core/GridManager';
 import { GridInteractionHandler } from '@/systems/GridInteractionHandler';
 import { GridRenderer } from '@/systems/GridRenderer';
@@ -14,13 +14,19 @@ import { PloppableManager } from '@/systems/PloppableManager';
 import { PLOPPABLE_SPRITES, PLOPPABLE_SPRITE_CONFIG } from '@/renderers/EntityRenderer';
 import { SpawnerManager } from '@/managers/SpawnerManager';
 import { SafetySystem } from '@/systems/SafetySystem';
-import { ParkingTimerSystem } from '@/systems/ParkingTimerSystem';
+import { PassabilitySystem } from '@/systems/PassabilitySystem';
+import { ParkingTimerSystem, type LotPricing } from '@/systems/ParkingTimerSystem';
 import { GameSystems } from '@/core/GameSystems';
-import { getPloppableCost, DEMOLISH_REFUND_FRACTION } from '@/config/ploppableCosts.config';
+import { getPloppableCost, DEMOLISH_REFUND_FRACTION, LITTER_CLEANUP_COST, DAILY_SERVICE_CONTRACT_FEE } from '@/config/ploppableCosts.config';
+import { getPloppableDefinition, getToolboxPloppables, PLOPPABLE_CATEGORIES } from '@/config/ploppables.config';
 import { getSurfaceCost } from '@/config/surfaceCosts.config';
 import { getLineCost } from '@/config/lineCosts.config';
 import type { VehicleSystem } from '@/systems/VehicleSystem';
 import type { PedestrianSystem } from '@/systems/PedestrianSystem';
+import type { LedgerCategory, LedgerDetails } from '@/systems/EconomySystem';
+import { EditorHistory, GridEditRecorder } from '@/scenes/EditorHistory';
+import { renderRateScheduleEditor, renderBillingPolicyEditor } from '@/scenes/RateSchedulePanel';
+import { updateEntityInspectorPanel, type InspectedEntity } from '@/scenes/EntityInspectorPanel';
 
 export interface GridEditorContext {
   getGridManager(): GridManager;
@@ -33,6 +39,7 @@ export interface GridEditorContext {
   getVehicleSystem(): VehicleSystem;
   getPedestrianSystem(): PedestrianSystem;
   getIsDevMode(): boolean;
+  getChallenge(): Challenge | undefined;
   getCamera(): Phaser.Cameras.Scene2D.Camera;
   getInput(): Phaser.Input.InputPlugin;
   getTime(): Phaser.Time.Clock;
@@ -42,6 +49,16 @@ export interface GridEditorContext {
   getLockedParkingSpotOrientation?(): number | null;
 }
 
+/** Screen pixels from an entity within which an Inspect click picks it */
+const INSPECT_PICK_RADIUS = 24;
+
+/** Entity picked with the Inspect tool; a pedestrian keeps its vehicle id so inspection can fall back to the car */
+interface InspectSelection {
+  kind: 'vehicle' | 'pedestrian';
+  id: string;
+  vehicleId?: string;
+}
+
 export class GridEditorController {
   private ctx: GridEditorContext;
 
@@ -67,6 +84,11 @@ export class GridEditorController {
   private lastPaintedEdgeKey: string | null = null;
   private isVehicleSpawnerMode = false;
   private isDemolishMode = false;
+  private isServiceMode = false;
+  private isInspectMode = false;
+  private inspectedEntity: InspectSelection | null = null;
+  private isFollowingInspected = false;
+  private inspectorGraphics: Phaser.GameObjects.Graphics | null = null;
   private pendingSpawnerCell: { x: number; y: number } | null = null;
   private showAppealVisualization = false;
   private showSafetyVisualization = false;
@@ -74,6 +96,10 @@ export class GridEditorController {
   private ghostSprite: Phaser.GameObjects.GameObject | null = null;
   /** DOM listeners for tools UI; aborted in dispose() so scene restarts do not stack handlers. */
   private domAbort: AbortController | null = null;
+  /** Undo/redo stack; one entry per stroke (pointer down → up). */
+  private history = new EditorHistory();
+  /** Stroke being recorded; stays open across clicks while a vehicle spawner pair is half placed. */
+  private pendingEdit: GridEditRecorder | null = null;
 
   constructor(context: GridEditorContext) {
     this.ctx = context;
@@ -87,6 +113,8 @@ export class GridEditorController {
     this.setupRateInputHandler(domSignal);
     this.setupColorButtons(domSignal);
     this.setupDemolishButton(domSignal);
+    this.setupServiceButtons(domSignal);
+    this.setupInspectButton(domSignal);
     this.setupVehicleSpawnerButton(domSignal);
     this.setupPedestrianSpawnerButton(domSignal);
     this.setupPermanentButton(domSignal);
@@ -113,12 +141,18 @@ export class GridEditorController {
     if (kb) {
       kb.off('keydown-Q', this.onKeyQ);
       kb.off('keydown-E', this.onKeyE);
+      kb.off('keydown-Z', this.onKeyZ);
     }
     this.clearHighlight();
     if (this.visualizationGraphics) {
       this.visualizationGraphics.destroy();
       this.visualizationGraphics = null;
     }
+    this.clearInspection();
+    if (this.inspectorGraphics) {
+      this.inspectorGraphics.destroy();
+      this.inspectorGraphics = null;
+    }
     this.destroyGhostSprite();
   }
 
@@ -178,6 +212,57 @@ export class GridEditorController {
     }
   }
 
+  /**
+   * Draw the inspected entity's highlight and remaining path, follow it with the camera if asked,
+   * and refresh the inspector card. Drops the selection once the entity has left the lot.
+   */
+  renderInspector(): void {
+    const inspected = this.resolveInspectedEntity();
+    if (!inspected) {
+      this.inspectedEntity = null;
+      this.isFollowingInspected = false;
+    }
+    updateEntityInspectorPanel(inspected, this.isFollowingInspected, this.ctx.getGridManager());
+    if (!inspected) {
+      if (this.inspectorGraphics) {
+        this.inspectorGraphics.clear();
+        this.inspectorGraphics.setVisible(false);
+      }
+      return;
+    }
+
+    const entity = inspected.kind === 'vehicle' ? inspected.vehicle : inspected.pedestrian;
+    const gridOffsetX = this.ctx.getGridOffsetX();
+    const gridOffsetY = this.ctx.getGridOffsetY();
+    const x = entity.screenX + gridOffsetX;
+    // Pedestrians are positioned at their feet; ring their body instead
+    const y = entity.screenY + gridOffsetY - (inspected.kind === 'pedestrian' ? TILE_HEIGHT / 4 : 0);
+    const graphics = this.getInspectorGraphics();
+    graphics.clear();
+    graphics.setVisible(true);
+
+    const remainingPath = entity.path.slice(entity.currentPathIndex);
+    if (remainingPath.length > 0) {
+      graphics.lineStyle(2, 0x00e5ff, 0.8);
+      graphics.beginPath();
+      graphics.moveTo(entity.screenX + gridOffsetX, entity.screenY + gridOffsetY);
+      for (const cell of remainingPath) {
+        const point = isoToScreen(cell.x, cell.y);
+        graphics.lineTo(point.x + gridOffsetX, point.y + gridOffsetY);
+      }
+      graphics.strokePath();
+      const end = isoToScreen(remainingPath[remainingPath.length - 1].x, remainingPath[remainingPath.length - 1].y);
+      graphics.fillStyle(0x00e5ff, 0.8);
+      graphics.fillCircle(end.x + gridOffsetX, end.y + gridOffsetY, 4);
+    }
+    graphics.lineStyle(3, 0xffeb3b, 1);
+    graphics.strokeCircle(x, y, inspected.kind === 'vehicle' ? TILE_HEIGHT * 0.6 : TILE_HEIGHT * 0.4);
+
+    if (this.isFollowingInspected) {
+      this.ctx.getCamera().centerOn(x, y);
+    }
+  }
+
   getShowAppealVisualization(): boolean {
     return this.showAppealVisualization;
   }
@@ -196,6 +281,71 @@ export class GridEditorController {
     return this.visualizationGraphics;
   }
 
+  private getInspectorGraphics(): Phaser.GameObjects.Graphics {
+    if (!this.inspectorGraphics) {
+      this.inspectorGraphics = this.ctx.getAdd().graphics();
+      this.inspectorGraphics.setDepth(10);
+      this.inspectorGraphics.setVisible(false);
+    }
+    return this.inspectorGraphics;
+  }
+
+  /**
+   * Inspect the car or visible pedestrian nearest the pointer, or stop inspecting if none is close
+   */
+  private inspectAtPointer(pointer: Phaser.Input.Pointer): void {
+    const world = this.ctx.getCamera().getWorldPoint(pointer.x, pointer.y);
+    const gridOffsetX = this.ctx.getGridOffsetX();
+    const gridOffsetY = this.ctx.getGridOffsetY();
+    let nearest: InspectSelection | null = null;
+    let nearestDistance = INSPECT_PICK_RADIUS;
+    for (const vehicle of this.ctx.getVehicleSystem().getVehicles()) {
+      const distance = Phaser.Math.Distance.Between(world.x, world.y, vehicle.screenX + gridOffsetX, vehicle.screenY + gridOffsetY);
+      if (distance < nearestDistance) {
+        nearest = { kind: 'vehicle', id: vehicle.id };
+        nearestDistance = distance;
+      }
+    }
+    for (const pedestrian of this.ctx.getPedestrianSystem().getActivePedestrians()) {
+      const distance = Phaser.Math.Distance.Between(world.x, world.y, pedestrian.screenX + gridOffsetX, pedestrian.screenY + gridOffsetY - TILE_HEIGHT / 4);
+      if (distance < nearestDistance) {
+        nearest = { kind: 'pedestrian', id: pedestrian.id, vehicleId: pedestrian.vehicleId };
+        nearestDistance = distance;
+      }
+    }
+    if (nearest?.id !== this.inspectedEntity?.id) this.isFollowingInspected = false;
+    this.inspectedEntity = nearest;
+  }
+
+  /**
+   * Look up the inspected entity and its other half. A pedestrian who is gone (back in their car)
+   * hands the inspection over to their vehicle.
+   */
+  private resolveInspectedEntity(): InspectedEntity | null {
+    const selection = this.inspectedEntity;
+    if (!selection) return null;
+    const vehicles = this.ctx.getVehicleSystem().getVehicles();
+    const pedestrians = this.ctx.getPedestrianSystem().getPedestrians();
+    if (selection.kind === 'pedestrian') {
+      const pedestrian = pedestrians.find(p => p.id === selection.id);
+      if (pedestrian) {
+        return { kind: 'pedestrian', pedestrian, vehicle: vehicles.find(v => v.id === pedestrian.vehicleId) };
+      }
+      if (!selection.vehicleId) return null;
+      this.inspectedEntity = { kind: 'vehicle', id: selection.vehicleId };
+    }
+    const vehicleId = this.inspectedEntity!.id;
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    if (!vehicle) return null;
+    return { kind: 'vehicle', vehicle, pedestrian: pedestrians.find(p => p.vehicleId === vehicle.id) };
+  }
+
+  private clearInspection(): void {
+    this.inspectedEntity = null;
+    this.isFollowingInspected = false;
+    updateEntityInspectorPanel(null, false, this.ctx.getGridManager());
+  }
+
   private setupCamera(): void {
     const input = this.ctx.getInput();
     input.on('pointerdown', this.onEditorPointerDown);
@@ -207,17 +357,23 @@ export class GridEditorController {
   private readonly onEditorPointerDown = (pointer: Phaser.Input.Pointer): void => {
     const camera = this.ctx.getCamera();
     if (pointer.rightButtonDown()) {
+      // Panning by hand takes the camera back from Follow
+      this.isFollowingInspected = false;
       this.isDragging = true;
       this.dragStartX = pointer.x;
       this.dragStartY = pointer.y;
       this.cameraStartX = camera.scrollX;
       this.cameraStartY = camera.scrollY;
-    } else if (pointer.leftButtonDown() && (this.selectedColor !== null || this.isPermanentMode || this.selectedPloppableType !== null || this.isVehicleSpawnerMode || this.isDemolishMode)) {
+    } else if (pointer.leftButtonDown() && this.isInspectMode) {
+      this.inspectAtPointer(pointer);
+    } else if (pointer.leftButtonDown() && (this.selectedColor !== null || this.isPermanentMode || this.selectedPloppableType !== null || this.isVehicleSpawnerMode || this.isDemolishMode || this.isServiceMode)) {
       this.updateHoverHighlight(pointer);
       this.isPainting = true;
       this.lastPaintedCell = null;
       this.lastPaintedEdgeKey = null;
-      if (this.isLineMode && !this.isDemolishMode && this.hoveredEdge) {
+      // Servicing is a cash transaction outside undo, so it never opens a stroke
+      if (!this.isServiceMode) this.pendingEdit ??= new GridEditRecorder(this.ctx.getGridManager(), this.ctx.getVehicleSystem());
+      if (this.isLineMode && !this.isDemolishMode && !this.isServiceMode && this.hoveredEdge) {
         this.paintCell(this.hoveredEdge.cellX, this.hoveredEdge.cellY);
       } else {
         const cell = this.getCellAtPointer(pointer);
@@ -231,16 +387,53 @@ export class GridEditorController {
     this.isPainting = false;
     this.lastPaintedCell = null;
     this.lastPaintedEdgeKey = null;
+    this.commitEdit();
   };
 
+  /** Close the current stroke and push it onto the undo stack (unless a spawner pair is half placed). */
+  private commitEdit(): void {
+    if (!this.pendingEdit || this.pendingSpawnerCell) return;
+    const command = this.pendingEdit.finish(this.ctx);
+    this.pendingEdit = null;
+    if (command) this.history.push(command);
+  }
+
+  /** Drop an open stroke and put back anything it already changed (e.g. a lone vehicle spawner). */
+  private cancelPendingEdit(): void {
+    if (!this.pendingEdit) return;
+    const command = this.pendingEdit.finish(this.ctx);
+    this.pendingEdit = null;
+    this.pendingSpawnerCell = null;
+    command?.undo();
+  }
+
+  /** Forget all history (the grid was replaced by an import or resize). */
+  private clearHistory(): void {
+    this.history.clear();
+    this.pendingEdit = null;
+    this.pendingSpawnerCell = null;
+  }
+
+  /** Editor spending; recorded on the open stroke so undo refunds exactly this amount. */
+  private spend(amount: number, details: LedgerDetails, category: LedgerCategory = 'construction'): void {
+    GameSystems.economy.spend(amount, category, details);
+    this.pendingEdit?.addCost(amount, category);
+  }
+
+  /** Editor refunds; recorded on the open stroke so undo takes back exactly this amount. */
+  private earn(amount: number, details: LedgerDetails): void {
+    GameSystems.economy.earn(amount, 'construction', details);
+    this.pendingEdit?.addCost(-amount, 'construction');
+  }
+
   private readonly onEditorPointerMove = (pointer: Phaser.Input.Pointer): void => {
     const camera = this.ctx.getCamera();
     if (this.isDragging && pointer.rightButtonDown()) {
       const deltaX = pointer.x - this.dragStartX;
       const deltaY = pointer.y - this.dragStartY;
       camera.setScroll(this.cameraStartX - deltaX, this.cameraStartY - deltaY);
-    } else if (this.isPainting && pointer.leftButtonDown() && (this.selectedColor !== null || this.isPermanentMode || this.selectedPloppableType !== null || this.isVehicleSpawnerMode || this.isDemolishMode)) {
-      if (this.isLineMode && !this.isDemolishMode && this.hoveredEdge) {
+    } else if (this.isPainting && pointer.leftButtonDown() && (this.selectedColor !== null || this.isPermanentMode || this.selectedPloppableType !== null || this.isVehicleSpawnerMode || this.isDemolishMode || this.isServiceMode)) {
+      if (this.isLineMode && !this.isDemolishMode && !this.isServiceMode && this.hoveredEdge) {
         this.paintCell(this.hoveredEdge.cellX, this.hoveredEdge.cellY);
       } else {
         const cell = this.getCellAtPointer(pointer);
@@ -374,6 +567,12 @@ export class GridEditorController {
       g.lineBetween(offsetPoints[1].x, offsetPoints[1].y, offsetPoints[2].x, offsetPoints[2].y);
       g.lineBetween(offsetPoints[2].x, offsetPoints[2].y, offsetPoints[3].x, offsetPoints[3].y);
       g.lineBetween(offsetPoints[3].x, offsetPoints[3].y, offsetPoints[0].x, offsetPoints[0].y);
+    } else if (this.isServiceMode) {
+      g.lineStyle(2, 0x00aaff, 0.8);
+      g.lineBetween(offsetPoints[0].x, offsetPoints[0].y, offsetPoints[1].x, offsetPoints[1].y);
+      g.lineBetween(offsetPoints[1].x, offsetPoints[1].y, offsetPoints[2].x, offsetPoints[2].y);
+      g.lineBetween(offsetPoints[2].x, offsetPoints[2].y, offsetPoints[3].x, offsetPoints[3].y);
+      g.lineBetween(offsetPoints[3].x, offsetPoints[3].y, offsetPoints[0].x, offsetPoints[0].y);
     } else if (this.selectedPloppableType === 'Parking Spot') {
       g.lineStyle(2, 0xffffff, 1);
       const edgesToDraw = [[0, 1, 2], [0, 1, 3], [1, 2, 3], [0, 2, 3]];
@@ -383,11 +582,10 @@ export class GridEditorController {
         g.lineBetween(offsetPoints[edgeIdx].x, offsetPoints[edgeIdx].y, offsetPoints[endIdx].x, offsetPoints[endIdx].y);
       });
     } else if (['Trash Can', 'Vending Machine', 'Dumpster', 'Portable Toilet', 'Bench', 'Crosswalk'].includes(this.selectedPloppableType || '')) {
-      const button = document.querySelector(`.ploppable-button[data-name="${this.selectedPloppableType}"]`);
-      const orientationType = button?.getAttribute('data-orientation-type') || 'B';
-      const sizeAttr = button?.getAttribute('data-size');
-      const size = sizeAttr ? parseInt(sizeAttr, 10) : 1;
-      const noArrow = button?.getAttribute('data-no-arrow') === 'true';
+      const definition = getPloppableDefinition(this.selectedPloppableType || '');
+      const orientationType = definition?.orientationType || 'B';
+      const size = definition?.size ?? 1;
+      const noArrow = definition?.hideArrow ?? false;
       const centerX = (offsetPoints[0].x + offsetPoints[2].x) / 2;
       const centerY = (offsetPoints[0].y + offsetPoints[2].y) / 2;
       if (size === 2) {
@@ -701,6 +899,13 @@ export class GridEditorController {
       return;
     }
 
+    if (this.isServiceMode) {
+      if (this.lastPaintedCell && this.lastPaintedCell.x === gridX && this.lastPaintedCell.y === gridY) return;
+      this.serviceAtCell(gridX, gridY);
+      this.lastPaintedCell = { x: gridX, y: gridY };
+      return;
+    }
+
     if (this.isPermanentMode) {
       if (!isDevMode) return;
       if (this.lastPaintedCell && this.lastPaintedCell.x === gridX && this.lastPaintedCell.y === gridY) return;
@@ -753,9 +958,8 @@ export class GridEditorController {
           return;
         }
       }
-      const button = document.querySelector(`.ploppable-button[data-name="${this.selectedPloppableType}"]`);
-      const orientationType = button?.getAttribute('data-orientation-type') as 'A' | 'B' | undefined;
-      const passable = button?.getAttribute('data-passable') === 'true';
+      const orientationType = getPloppableDefinition(this.selectedPloppableType)?.orientationType ?? undefined;
+      const passable = PassabilitySystem.getPassableValueForType(this.selectedPloppableType);
 
       if (this.selectedPloppableType === 'Security Camera') {
         const cellData = gridManager.getCellData(gridX, gridY);
@@ -767,7 +971,7 @@ export class GridEditorController {
             GameSystems.messages.addSystemMessage(`Can't afford Security Camera ($${cost}).`, '💰');
             return;
           }
-          GameSystems.economy.spend(cost);
+          this.spend(cost, { sourceId: streetLight.id, label: 'Security Camera' });
           streetLight.addOns = streetLight.addOns ?? [];
           streetLight.addOns.push('Security Camera');
           const cameraAoE: Ploppable = { id: `cam-aoe-${gridX}-${gridY}`, type: 'Security Camera', x: gridX, y: gridY, cost: 0 };
@@ -787,19 +991,20 @@ export class GridEditorController {
             GameSystems.messages.addSystemMessage(`Can't afford Parking Meter ($${cost}).`, '💰');
             return;
           }
-          GameSystems.economy.spend(cost);
+          const meterId = `Parking Meter-${gridX}-${gridY}-${Date.now()}`;
+          this.spend(cost, { sourceId: meterId, label: 'Parking Meter' });
           const spotOrientation = parkingSpot.orientation || 0;
           const oppositeOrientationMap = [2, 1, 3, 0];
           const meterOrientation = oppositeOrientationMap[spotOrientation];
           const parkingMeter: Ploppable = {
-            id: `Parking Meter-${gridX}-${gridY}-${Date.now()}`,
+            id: meterId,
             type: 'Parking Meter',
             x: gridX,
             y: gridY,
             cost,
             orientation: meterOrientation,
             orientationType: 'A',
-            passable: passable ?? true,
+            passable,
             parkingSpotOrientation: spotOrientation,
             reserved: parkingSpot.reserved,
           };
@@ -815,24 +1020,29 @@ export class GridEditorController {
         GameSystems.messages.addSystemMessage(`Can't afford ${this.selectedPloppableType} ($${cost}).`, '💰');
         return;
       }
-      GameSystems.economy.spend(cost);
+      const ploppableId = `${this.selectedPloppableType}-${gridX}-${gridY}-${Date.now()}`;
+      const ploppableDetails: LedgerDetails = {
+        sourceId: ploppableId,
+        label: getPloppableDefinition(this.selectedPloppableType)?.displayName || this.selectedPloppableType,
+      };
+      this.spend(cost, ploppableDetails);
       const ploppable: Ploppable = {
-        id: `${this.selectedPloppableType}-${gridX}-${gridY}-${Date.now()}`,
+        id: ploppableId,
         type: this.selectedPloppableType,
         x: gridX,
         y: gridY,
         cost,
         orientation: this.ploppableOrientation,
         orientationType: orientationType,
-        passable: passable ?? false,
+        passable,
       };
       if (this.selectedPloppableType === 'Parking Booth') ploppable.subType = 'BOOTH';
       if (this.selectedPloppableType === 'Tree' || this.selectedPloppableType === 'Shrub' || this.selectedPloppableType === 'Flower Patch') {
-        ploppable.spriteFlip = Math.random() < 0.5;
+        ploppable.spriteFlip = GameSystems.random.next() < 0.5;
       }
       const placed = PloppableManager.placePloppable(gridX, gridY, ploppable, gridManager, gridWidth, gridHeight);
       if (!placed) {
-        GameSystems.economy.earn(cost);
+        this.earn(cost, ploppableDetails);
         return;
       }
       if (this.selectedPloppableType === 'Crosswalk') {
@@ -865,7 +1075,7 @@ export class GridEditorController {
             GameSystems.messages.addSystemMessage(`Can't afford ${this.selectedColorName || 'line'} ($${lineCost}/edge).`, '💰');
             return;
           }
-          GameSystems.economy.spend(lineCost);
+          this.spend(lineCost, { label: this.selectedColorName || 'Line' });
         }
         if (existingKey && existingKey !== currentKey) gridManager.deleteBorderSegment(existingKey);
         gridManager.setBorderSegment(currentKey, this.selectedColor);
@@ -886,7 +1096,7 @@ export class GridEditorController {
           GameSystems.messages.addSystemMessage(`Can't afford ${surfaceType} ($${cost}/tile).`, '💰');
           return;
         }
-        GameSystems.economy.spend(cost);
+        this.spend(cost, { label: this.selectedColorName || surfaceType });
       }
       gridManager.setCellData(gridX, gridY, { ...(cellData || {}), color: this.selectedColor, surfaceType });
       this.ctx.redrawGrid();
@@ -894,6 +1104,23 @@ export class GridEditorController {
     }
   }
 
+  /**
+   * Service tool: pay to empty the cell's ploppable and pick up its litter
+   */
+  private serviceAtCell(gridX: number, gridY: number): void {
+    const gridManager = this.ctx.getGridManager();
+    const cellData = gridManager.getCellData(gridX, gridY);
+    const cost = GameSystems.maintenance.getServiceCost(cellData);
+    if (cost === 0) return;
+    if (!GameSystems.economy.canAfford(cost)) {
+      GameSystems.messages.addSystemMessage(`Can't afford servicing ($${cost}).`, '💰');
+      return;
+    }
+    GameSystems.economy.spend(cost, 'servicing', GameSystems.maintenance.getServiceLedgerDetails(cellData));
+    GameSystems.maintenance.serviceCell(gridManager, gridX, gridY, this.ctx.getGridWidth(), this.ctx.getGridHeight());
+    this.ctx.redrawGrid();
+  }
+
   private demolishAtCell(gridX: number, gridY: number): void {
     const gridManager = this.ctx.getGridManager();
     const gridWidth = this.ctx.getGridWidth();
@@ -911,7 +1138,7 @@ export class GridEditorController {
       if (cellData.ploppable.addOns?.includes('Security Camera')) {
         const camCost = getPloppableCost('Security Camera');
         const refund = Math.floor(camCost * DEMOLISH_REFUND_FRACTION);
-        if (refund > 0) GameSystems.economy.earn(refund);
+        if (refund > 0) this.earn(refund, { sourceId: cellData.ploppable.id, label: 'Security Camera' });
         cellData.ploppable.addOns = cellData.ploppable.addOns.filter(a => a !== 'Security Camera');
         if (cellData.ploppable.addOns.length === 0) delete cellData.ploppable.addOns;
         const cameraAoE: Ploppable = { id: `cam-aoe-${gridX}-${gridY}`, type: 'Security Camera', x: gridX, y: gridY, cost: 0 };
@@ -922,7 +1149,7 @@ export class GridEditorController {
       const ploppableType = cellData.ploppable.type;
       const removedCost = cellData.ploppable.cost ?? getPloppableCost(ploppableType);
       const refund = Math.floor(removedCost * DEMOLISH_REFUND_FRACTION);
-      if (refund > 0) GameSystems.economy.earn(refund);
+      if (refund > 0) this.earn(refund, { sourceId: cellData.ploppable.id, label: getPloppableDefinition(ploppableType)?.displayName || ploppableType });
       if (ploppableType === 'Pedestrian Spawner') {
         SpawnerManager.removePedestrianSpawner(gridX, gridY, pedestrianSystem);
       }
@@ -967,8 +1194,32 @@ export class GridEditorController {
     });
   }
 
+  /** Fill the Ploppables section with a button per registry entry, grouped by toolbox category */
+  private renderPloppableButtons(): void {
+    const container = document.getElementById('ploppables-container');
+    if (!container) return;
+    container.replaceChildren();
+    for (const category of PLOPPABLE_CATEGORIES) {
+      const definitions = getToolboxPloppables(category);
+      if (definitions.length === 0) continue;
+      const title = document.createElement('div');
+      title.className = 'ploppable-category-title';
+      title.textContent = category;
+      container.appendChild(title);
+      for (const definition of definitions) {
+        const button = document.createElement('button');
+        button.className = 'ploppable-button';
+        button.dataset.name = definition.type;
+        button.title = definition.displayName || definition.type;
+        button.textContent = definition.emoji;
+        container.appendChild(button);
+      }
+    }
+  }
+
   private setupColorButtons(signal: AbortSignal): void {
     this.scheduleDomSetup(signal, () => {
+      this.renderPloppableButtons();
       const colorButtons = document.querySelectorAll('.color-button');
       const ploppableButtons = document.querySelectorAll('.ploppable-button');
       const clearAndUpdate = () => {
@@ -1011,7 +1262,11 @@ export class GridEditorController {
             }
           }
           this.isDemolishMode = false;
+          this.isServiceMode = false;
+          this.isInspectMode = false;
           document.getElementById('demolish-button')?.classList.remove('selected');
+          document.getElementById('service-button')?.classList.remove('selected');
+          document.getElementById('inspect-button')?.classList.remove('selected');
           this.clearVisualizationModes();
           this.clearHighlight();
           this.updateSelectionInfo();
@@ -1038,15 +1293,17 @@ export class GridEditorController {
           document.getElementById('vehicle-spawner-button')?.classList.remove('selected');
           document.getElementById('pedestrian-spawner-button')?.classList.remove('selected');
           this.isDemolishMode = false;
+          this.isServiceMode = false;
+          this.isInspectMode = false;
           document.getElementById('demolish-button')?.classList.remove('selected');
+          document.getElementById('service-button')?.classList.remove('selected');
+          document.getElementById('inspect-button')?.classList.remove('selected');
           this.selectedPloppableType = ploppableName;
           const lockedParkingOrient = this.ctx.getLockedParkingSpotOrientation?.() ?? null;
           this.ploppableOrientation =
             ploppableName === 'Parking Spot' && lockedParkingOrient !== null
               ? lockedParkingOrient
-              : (ploppableName === 'Vending Machine' || ploppableName === 'Dumpster' || ploppableName === 'Portable Toilet' || ploppableName === 'Speed Bump')
-                ? 2
-                : 0;
+              : getPloppableDefinition(ploppableName || '')?.orientations[0] ?? 0;
           if (this.isPermanentMode) {
             this.isPermanentMode = false;
             const permanentButton = document.getElementById('permanent-button');
@@ -1106,24 +1363,40 @@ export class GridEditorController {
         selectionDescription.textContent = 'Click on any ploppable to to remove it. No refunds.';
         selectionInfo.style.display = 'block';
       }
+    } else if (this.isServiceMode) {
+      setPrice('');
+      if (rateInputContainer) rateInputContainer.style.display = 'none';
+      if (selectionInfo && colorPreview && selectionName && selectionDescription && selectionInstructions) {
+        colorPreview.style.display = 'none';
+        selectionInstructions.style.display = 'none';
+        selectionName.textContent = 'Service Tool';
+        selectionDescription.textContent = `Click a Trash Can, Dumpster or Lotty Potty to empty it, or a littered cell to pick up the litter ($${LITTER_CLEANUP_COST} a piece).`;
+        selectionInfo.style.display = 'block';
+      }
+    } else if (this.isInspectMode) {
+      setPrice('');
+      if (rateInputContainer) rateInputContainer.style.display = 'none';
+      if (selectionInfo && colorPreview && selectionName && selectionDescription && selectionInstructions) {
+        colorPreview.style.display = 'none';
+        selectionInstructions.style.display = 'none';
+        selectionName.textContent = 'Inspect Tool';
+        selectionDescription.textContent = 'Click a car or pedestrian to see its state, path, parking timer, needs and score. Click empty ground to stop inspecting.';
+        selectionInfo.style.display = 'block';
+      }
     } else if (this.selectedPloppableType) {
       const ploppableCost = getPloppableCost(this.selectedPloppableType);
-      setPrice(ploppableCost > 0 ? `$${ploppableCost}` : 'Free');
+      const definition = getPloppableDefinition(this.selectedPloppableType);
+      const upkeep = definition?.upkeep ? ` + $${definition.upkeep}/day upkeep` : '';
+      setPrice(ploppableCost > 0 ? `$${ploppableCost}${upkeep}` : 'Free');
       if (selectionInfo && colorPreview && selectionName && selectionDescription && selectionInstructions) {
         colorPreview.style.display = 'none';
-        const selectionDisplayNames: Record<string, string> = {
-          'Portable Toilet': 'Lotty Potty',
-          'Vending Machine': 'Lot Pop',
-        };
-        selectionName.textContent = selectionDisplayNames[this.selectedPloppableType] || this.selectedPloppableType;
-        const button = document.querySelector(`.ploppable-button[data-name="${this.selectedPloppableType}"]`);
-        let description = button?.getAttribute('data-description') || '';
+        selectionName.textContent = definition?.displayName || this.selectedPloppableType;
+        let description = definition?.description || '';
         let instructions = '';
         if (this.selectedPloppableType === 'Pedestrian Spawner') {
           description = 'Click a cell to place a pedestrian spawner (🚶). Pedestrians will spawn here and wander randomly on the pedestrian rail grid.';
         } else {
-          const rotTypes = ['Parking Spot', 'Trash Can', 'Vending Machine', 'Dumpster', 'Portable Toilet', 'Street Light', 'Bench', 'Speed Bump', 'Parking Booth'];
-          if (rotTypes.includes(this.selectedPloppableType)) instructions = 'Use Q and E keys to rotate orientation.';
+          if ((definition?.orientations.length ?? 0) > 1) instructions = 'Use Q and E keys to rotate orientation.';
           if (this.selectedPloppableType === 'Crosswalk') instructions = 'Requires asphalt. Use Q and E keys to rotate orientation.';
           if (this.selectedPloppableType === 'Security Camera') instructions = 'Can only be placed on cells that already contain a Street Light.';
           if (this.selectedPloppableType === 'Parking Spot') {
@@ -1145,6 +1418,14 @@ export class GridEditorController {
           if (boothRateLabel) boothRateLabel.textContent = `Booth Rate (${boothUnit}):`;
           meterRateInput.value = parkingTimer.getMeterParkingRate().toString();
           boothRateInput.value = parkingTimer.getBoothParkingRate().toString();
+          const meterSchedule = document.getElementById('meter-rate-schedule');
+          const boothSchedule = document.getElementById('booth-rate-schedule');
+          if (meterSchedule) renderRateScheduleEditor(meterSchedule, 'meter', `Meter Schedule (${meterUnit}):`);
+          if (boothSchedule) renderRateScheduleEditor(boothSchedule, 'booth', `Booth Schedule (${boothUnit}):`);
+          const meterPolicy = document.getElementById('meter-billing-policy');
+          const boothPolicy = document.getElementById('booth-billing-policy');
+          if (meterPolicy) renderBillingPolicyEditor(meterPolicy, 'meter', 'Meter Billing:');
+          if (boothPolicy) renderBillingPolicyEditor(boothPolicy, 'booth', 'Booth Billing:');
         } else if (rateInputContainer) rateInputContainer.style.display = 'none';
         selectionInfo.style.display = 'block';
       }
@@ -1176,50 +1457,52 @@ export class GridEditorController {
     const kb = this.ctx.getInput().keyboard;
     kb?.on('keydown-Q', this.onKeyQ);
     kb?.on('keydown-E', this.onKeyE);
+    kb?.on('keydown-Z', this.onKeyZ);
   }
 
-  private readonly onKeyQ = (): void => {
-    if (this.selectedPloppableType === 'Parking Spot') {
-      if (this.ctx.getLockedParkingSpotOrientation?.() != null) return;
-      const rotationMap = [1, 3, 0, 2];
-      this.ploppableOrientation = rotationMap[this.ploppableOrientation];
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    } else if (this.selectedPloppableType === 'Vending Machine' || this.selectedPloppableType === 'Dumpster' || this.selectedPloppableType === 'Portable Toilet' || this.selectedPloppableType === 'Speed Bump') {
-      this.ploppableOrientation = this.ploppableOrientation === 2 ? 3 : 2;
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    } else if (['Trash Can', 'Street Light', 'Bench'].includes(this.selectedPloppableType || '')) {
-      this.ploppableOrientation = (this.ploppableOrientation + 3) % 4;
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    } else if (this.selectedPloppableType === 'Crosswalk') {
-      this.ploppableOrientation = this.ploppableOrientation === 0 ? 1 : 0;
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
+  /** Ctrl+Z undo, Ctrl+Shift+Z redo (Cmd on macOS). Ignored while typing in a text field. */
+  private readonly onKeyZ = (event: KeyboardEvent): void => {
+    if (!event.ctrlKey && !event.metaKey) return;
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+    event.preventDefault();
+    if (this.isPainting) return;
+    if (this.pendingEdit) {
+      // A half-placed vehicle spawner is the most recent action; either key just drops it
+      this.cancelPendingEdit();
+      return;
+    }
+    if (event.shiftKey) {
+      this.history.redo();
+    } else {
+      this.history.undo();
     }
   };
 
+  private readonly onKeyQ = (): void => {
+    this.rotatePloppable(-1);
+  };
+
   private readonly onKeyE = (): void => {
-    if (this.selectedPloppableType === 'Parking Spot') {
-      if (this.ctx.getLockedParkingSpotOrientation?.() != null) return;
-      const rotationMap = [2, 0, 3, 1];
-      this.ploppableOrientation = rotationMap[this.ploppableOrientation];
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    } else if (this.selectedPloppableType === 'Vending Machine' || this.selectedPloppableType === 'Dumpster' || this.selectedPloppableType === 'Portable Toilet' || this.selectedPloppableType === 'Speed Bump') {
-      this.ploppableOrientation = this.ploppableOrientation === 2 ? 3 : 2;
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    } else if (['Trash Can', 'Street Light', 'Bench', 'Parking Booth'].includes(this.selectedPloppableType || '')) {
-      this.ploppableOrientation = (this.ploppableOrientation + 1) % 4;
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    } else if (this.selectedPloppableType === 'Crosswalk') {
-      this.ploppableOrientation = this.ploppableOrientation === 0 ? 1 : 0;
-      if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
-    }
+    this.rotatePloppable(1);
   };
 
+  /** Step the placement orientation through the selected ploppable's registry orientations */
+  private rotatePloppable(step: 1 | -1): void {
+    if (this.selectedPloppableType === 'Parking Spot' && this.ctx.getLockedParkingSpotOrientation?.() != null) return;
+    const orientations = getPloppableDefinition(this.selectedPloppableType || '')?.orientations ?? [];
+    if (orientations.length < 2) return;
+    const index = orientations.indexOf(this.ploppableOrientation);
+    this.ploppableOrientation = orientations[(index + step + orientations.length) % orientations.length];
+    if (this.hoveredCell) this.drawHighlight(this.hoveredCell.x, this.hoveredCell.y);
+  }
+
   private exportGrid(): void {
     const gridManager = this.ctx.getGridManager();
     const vehicleSystem = this.ctx.getVehicleSystem();
     const serialized = gridManager.serializeGrid();
     const obj = JSON.parse(serialized) as Record<string, unknown>;
     obj.vehicleSpawnerPairs = vehicleSystem.getSpawnerDespawnerPairs().map(p => [p.spawnerX, p.spawnerY, p.despawnerX, p.despawnerY]);
+    Object.assign(obj, ParkingTimerSystem.getInstance().getLotPricing());
     const blob = new Blob([JSON.stringify(obj)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -1240,7 +1523,7 @@ export class GridEditorController {
         gridHeight?: number;
         gridSize?: number;
         vehicleSpawnerPairs?: Array<[number, number, number, number]>;
-      } = {};
+      } & Partial<LotPricing> = {};
       try {
         parsed = JSON.parse(content);
       } catch {
@@ -1282,11 +1565,14 @@ export class GridEditorController {
       const vehicleSystem = this.ctx.getVehicleSystem();
       const pedestrianSystem = this.ctx.getPedestrianSystem();
 
+      this.clearHistory();
       const success = gridManager.deserializeGrid(content);
       if (success) {
         SpawnerManager.rebuildSpawnerPairsFromGrid(
           gridManager, gridWidth, gridHeight, vehicleSystem, pedestrianSystem, pairs
         );
+        ParkingTimerSystem.getInstance().loadLotPricing(parsed, this.ctx.getChallenge());
+        this.updateSelectionInfo();
         this.ctx.redrawGrid();
       } else {
         alert('Failed to import grid. Invalid file format.');
@@ -1308,15 +1594,97 @@ export class GridEditorController {
             this.selectedPloppableType = null;
             this.isVehicleSpawnerMode = false;
             this.pendingSpawnerCell = null;
+            this.isServiceMode = false;
+            this.isInspectMode = false;
+            document.getElementById('service-button')?.classList.remove('selected');
+            document.getElementById('inspect-button')?.classList.remove('selected');
+            document.querySelectorAll('.color-button').forEach(btn => btn.classList.remove('selected'));
+            document.querySelectorAll('.ploppable-button').forEach(btn => btn.classList.remove('selected'));
+            document.getElementById('vehicle-spawner-button')?.classList.remove('selected');
+            document.getElementById('pedestrian-spawner-button')?.classList.remove('selected');
+          }
+          this.clearHighlight();
+          this.updateSelectionInfo();
+        }, { signal });
+      }
+    });
+  }
+
+  private setupServiceButtons(signal: AbortSignal): void {
+    this.scheduleDomSetup(signal, () => {
+      const serviceButton = document.getElementById('service-button');
+      if (serviceButton) {
+        serviceButton.addEventListener('click', () => {
+          const wasSelected = serviceButton.classList.contains('selected');
+          serviceButton.classList.toggle('selected');
+          this.isServiceMode = !wasSelected;
+          if (this.isServiceMode) {
+            this.selectedColor = null;
+            this.selectedPloppableType = null;
+            this.isVehicleSpawnerMode = false;
+            this.pendingSpawnerCell = null;
+            this.isDemolishMode = false;
+            this.isInspectMode = false;
+            document.querySelectorAll('.color-button').forEach(btn => btn.classList.remove('selected'));
+            document.querySelectorAll('.ploppable-button').forEach(btn => btn.classList.remove('selected'));
+            document.getElementById('vehicle-spawner-button')?.classList.remove('selected');
+            document.getElementById('pedestrian-spawner-button')?.classList.remove('selected');
+            document.getElementById('demolish-button')?.classList.remove('selected');
+            document.getElementById('inspect-button')?.classList.remove('selected');
+          }
+          this.clearHighlight();
+          this.updateSelectionInfo();
+        }, { signal });
+      }
+
+      const contractButton = document.getElementById('service-contract-button');
+      if (contractButton) {
+        const updateContractButton = () => {
+          const enabled = GameSystems.maintenance.hasDailyServiceContract();
+          contractButton.textContent = `📋 Daily Service: ${enabled ? 'On' : 'Off'}`;
+          contractButton.classList.toggle('selected', enabled);
+        };
+        contractButton.title = `Empties full ploppables and picks up litter every midnight: $${DAILY_SERVICE_CONTRACT_FEE}/day plus the usual service costs`;
+        updateContractButton();
+        contractButton.addEventListener('click', () => {
+          GameSystems.maintenance.setDailyServiceContract(!GameSystems.maintenance.hasDailyServiceContract());
+          updateContractButton();
+        }, { signal });
+      }
+    });
+  }
+
+  private setupInspectButton(signal: AbortSignal): void {
+    this.scheduleDomSetup(signal, () => {
+      const inspectButton = document.getElementById('inspect-button');
+      if (inspectButton) {
+        inspectButton.addEventListener('click', () => {
+          const wasSelected = inspectButton.classList.contains('selected');
+          inspectButton.classList.toggle('selected');
+          this.isInspectMode = !wasSelected;
+          if (this.isInspectMode) {
+            this.selectedColor = null;
+            this.selectedPloppableType = null;
+            this.isVehicleSpawnerMode = false;
+            this.pendingSpawnerCell = null;
+            this.isDemolishMode = false;
+            this.isServiceMode = false;
             document.querySelectorAll('.color-button').forEach(btn => btn.classList.remove('selected'));
             document.querySelectorAll('.ploppable-button').forEach(btn => btn.classList.remove('selected'));
             document.getElementById('vehicle-spawner-button')?.classList.remove('selected');
             document.getElementById('pedestrian-spawner-button')?.classList.remove('selected');
+            document.getElementById('demolish-button')?.classList.remove('selected');
+            document.getElementById('service-button')?.classList.remove('selected');
           }
           this.clearHighlight();
           this.updateSelectionInfo();
         }, { signal });
       }
+
+      document.getElementById('entity-inspector-follow')?.addEventListener('click', () => {
+        this.isFollowingInspected = this.inspectedEntity !== null && !this.isFollowingInspected;
+      }, { signal });
+      document.getElementById('entity-inspector-close')?.addEventListener('click', () => this.clearInspection(), { signal });
     });
   }
 
@@ -1333,9 +1701,13 @@ export class GridEditorController {
             this.selectedColor = null;
             this.selectedPloppableType = null;
             this.isDemolishMode = false;
+            this.isServiceMode = false;
+            this.isInspectMode = false;
             document.querySelectorAll('.color-button').forEach(btn => btn.classList.remove('selected'));
             document.querySelectorAll('.ploppable-button').forEach(btn => btn.classList.remove('selected'));
             document.getElementById('demolish-button')?.classList.remove('selected');
+            document.getElementById('service-button')?.classList.remove('selected');
+            document.getElementById('inspect-button')?.classList.remove('selected');
           }
           this.clearHighlight();
           this.updateSelectionInfo();
@@ -1359,10 +1731,14 @@ export class GridEditorController {
             this.isVehicleSpawnerMode = false;
             this.pendingSpawnerCell = null;
             this.isDemolishMode = false;
+            this.isServiceMode = false;
+            this.isInspectMode = false;
             document.querySelectorAll('.color-button').forEach(btn => btn.classList.remove('selected'));
             document.querySelectorAll('.ploppable-button').forEach(btn => btn.classList.remove('selected'));
             document.getElementById('vehicle-spawner-button')?.classList.remove('selected');
             document.getElementById('demolish-button')?.classList.remove('selected');
+            document.getElementById('service-button')?.classList.remove('selected');
+            document.getElementById('inspect-button')?.classList.remove('selected');
           }
           this.clearHighlight();
           this.updateSelectionInfo();
@@ -1470,6 +1846,7 @@ export class GridEditorController {
           if (newSizeX === this.ctx.getGridWidth() && newSizeY === this.ctx.getGridHeight()) return;
           try {
             this.ctx.resizeGrid(newSizeX, newSizeY);
+            this.clearHistory();
           } catch (err) {
             console.error('Error resizing grid:', err);
             alert('Error resizing grid. Check console for details.');
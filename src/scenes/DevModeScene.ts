@@ -10,11 +10,13 @@ export class DevModeScene extends Phaser.Scene {
   }
 
   create(): void {
+    const data = (this.scene.settings.data || {}) as Record<string, unknown>;
     this.scene.start('ChallengeScene', {
       challengeId: 'dev-mode',
       isDevMode: true,
       gridWidth: 10,
       gridHeight: 10,
+      seed: data.seed,
     });
   }
 }
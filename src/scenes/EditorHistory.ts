@@ -0,0 +1,339 @@
+/**
+ * EditorHistory - Undo/redo stack for GridEditorController.
+ *
+ * Each editor stroke (pointer down → up: a paint drag, a line drag, a ploppable placement,
+ * a demolish sweep, a completed spawner pair) becomes one GridEditCommand. The command stores
+ * the cells and border segments the stroke changed (before and after), the money the stroke
+ * cost, and the vehicle spawner pairs before and after.
+ *
+ * Only the editor's part of a cell is restored. Simulation state on the cell (appeal, safety,
+ * litter, occupancy, a ploppable's fill level and reservation) keeps its live value, and the
+ * Appeal/Safety AoE of the ploppables swapped out and in is reapplied around them.
+ */
+
+import { CellData, Ploppable } from '@/types';
+import { GridManager } from '@/core/GridManager';
+import { GameSystems } from '@/core/GameSystems';
+import { SpawnerManager } from '@/managers/SpawnerManager';
+import { AppealSystem } from '@/systems/AppealSystem';
+import { SafetySystem } from '@/systems/SafetySystem';
+import type { VehicleSystem } from '@/systems/VehicleSystem';
+import type { PedestrianSystem } from '@/systems/PedestrianSystem';
+import type { LedgerCategory } from '@/systems/EconomySystem';
+
+/** An undoable editor action. undo/redo return false (and change nothing) if they can't run. */
+export interface EditorCommand {
+  undo(): boolean;
+  redo(): boolean;
+}
+
+/** Systems a GridEditCommand writes to when applied */
+export interface GridEditTarget {
+  getGridManager(): GridManager;
+  getVehicleSystem(): VehicleSystem;
+  getPedestrianSystem(): PedestrianSystem;
+  redrawGrid(): void;
+}
+
+type SpawnerPairTuple = [number, number, number, number];
+
+interface CellChange {
+  x: number;
+  y: number;
+  before: string | undefined;
+  after: string | undefined;
+}
+
+interface BorderChange {
+  key: string;
+  before: number | undefined;
+  after: number | undefined;
+}
+
+function getPairTuples(vehicleSystem: VehicleSystem): SpawnerPairTuple[] {
+  return vehicleSystem.getSpawnerDespawnerPairs().map(p => [p.spawnerX, p.spawnerY, p.despawnerX, p.despawnerY]);
+}
+
+function isPedestrianSpawner(cellJson: string | undefined): boolean {
+  if (!cellJson) return false;
+  return (JSON.parse(cellJson) as CellData).ploppable?.type === 'Pedestrian Spawner';
+}
+
+/**
+ * The part of a cell the editor owns: everything but the simulation state (appeal, safety, litter,
+ * occupancy, fill level, reservation). Used to tell which cells a stroke actually edited.
+ */
+function getEditorState(cellJson: string | undefined): string | undefined {
+  if (!cellJson) return undefined;
+  const { appeal: _appeal, safety: _safety, litter: _litter, isOccupied: _isOccupied, ...editorState } = JSON.parse(cellJson) as CellData;
+  if (editorState.ploppable) {
+    const { fillLevel: _fillLevel, reserved: _reserved, ...ploppable } = editorState.ploppable;
+    editorState.ploppable = ploppable;
+  }
+  return Object.keys(editorState).length > 0 ? JSON.stringify(editorState) : undefined;
+}
+
+/** The ploppable whose AoE is anchored on this cell (2-tile ploppables anchor on their primary cell) */
+function getAnchoredPloppable(cellData: CellData | undefined, x: number, y: number): Ploppable | undefined {
+  const ploppable = cellData?.ploppable;
+  return ploppable && ploppable.x === x && ploppable.y === y ? ploppable : undefined;
+}
+
+/** Apply (or reverse) a ploppable's Appeal/Safety AoE, including a Street Light's Security Camera */
+function applyPloppableAoE(ploppable: Ploppable, gridManager: GridManager, isRemoval: boolean): void {
+  const width = gridManager.getGridWidth();
+  const height = gridManager.getGridHeight();
+  AppealSystem.getInstance().applyPloppableAoE(ploppable, gridManager, width, height, isRemoval);
+  SafetySystem.getInstance().applyPloppableAoE(ploppable, gridManager, width, height, isRemoval);
+  if (ploppable.addOns?.includes('Security Camera')) {
+    const cameraAoE: Ploppable = { id: `cam-aoe-${ploppable.x}-${ploppable.y}`, type: 'Security Camera', x: ploppable.x, y: ploppable.y, cost: 0 };
+    SafetySystem.getInstance().applyPloppableAoE(cameraAoE, gridManager, width, height, isRemoval);
+  }
+}
+
+/**
+ * Records one stroke. Create it before the first change; call finish() once the stroke ends.
+ * All editor spending/refunds during the stroke must go through addCost().
+ */
+export class GridEditRecorder {
+  private cellsBefore: Map<string, string> = new Map();
+  private bordersBefore: Map<string, number>;
+  private pairsBefore: SpawnerPairTuple[];
+  private costs = new Map<LedgerCategory, number>();
+
+  constructor(gridManager: GridManager, vehicleSystem: VehicleSystem) {
+    gridManager.getAllCellData().forEach((data, key) => this.cellsBefore.set(key, JSON.stringify(data)));
+    this.bordersBefore = new Map(gridManager.getAllBorderSegments());
+    this.pairsBefore = getPairTuples(vehicleSystem);
+  }
+
+  /** Money spent (positive) or refunded (negative) by the stroke, kept per ledger category */
+  addCost(amount: number, category: LedgerCategory): void {
+    this.costs.set(category, (this.costs.get(category) ?? 0) + amount);
+  }
+
+  /**
+   * Diff the grid against the snapshot taken at construction.
+   * @returns the command, or null if the stroke changed nothing
+   */
+  finish(target: GridEditTarget): GridEditCommand | null {
+    const gridManager = target.getGridManager();
+    const cellChanges: CellChange[] = [];
+    const cellsAfter = new Map<string, string>();
+    gridManager.getAllCellData().forEach((data, key) => cellsAfter.set(key, JSON.stringify(data)));
+    for (const key of new Set([...this.cellsBefore.keys(), ...cellsAfter.keys()])) {
+      const before = this.cellsBefore.get(key);
+      const after = cellsAfter.get(key);
+      if (getEditorState(before) === getEditorState(after)) continue;
+      const [x, y] = key.split(',').map(Number);
+      cellChanges.push({ x, y, before, after });
+    }
+
+    const bordersAfter = gridManager.getAllBorderSegments();
+    const borderChanges: BorderChange[] = [];
+    for (const key of new Set([...this.bordersBefore.keys(), ...bordersAfter.keys()])) {
+      const before = this.bordersBefore.get(key);
+      const after = bordersAfter.get(key);
+      if (before !== after) borderChanges.push({ key, before, after });
+    }
+
+    const pairsAfter = getPairTuples(target.getVehicleSystem());
+    const costs = [...this.costs].filter(([, amount]) => amount !== 0);
+    if (cellChanges.length === 0 && borderChanges.length === 0 && costs.length === 0) return null;
+    return new GridEditCommand(target, cellChanges, borderChanges, this.pairsBefore, pairsAfter, costs);
+  }
+}
+
+/**
+ * One recorded stroke. Undo puts the changed cells/borders/pairs back and refunds the cost
+ * (or re-charges a demolish refund); redo re-applies them and charges again.
+ */
+export class GridEditCommand implements EditorCommand {
+  private target: GridEditTarget;
+  private cellChanges: CellChange[];
+  private borderChanges: BorderChange[];
+  private pairsBefore: SpawnerPairTuple[];
+  private pairsAfter: SpawnerPairTuple[];
+  private costs: Array<[LedgerCategory, number]>;
+  /** Fill levels of ploppables this command took off the grid, for when it puts them back */
+  private fillLevelsWhenRemoved = new Map<string, number | undefined>();
+
+  constructor(
+    target: GridEditTarget,
+    cellChanges: CellChange[],
+    borderChanges: BorderChange[],
+    pairsBefore: SpawnerPairTuple[],
+    pairsAfter: SpawnerPairTuple[],
+    costs: Array<[LedgerCategory, number]>
+  ) {
+    this.target = target;
+    this.cellChanges = cellChanges;
+    this.borderChanges = borderChanges;
+    this.pairsBefore = pairsBefore;
+    this.pairsAfter = pairsAfter;
+    this.costs = costs;
+  }
+
+  undo(): boolean {
+    // Undoing a demolish takes its refund back
+    if (!this.chargeOrRefund(-1, 'Undo')) return false;
+    this.apply('before', this.pairsBefore);
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.chargeOrRefund(1, 'Redo')) return false;
+    this.apply('after', this.pairsAfter);
+    return true;
+  }
+
+  /**
+   * Charge the stroke's costs again (sign 1) or refund them (sign -1), each under its own ledger
+   * category. Returns false, changing nothing, if the player can't afford the charges.
+   */
+  private chargeOrRefund(sign: 1 | -1, label: string): boolean {
+    const amounts = this.costs.map(([category, amount]) => [category, amount * sign] as const);
+    const charged = amounts.reduce((sum, [, amount]) => sum + Math.max(0, amount), 0);
+    if (charged > 0 && !GameSystems.economy.canAfford(charged)) {
+      GameSystems.messages.addSystemMessage(`Can't afford to do that ($${charged}).`, '💰');
+      return false;
+    }
+    for (const [category, amount] of amounts) {
+      if (amount > 0) {
+        GameSystems.economy.spend(amount, category, { label });
+      } else if (amount < 0) {
+        GameSystems.economy.earn(-amount, category, { label });
+      }
+    }
+    return true;
+  }
+
+  private apply(side: 'before' | 'after', pairs: SpawnerPairTuple[]): void {
+    const gridManager = this.target.getGridManager();
+    const vehicleSystem = this.target.getVehicleSystem();
+    const pedestrianSystem = this.target.getPedestrianSystem();
+
+    const removedPloppables: Ploppable[] = [];
+    const addedPloppables: Ploppable[] = [];
+    for (const change of this.cellChanges) {
+      const current = side === 'before' ? change.after : change.before;
+      const next = side === 'before' ? change.before : change.after;
+      const live = gridManager.getCellData(change.x, change.y);
+      const data: CellData = {
+        ...(next === undefined ? {} : (JSON.parse(next) as CellData)),
+        appeal: live?.appeal,
+        safety: live?.safety,
+        litter: live?.litter,
+        isOccupied: live?.isOccupied,
+      };
+      if (data.ploppable) {
+        data.ploppable = { ...data.ploppable };
+        // A ploppable still standing keeps its fill level; one brought back has the level it had when it went
+        if (live?.ploppable?.id === data.ploppable.id) {
+          data.ploppable.fillLevel = live.ploppable.fillLevel;
+        } else if (this.fillLevelsWhenRemoved.has(data.ploppable.id)) {
+          data.ploppable.fillLevel = this.fillLevelsWhenRemoved.get(data.ploppable.id);
+        }
+        // Reservations belong to live vehicles, not to the edit, so take them from the vehicles now on the lot
+        if (data.ploppable.type === 'Parking Spot' || data.ploppable.type === 'Parking Meter') {
+          data.ploppable.reserved = vehicleSystem.getVehicles().some(
+            v => v.reservedSpotX === change.x && v.reservedSpotY === change.y
+          );
+        }
+      }
+      if (live?.ploppable && live.ploppable.id !== data.ploppable?.id) {
+        this.fillLevelsWhenRemoved.set(live.ploppable.id, live.ploppable.fillLevel);
+      }
+      (Object.keys(data) as Array<keyof CellData>).forEach(key => {
+        if (data[key] === undefined) delete data[key];
+      });
+      if (data.ploppable?.fillLevel === undefined) delete data.ploppable?.fillLevel;
+      const liveAnchored = getAnchoredPloppable(live, change.x, change.y);
+      if (liveAnchored) removedPloppables.push({ ...liveAnchored });
+      const nextAnchored = getAnchoredPloppable(data, change.x, change.y);
+      if (nextAnchored) addedPloppables.push(nextAnchored);
+      gridManager.replaceCellData(change.x, change.y, Object.keys(data).length > 0 ? data : undefined);
+
+      const hadPedSpawner = isPedestrianSpawner(current);
+      const hasPedSpawner = isPedestrianSpawner(next);
+      if (hadPedSpawner && !hasPedSpawner) SpawnerManager.removePedestrianSpawner(change.x, change.y, pedestrianSystem);
+      if (!hadPedSpawner && hasPedSpawner) SpawnerManager.addPedestrianSpawner(change.x, change.y, pedestrianSystem);
+    }
+
+    // Appeal/Safety were kept live, so move the AoE of the ploppables that went and came
+    for (const ploppable of removedPloppables) applyPloppableAoE(ploppable, gridManager, true);
+    for (const ploppable of addedPloppables) applyPloppableAoE(ploppable, gridManager, false);
+
+    for (const change of this.borderChanges) {
+      const value = side === 'before' ? change.before : change.after;
+      if (value === undefined) {
+        gridManager.deleteBorderSegment(change.key);
+      } else {
+        gridManager.setBorderSegment(change.key, value);
+      }
+    }
+
+    // Only touch pairs that differ so untouched spawners keep their spawn timers
+    const wanted = new Set(pairs.map(p => p.join(',')));
+    const existing = getPairTuples(vehicleSystem);
+    const existingKeys = new Set(existing.map(p => p.join(',')));
+    for (const [spawnerX, spawnerY] of existing.filter(p => !wanted.has(p.join(',')))) {
+      vehicleSystem.removeSpawnerDespawnerPair(spawnerX, spawnerY);
+    }
+    for (const [spawnerX, spawnerY, despawnerX, despawnerY] of pairs.filter(p => !existingKeys.has(p.join(',')))) {
+      vehicleSystem.addSpawnerDespawnerPair({ spawnerX, spawnerY, despawnerX, despawnerY });
+    }
+
+    this.target.redrawGrid();
+  }
+}
+
+/**
+ * Undo and redo stacks. Pushing a new command clears the redo stack.
+ */
+export class EditorHistory {
+  private undoStack: EditorCommand[] = [];
+  private redoStack: EditorCommand[] = [];
+  private readonly maxEntries = 100;
+
+  push(command: EditorCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.maxEntries) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+    if (!command.undo()) {
+      this.undoStack.push(command);
+      return false;
+    }
+    this.redoStack.push(command);
+    return true;
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+    if (!command.redo()) {
+      this.redoStack.push(command);
+      return false;
+    }
+    this.undoStack.push(command);
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * EntityInspectorPanel - DOM helpers for the entity inspector card in the right sidebar.
+ * Shows the live state of the vehicle or pedestrian picked with the Inspect tool (GridEditorController):
+ * state, spot, path, parking timer and fee so far, needs, and the parker's score with what changed it.
+ * Re-renders only when the card's contents change.
+ */
+
+import type { GridManager } from '@/core/GridManager';
+import type { VehicleEntity } from '@/entities/Vehicle';
+import type { PedestrianEntity } from '@/entities/Pedestrian';
+import type { RatingReason } from '@/types';
+import { GameSystems } from '@/core/GameSystems';
+import { ParkingTimerSystem } from '@/systems/ParkingTimerSystem';
+import { getRatingReasonLabel } from '@/systems/RatingSystem';
+import { PARKER_FULL_SCORE } from '@/config/rating.config';
+
+const PANEL_ID = 'entity-inspector-panel';
+
+/**
+ * What the Inspect tool has selected, with the parker's other half when there is one:
+ * a vehicle's driver while out on foot, or a pedestrian's vehicle while it is in the lot
+ */
+export type InspectedEntity =
+  | { kind: 'vehicle'; vehicle: VehicleEntity; pedestrian?: PedestrianEntity }
+  | { kind: 'pedestrian'; pedestrian: PedestrianEntity; vehicle?: VehicleEntity };
+
+/** HTML last rendered, so unchanged frames skip the DOM work */
+let renderedHtml = '';
+
+/** Game minutes as e.g. "1h 05m" or "12m" */
+function formatMinutes(minutes: number): string {
+  const rounded = Math.max(0, Math.ceil(minutes));
+  const hours = Math.floor(rounded / 60);
+  return hours > 0 ? `${hours}h ${(rounded % 60).toString().padStart(2, '0')}m` : `${rounded}m`;
+}
+
+function formatCell(x: number | undefined, y: number | undefined): string {
+  return x === undefined || y === undefined ? '—' : `(${x}, ${y})`;
+}
+
+/**
+ * Add the inspector card to the right panel, below Selection Info (once per page). Starts hidden.
+ */
+export function initializeEntityInspectorPanel(): void {
+  renderedHtml = '';
+  if (document.getElementById(PANEL_ID)) return;
+  const rightPanel = document.getElementById('right-panel');
+  if (!rightPanel) return;
+
+  const panel = document.createElement('div');
+  panel.id = PANEL_ID;
+  panel.style.display = 'none';
+  panel.innerHTML = `
+    <div class="section-title" style="margin-top: 0; margin-bottom: 10px; display: flex; justify-content: space-between; align-items: center;">
+      Inspector
+      <span style="display: flex; gap: 4px;">
+        <button id="entity-inspector-follow" class="action-button" style="padding: 2px 8px; font-size: 11px;" title="Keep the camera centered on this entity">🎥 Follow</button>
+        <button id="entity-inspector-close" class="action-button" style="padding: 2px 8px; font-size: 11px;" title="Stop inspecting">✕</button>
+      </span>
+    </div>
+    <div id="entity-inspector-card" style="
+      background: #1a1a1a;
+      border: 1px solid #3a3a3a;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 15px;
+      font-size: 11px;
+      line-height: 1.4;
+    "></div>
+  `;
+  const selectionInfo = document.getElementById('selection-info');
+  rightPanel.insertBefore(panel, selectionInfo ? selectionInfo.nextSibling : rightPanel.firstChild);
+}
+
+function row(label: string, value: string, color: string = '#ddd'): string {
+  return `
+    <div style="display: flex; justify-content: space-between; gap: 8px; margin-bottom: 2px;">
+      <span style="color: #888;">${label}</span>
+      <span style="color: ${color}; text-align: right;">${value}</span>
+    </div>
+  `;
+}
+
+function describeVehicleState(vehicle: VehicleEntity): string {
+  if (vehicle.searchingForSpot) return 'searching for a spot';
+  if ((vehicle.boothServiceTimer ?? 0) > 0) return 'paying at the booth';
+  if ((vehicle.waitTimer ?? 0) > 0) return `${vehicle.state}, stuck in traffic`;
+  return vehicle.state;
+}
+
+function describePedestrianState(pedestrian: PedestrianEntity): string {
+  if (pedestrian.state === 'despawned') return 'off the lot';
+  return pedestrian.state.replace(/_/g, ' ');
+}
+
+function describeParkingTimer(vehicle: VehicleEntity | undefined): string {
+  if (!vehicle?.parkingDuration) return '—';
+  const duration = formatMinutes(vehicle.parkingDuration / 1000);
+  if (vehicle.state !== 'parking' || vehicle.parkingTimer === undefined) return `stays ${duration}`;
+  // Drivers still out on foot keep the car parked past its timer
+  if (vehicle.parkingTimer <= 0) return `stay of ${duration} is up`;
+  return `${formatMinutes(vehicle.parkingTimer / 1000)} left of ${duration}`;
+}
+
+function describeAccruedFee(vehicle: VehicleEntity | undefined, gridManager: GridManager): string {
+  if (!vehicle) return '—';
+  const spotCell = vehicle.reservedSpotX === undefined || vehicle.reservedSpotY === undefined
+    ? undefined
+    : gridManager.getCellData(vehicle.reservedSpotX, vehicle.reservedSpotY);
+  // Metered spots bill at the spot; everyone else pays at a booth on the way out
+  const paymentType = spotCell?.ploppable?.type === 'Parking Meter' ? 'meter' : 'booth';
+  const fee = ParkingTimerSystem.getInstance().getAccruedFee(vehicle.id, paymentType);
+  return fee === undefined ? '—' : `$${fee} (${paymentType})`;
+}
+
+function describeNeed(pedestrian: PedestrianEntity | undefined, vehicle: VehicleEntity | undefined): string {
+  if (pedestrian?.currentNeed) {
+    const target = pedestrian.needTargetX === undefined ? '' : ` at ${formatCell(pedestrian.needTargetX, pedestrian.needTargetY)}`;
+    return `${pedestrian.currentNeed}${target}`;
+  }
+  const tripsLeft = vehicle?.movieGoerNeedEvents?.length ?? 0;
+  if (tripsLeft > 0) return `${tripsLeft} trip${tripsLeft === 1 ? '' : 's'} to come`;
+  return 'none';
+}
+
+function renderScore(vehicleId: string | undefined): string {
+  const score = vehicleId === undefined ? undefined : GameSystems.rating.getParkerScore(vehicleId);
+  if (vehicleId === undefined || score === undefined) return row('Score', '—');
+  const color = score >= PARKER_FULL_SCORE * 0.75 ? '#81c784' : score >= PARKER_FULL_SCORE * 0.4 ? '#ffd54f' : '#e57373';
+  const breakdown = GameSystems.rating.getParkerBreakdown(vehicleId) ?? {};
+  const changes = (Object.entries(breakdown) as Array<[RatingReason, number]>)
+    .filter(([, points]) => Math.abs(points) >= 0.05)
+    .sort((a, b) => a[1] - b[1])
+    .map(([reason, points]) => `
+      <div style="display: flex; justify-content: space-between; gap: 8px; padding-left: 8px;">
+        <span style="color: #aaa;">${getRatingReasonLabel(reason)}</span>
+        <span style="color: ${points < 0 ? '#e57373' : '#81c784'};">${points > 0 ? '+' : ''}${points.toFixed(1)}</span>
+      </div>
+    `);
+  return row('Score', `<b>${Math.round(score)}</b> / ${PARKER_FULL_SCORE}`, color) + changes.join('');
+}
+
+function renderCard(inspected: InspectedEntity, gridManager: GridManager): string {
+  const { vehicle, pedestrian } = inspected;
+  const entity = inspected.kind === 'vehicle' ? inspected.vehicle : inspected.pedestrian;
+  // Names already carry the archetype (see formatParkerName)
+  const name = entity.name ?? entity.id;
+  const remaining = Math.max(0, entity.path.length - entity.currentPathIndex);
+  const pathEnd = entity.path[entity.path.length - 1];
+  const unfulfilled = pedestrian?.unfulfilledNeeds ?? [];
+
+  return `
+    <div style="color: #fff; font-size: 13px; font-weight: bold; margin-bottom: 6px;">${inspected.kind === 'vehicle' ? '🚗' : '🚶'} ${name}</div>
+    ${row('State', inspected.kind === 'vehicle' ? describeVehicleState(inspected.vehicle) : describePedestrianState(inspected.pedestrian))}
+    ${inspected.kind === 'pedestrian' && vehicle ? row('Car', describeVehicleState(vehicle)) : ''}
+    ${inspected.kind === 'vehicle' && pedestrian ? row('On foot', describePedestrianState(pedestrian)) : ''}
+    ${row('Spot', inspected.kind === 'vehicle' ? formatCell(inspected.vehicle.reservedSpotX, inspected.vehicle.reservedSpotY) : formatCell(inspected.pedestrian.vehicleX, inspected.pedestrian.vehicleY))}
+    ${row('Path', remaining > 0 ? `${remaining} cell${remaining === 1 ? '' : 's'} to ${formatCell(pathEnd?.x, pathEnd?.y)}` : 'arrived')}
+    ${row('Parking timer', describeParkingTimer(vehicle))}
+    ${row('Fee so far', describeAccruedFee(vehicle, gridManager))}
+    ${row('Need', describeNeed(pedestrian, vehicle))}
+    ${row('Unfulfilled', unfulfilled.length > 0 ? unfulfilled.join(', ') : 'none', unfulfilled.length > 0 ? '#e57373' : '#ddd')}
+    ${renderScore(vehicle?.id ?? pedestrian?.vehicleId)}
+  `;
+}
+
+/**
+ * Show the inspected entity's card, or hide the panel when nothing is inspected
+ */
+export function updateEntityInspectorPanel(inspected: InspectedEntity | null, following: boolean, gridManager: GridManager): void {
+  const panel = document.getElementById(PANEL_ID);
+  const cardEl = document.getElementById('entity-inspector-card');
+  if (!panel || !cardEl) return;
+  panel.style.display = inspected ? 'block' : 'none';
+  document.getElementById('entity-inspector-follow')?.classList.toggle('selected', following);
+  const html = inspected ? renderCard(inspected, gridManager) : '';
+  if (html === renderedHtml) return;
+  renderedHtml = html;
+  cardEl.innerHTML = html;
+}
@@ -0,0 +1,203 @@
+/**
+ * FinancePanel - DOM helpers for the Finance section of the right sidebar.
+ * Shows per-day revenue and expense bars for the last week and the latest transactions,
+ * read from the EconomySystem ledger, plus borrowing controls when the challenge allows loans.
+ * Re-renders only when the ledger, the debt or the day changes.
+ */
+
+import { GameSystems } from '@/core/GameSystems';
+import {
+  LEDGER_CATEGORY_LABELS,
+  REVENUE_CATEGORIES,
+  getStatementRevenue,
+  type IncomeStatement,
+  type LedgerCategory,
+  type LedgerEntry,
+} from '@/systems/EconomySystem';
+
+const PANEL_ID = 'finance-panel';
+const CHART_DAYS = 7;
+const RECENT_TRANSACTIONS = 8;
+const CHART_HEIGHT_PX = 70;
+
+/** Ledger length, debt and day last rendered, so unchanged frames skip the DOM work */
+let renderedKey = '';
+
+function formatAmount(amount: number): string {
+  return `${amount < 0 ? '-' : '+'}$${Math.abs(amount).toLocaleString()}`;
+}
+
+function formatTime(minute: number): string {
+  const hour24 = Math.floor(minute / 60);
+  const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return `${hour12}:${(minute % 60).toString().padStart(2, '0')} ${hour24 < 12 ? 'AM' : 'PM'}`;
+}
+
+/** Money out in a statement (negative lines outside revenue, as a positive number) */
+function getStatementExpenses(statement: IncomeStatement): number {
+  return (Object.keys(statement.lines) as LedgerCategory[])
+    .filter(category => !REVENUE_CATEGORIES.includes(category))
+    .reduce((sum, category) => sum + Math.max(0, -statement.lines[category]), 0);
+}
+
+/**
+ * Add the Finance section to the right panel, below the messages (once per page)
+ */
+export function initializeFinancePanel(): void {
+  renderedKey = '';
+  if (document.getElementById(PANEL_ID)) return;
+  const rightPanel = document.getElementById('right-panel');
+  if (!rightPanel) return;
+
+  const panel = document.createElement('div');
+  panel.id = PANEL_ID;
+  panel.innerHTML = `
+    <div class="section-title" style="margin-top: 0; margin-bottom: 10px;">Finance</div>
+    <div id="finance-chart" style="
+      display: flex;
+      align-items: flex-end;
+      gap: 6px;
+      height: ${CHART_HEIGHT_PX + 16}px;
+      background: #1a1a1a;
+      border: 1px solid #3a3a3a;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 6px;
+      box-sizing: border-box;
+    "></div>
+    <div style="display: flex; gap: 12px; font-size: 10px; color: #888; margin-bottom: 8px;">
+      <span><span style="color: #81c784;">■</span> Revenue</span>
+      <span><span style="color: #e57373;">■</span> Expenses</span>
+    </div>
+    <div id="finance-loans" style="
+      display: none;
+      background: #1a1a1a;
+      border: 1px solid #3a3a3a;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 8px;
+      font-size: 11px;
+      line-height: 1.4;
+    ">
+      <div id="finance-loans-summary"></div>
+      <div style="display: flex; gap: 6px; margin-top: 6px;">
+        <input id="finance-loan-amount" type="number" min="0" step="500" value="1000" style="
+          width: 80px;
+          background: #2a2a2a;
+          border: 1px solid #3a3a3a;
+          color: #ddd;
+          border-radius: 3px;
+          padding: 2px 4px;
+        ">
+        <button id="finance-borrow-button" class="action-button" style="flex: 1; padding: 4px;">Borrow</button>
+        <button id="finance-repay-button" class="action-button" style="flex: 1; padding: 4px;">Repay</button>
+      </div>
+    </div>
+    <div id="finance-transactions" style="
+      background: #1a1a1a;
+      border: 1px solid #3a3a3a;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 15px;
+      font-size: 11px;
+      line-height: 1.4;
+    "></div>
+  `;
+  const messagesPanel = document.getElementById('messages-panel');
+  rightPanel.insertBefore(panel, messagesPanel ? messagesPanel.nextSibling : rightPanel.firstChild);
+
+  const getLoanAmount = () => Number((document.getElementById('finance-loan-amount') as HTMLInputElement | null)?.value) || 0;
+  document.getElementById('finance-borrow-button')?.addEventListener('click', () => {
+    GameSystems.loans.borrow(getLoanAmount());
+    updateFinancePanel();
+  });
+  document.getElementById('finance-repay-button')?.addEventListener('click', () => {
+    GameSystems.loans.repay(getLoanAmount());
+    updateFinancePanel();
+  });
+}
+
+function renderChart(chartEl: HTMLElement): void {
+  const days = GameSystems.economy.getDailyTotals().slice(-CHART_DAYS);
+  const currentDay = GameSystems.time.getCurrentDay();
+  const bars = days.map(statement => ({
+    statement,
+    revenue: getStatementRevenue(statement),
+    expenses: getStatementExpenses(statement),
+  }));
+  const scale = Math.max(1, ...bars.map(bar => Math.max(bar.revenue, bar.expenses)));
+  const barHeight = (amount: number) => Math.round((Math.max(0, amount) / scale) * CHART_HEIGHT_PX);
+
+  chartEl.innerHTML = bars.map(({ statement, revenue, expenses }) => {
+    const title = `Day ${statement.day + 1}: revenue ${formatAmount(revenue)}, expenses ${formatAmount(-expenses)}, net ${formatAmount(statement.net)}`;
+    const dayLabel = statement.day === currentDay ? 'Today' : `D${statement.day + 1}`;
+    return `
+      <div title="${title}" style="flex: 1; display: flex; flex-direction: column; align-items: center;">
+        <div style="display: flex; align-items: flex-end; gap: 2px; height: ${CHART_HEIGHT_PX}px;">
+          <div style="width: 8px; height: ${barHeight(revenue)}px; background: #81c784;"></div>
+          <div style="width: 8px; height: ${barHeight(expenses)}px; background: #e57373;"></div>
+        </div>
+        <div style="color: #888; font-size: 9px; margin-top: 2px;">${dayLabel}</div>
+      </div>
+    `;
+  }).join('');
+}
+
+function renderLoans(loansEl: HTMLElement): void {
+  const loans = GameSystems.loans;
+  const limit = loans.getLoanLimit();
+  loansEl.style.display = limit > 0 ? 'block' : 'none';
+  const summaryEl = document.getElementById('finance-loans-summary');
+  if (limit <= 0 || !summaryEl) return;
+  const debt = loans.getDebt();
+  const payment = loans.getNextPayment();
+  summaryEl.innerHTML = `
+    <div style="display: flex; justify-content: space-between;">
+      <span style="color: #ddd;">Debt</span>
+      <span style="color: ${debt > 0 ? '#e57373' : '#ddd'}; font-weight: bold;">$${debt.toLocaleString()} / $${limit.toLocaleString()}</span>
+    </div>
+    <div style="display: flex; justify-content: space-between; color: #888;">
+      <span>Due at midnight</span>
+      <span title="Interest $${payment.interest.toLocaleString()} + principal $${payment.principal.toLocaleString()}">$${payment.total.toLocaleString()}</span>
+    </div>
+    <div style="color: #666; font-size: 10px;">${(loans.getDailyInterestRate() * 100).toFixed(1)}% interest/day, repaid over ${loans.getTermDays()} days</div>
+  `;
+}
+
+function renderTransactionRow(entry: LedgerEntry): string {
+  const color = entry.amount < 0 ? '#e57373' : '#81c784';
+  const detail = entry.label ?? entry.sourceId ?? '';
+  return `
+    <div style="display: flex; justify-content: space-between; gap: 8px; margin-bottom: 4px;">
+      <div style="min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+        <span style="color: #888; font-size: 10px;">D${entry.day + 1} ${formatTime(entry.minute)}</span>
+        <span style="color: #ddd;">${LEDGER_CATEGORY_LABELS[entry.category]}</span>
+        ${detail ? `<span style="color: #888;">· ${detail}</span>` : ''}
+      </div>
+      <div style="color: ${color}; font-weight: bold;">${formatAmount(entry.amount)}</div>
+    </div>
+  `;
+}
+
+function renderTransactions(listEl: HTMLElement): void {
+  const transactions = GameSystems.economy.getRecentTransactions(RECENT_TRANSACTIONS);
+  listEl.innerHTML = transactions.length === 0
+    ? '<div style="color: #666; font-style: italic;">No transactions yet...</div>'
+    : transactions.map(renderTransactionRow).join('');
+}
+
+/**
+ * Refresh the chart, loans and transaction list if the ledger, the debt or the day changed
+ */
+export function updateFinancePanel(): void {
+  const chartEl = document.getElementById('finance-chart');
+  const listEl = document.getElementById('finance-transactions');
+  const loansEl = document.getElementById('finance-loans');
+  if (!chartEl || !listEl || !loansEl) return;
+  const key = `${GameSystems.economy.getLedger().length}:${GameSystems.loans.getDebt()}:${GameSystems.loans.getLoanLimit()}:${GameSystems.time.getCurrentDay()}`;
+  if (key === renderedKey) return;
+  renderedKey = key;
+  renderChart(chartEl);
+  renderLoans(loansEl);
+  renderTransactions(listEl);
+}
@@ -5,9 +5,11 @@ import {
   isChallengeCompleted,
   isDevChallengeEnabled,
 } from '@/managers/ProgressManager';
+import { listSaveSlots, readSaveSlot, deleteSaveSlot, type SaveSlotSummary } from '@/managers/SaveGameManager';
 import { setGameUIVisibility } from '@/utils/menuVisibility';
 import { getChallengeById, getChallengesInOrder } from '@/config/challenges.config';
 import { LeaderboardSystem } from '@/systems/LeaderboardSystem';
+import { RandomSystem } from '@/systems/RandomSystem';
 import { buildLeaderboardTable } from '@/scenes/LeaderboardScene';
 import { Challenge } from '@/types';
 import aboutText from '../../about.txt?raw';
@@ -27,6 +29,7 @@ function getChallengeDisplayName(id: string): string {
 
 export class MainMenuScene extends Phaser.Scene {
   private menuOverlay: HTMLElement | null = null;
+  private seedInput: HTMLInputElement | null = null;
   private didShutdown: boolean = false;
 
   constructor() {
@@ -64,6 +67,10 @@ export class MainMenuScene extends Phaser.Scene {
     playTab.className = 'main-menu-tab active';
     playTab.textContent = 'Play';
     playTab.type = 'button';
+    const savesTab = document.createElement('button');
+    savesTab.className = 'main-menu-tab';
+    savesTab.textContent = 'Saved Games';
+    savesTab.type = 'button';
     const leaderboardTab = document.createElement('button');
     leaderboardTab.className = 'main-menu-tab';
     leaderboardTab.textContent = 'Leaderboard';
@@ -73,6 +80,7 @@ export class MainMenuScene extends Phaser.Scene {
     aboutTab.textContent = 'About';
     aboutTab.type = 'button';
     tabs.appendChild(playTab);
+    tabs.appendChild(savesTab);
     tabs.appendChild(leaderboardTab);
     tabs.appendChild(aboutTab);
     overlay.appendChild(tabs);
@@ -84,9 +92,16 @@ export class MainMenuScene extends Phaser.Scene {
     const playPanel = document.createElement('div');
     playPanel.id = 'play-tab-panel';
     playPanel.className = 'tab-panel active';
+    playPanel.appendChild(this.buildSeedRow());
     playPanel.appendChild(this.buildPlayCardsGrid());
     body.appendChild(playPanel);
 
+    const savesPanel = document.createElement('div');
+    savesPanel.id = 'saves-tab-panel';
+    savesPanel.className = 'tab-panel';
+    savesPanel.appendChild(this.buildSavesTabContent());
+    body.appendChild(savesPanel);
+
     const leaderboardPanel = document.createElement('div');
     leaderboardPanel.id = 'leaderboard-tab-panel';
     leaderboardPanel.className = 'tab-panel';
@@ -101,19 +116,37 @@ export class MainMenuScene extends Phaser.Scene {
 
     overlay.appendChild(body);
 
-    const allTabs = [playTab, leaderboardTab, aboutTab];
-    const allPanels = [playPanel, leaderboardPanel, aboutPanel];
+    const allTabs = [playTab, savesTab, leaderboardTab, aboutTab];
+    const allPanels = [playPanel, savesPanel, leaderboardPanel, aboutPanel];
     const activateTab = (index: number) => {
       allTabs.forEach((t, i) => t.classList.toggle('active', i === index));
       allPanels.forEach((p, i) => p.classList.toggle('active', i === index));
     };
     playTab.addEventListener('click', () => activateTab(0));
-    leaderboardTab.addEventListener('click', () => activateTab(1));
-    aboutTab.addEventListener('click', () => activateTab(2));
+    savesTab.addEventListener('click', () => activateTab(1));
+    leaderboardTab.addEventListener('click', () => activateTab(2));
+    aboutTab.addEventListener('click', () => activateTab(3));
 
     container.appendChild(overlay);
   }
 
+  private buildSeedRow(): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'play-seed-row';
+    const label = document.createElement('label');
+    label.htmlFor = 'play-seed-input';
+    label.textContent = 'Run seed (optional):';
+    const input = document.createElement('input');
+    input.id = 'play-seed-input';
+    input.type = 'text';
+    input.inputMode = 'numeric';
+    input.placeholder = 'Random';
+    this.seedInput = input;
+    row.appendChild(label);
+    row.appendChild(input);
+    return row;
+  }
+
   private buildPlayCardsGrid(): HTMLElement {
     const grid = document.createElement('div');
     grid.className = 'play-cards-grid';
@@ -193,6 +226,92 @@ export class MainMenuScene extends Phaser.Scene {
     return card;
   }
 
+  private buildSavesTabContent(): HTMLElement {
+    const wrap = document.createElement('div');
+    wrap.id = 'saves-tab-content';
+
+    const title = document.createElement('h2');
+    title.style.cssText = 'color:#fff;margin:0 0 16px 0;font-size:20px;';
+    title.textContent = 'Saved Games';
+    wrap.appendChild(title);
+
+    const listDiv = document.createElement('div');
+    const renderList = () => {
+      listDiv.innerHTML = '';
+      const slots = listSaveSlots();
+      if (slots.length === 0) {
+        const empty = document.createElement('p');
+        empty.style.color = '#888';
+        empty.textContent = 'No saved games yet. Use "Save Game" in the Tools panel during a challenge.';
+        listDiv.appendChild(empty);
+        return;
+      }
+      for (const slot of slots) {
+        listDiv.appendChild(this.buildSaveSlotRow(slot, renderList));
+      }
+    };
+    renderList();
+    wrap.appendChild(listDiv);
+
+    return wrap;
+  }
+
+  private buildSaveSlotRow(slot: SaveSlotSummary, onChange: () => void): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'save-slot-row';
+
+    const info = document.createElement('div');
+    info.className = 'save-slot-info';
+    const name = document.createElement('div');
+    name.className = 'save-slot-name';
+    name.textContent = slot.slotName;
+    const details = document.createElement('div');
+    details.className = 'save-slot-details';
+    const hour24 = Math.floor(slot.gameMinutes / 60);
+    const minute = slot.gameMinutes % 60;
+    const hour12 = hour24 === 0 ? 12 : (hour24 > 12 ? hour24 - 12 : hour24);
+    const clock = `${hour12}:${minute.toString().padStart(2, '0')} ${hour24 < 12 ? 'AM' : 'PM'}`;
+    details.textContent = `${getChallengeDisplayName(slot.challengeId)} \u00b7 Day ${slot.day + 1}, ${clock} \u00b7 $${slot.money.toLocaleString()} \u00b7 saved ${new Date(slot.savedAt).toLocaleString()}`;
+    info.appendChild(name);
+    info.appendChild(details);
+    row.appendChild(info);
+
+    const loadBtn = document.createElement('button');
+    loadBtn.type = 'button';
+    loadBtn.textContent = 'Load';
+    // Saves stay loadable only while their challenge is (dev mode: while the dev gate is on)
+    loadBtn.disabled = slot.isDevMode ? !isDevChallengeEnabled() : !isChallengeUnlocked(slot.challengeId);
+    loadBtn.addEventListener('click', () => this.loadSavedGame(slot));
+    row.appendChild(loadBtn);
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.textContent = 'Delete';
+    deleteBtn.addEventListener('click', () => {
+      if (!window.confirm(`Delete saved game "${slot.slotName}"?`)) return;
+      deleteSaveSlot(slot.slotName);
+      onChange();
+    });
+    row.appendChild(deleteBtn);
+
+    return row;
+  }
+
+  private loadSavedGame(slot: SaveSlotSummary): void {
+    const data = readSaveSlot(slot.slotName);
+    if (!data) return;
+    setGameUIVisibility(true);
+    document.getElementById('main-menu-overlay')?.remove();
+    this.menuOverlay = null;
+    this.scene.start('ChallengeScene', {
+      challengeId: data.challengeId,
+      isDevMode: data.isDevMode,
+      gridWidth: data.gridWidth,
+      gridHeight: data.gridHeight,
+      saveSlot: data.slotName,
+    });
+  }
+
   private buildLeaderboardTabContent(): HTMLElement {
     const wrap = document.createElement('div');
     wrap.id = 'leaderboard-tab-content';
@@ -282,17 +401,18 @@ export class MainMenuScene extends Phaser.Scene {
   private startChallenge(challengeId: string): void {
     const isDevMode = challengeId === 'dev-mode';
     if (isDevMode && !isDevChallengeEnabled()) return;
+    const seed = RandomSystem.parseSeed(this.seedInput?.value) ?? undefined;
     setGameUIVisibility(true);
     // Remove menu overlay immediately so the game canvas is visible (don't rely on shutdown order)
     document.getElementById('main-menu-overlay')?.remove();
     this.menuOverlay = null;
     if (isDevMode) {
-      this.scene.start('DevModeScene', { challengeId: 'dev-mode', isDevMode: true, gridWidth: 10, gridHeight: 10 });
+      this.scene.start('DevModeScene', { challengeId: 'dev-mode', isDevMode: true, gridWidth: 10, gridHeight: 10, seed });
     } else {
       const challenge = getChallengeById(challengeId);
       const gridWidth = challenge?.lotSize?.width ?? 10;
       const gridHeight = challenge?.lotSize?.height ?? 10;
-      this.scene.start('ChallengeScene', { challengeId, gridWidth, gridHeight });
+      this.scene.start('ChallengeScene', { challengeId, gridWidth, gridHeight, seed });
     }
   }
 
@@ -303,6 +423,7 @@ export class MainMenuScene extends Phaser.Scene {
     this.events.off(Phaser.Scenes.Events.DESTROY, this.shutdown, this);
     document.getElementById('main-menu-overlay')?.remove();
     this.menuOverlay = null;
+    this.seedInput = null;
     setGameUIVisibility(true);
   }
 }
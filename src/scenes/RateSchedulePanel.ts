@@ -0,0 +1,124 @@
+/**
+ * RateSchedulePanel - DOM helpers for the meter and booth pricing controls in Selection Info.
+ * Each rate schedule is a list of time windows (start, end, rate) that override the base rate,
+ * and each billing policy is a set of stay-pricing fields; edits are written straight to ParkingTimerSystem.
+ */
+
+import { ParkingTimerSystem, type PaymentType, type RateWindow } from '@/systems/ParkingTimerSystem';
+import type { BillingPolicy } from '@/types';
+
+const INPUT_STYLE = 'background-color: #3a3a3a; color: #fff; border: 1px solid #555; border-radius: 3px; padding: 2px 4px; font-size: 12px; box-sizing: border-box;';
+
+function toTimeValue(gameMinutes: number): string {
+  return `${Math.floor(gameMinutes / 60).toString().padStart(2, '0')}:${(gameMinutes % 60).toString().padStart(2, '0')}`;
+}
+
+function fromTimeValue(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/** Billing policy inputs, in display order; validation is shown as a percentage */
+const POLICY_FIELDS: Array<{ key: keyof BillingPolicy; label: string; title: string }> = [
+  { key: 'gracePeriodMinutes', label: 'Free min', title: 'Free minutes at the start of each stay' },
+  { key: 'dailyMaxCharge', label: 'Daily max $', title: 'Most a stay is charged per 24 hours (0 = no cap)' },
+  { key: 'flatRate', label: 'Flat $', title: 'One price per stay, whatever its length (0 = off)' },
+  { key: 'overnightRate', label: 'Overnight $', title: 'Price per night for stays past midnight (0 = off)' },
+  { key: 'validationDiscount', label: 'Validation %', title: 'Discount for parkers who visited a destination' },
+];
+
+/** Read the windows back out of the rendered rows */
+function readRows(container: HTMLElement): RateWindow[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('.rate-window-row')).map(row => ({
+    startGameMinutes: fromTimeValue(row.querySelector<HTMLInputElement>('.rate-window-start')?.value ?? ''),
+    endGameMinutes: fromTimeValue(row.querySelector<HTMLInputElement>('.rate-window-end')?.value ?? ''),
+    rate: parseFloat(row.querySelector<HTMLInputElement>('.rate-window-rate')?.value ?? '') || 1,
+  }));
+}
+
+/**
+ * Render a payment type's schedule editor into a container: one row per window plus an add button
+ *
+ * @param container - Element to fill (its contents are replaced)
+ * @param paymentType - Which rate the schedule overrides
+ * @param title - Heading, e.g. "Meter Schedule ($ per 15 min)"
+ */
+export function renderRateScheduleEditor(container: HTMLElement, paymentType: PaymentType, title: string): void {
+  const parkingTimer = ParkingTimerSystem.getInstance();
+  const schedule = parkingTimer.getRateSchedule(paymentType);
+  const rows = schedule.map(w => `
+    <div class="rate-window-row" style="display: flex; gap: 4px; align-items: center; margin-bottom: 4px;">
+      <input type="time" step="900" class="rate-window-start" value="${toTimeValue(w.startGameMinutes)}" style="${INPUT_STYLE} flex: 1; min-width: 0;">
+      <span style="color: #888;">–</span>
+      <input type="time" step="900" class="rate-window-end" value="${toTimeValue(w.endGameMinutes)}" style="${INPUT_STYLE} flex: 1; min-width: 0;">
+      <span style="color: #888;">$</span>
+      <input type="number" min="1" step="1" class="rate-window-rate" value="${w.rate}" style="${INPUT_STYLE} width: 44px;">
+      <button class="rate-window-remove" title="Remove window" style="${INPUT_STYLE} cursor: pointer;">✕</button>
+    </div>
+  `).join('');
+  container.innerHTML = `
+    <div style="color: #fff; font-size: 13px; margin: 12px 0 5px;">${title}</div>
+    ${rows || '<div style="color: #666; font-size: 12px; font-style: italic; margin-bottom: 4px;">Base rate all day</div>'}
+    <button class="rate-window-add action-button" style="width: 100%; padding: 4px; font-size: 12px;">+ Add Time Window</button>
+  `;
+
+  const save = () => parkingTimer.setRateSchedule(paymentType, readRows(container));
+  container.querySelectorAll<HTMLInputElement>('input').forEach(input => {
+    input.addEventListener('change', () => {
+      save();
+      renderRateScheduleEditor(container, paymentType, title);
+    });
+  });
+  container.querySelectorAll<HTMLButtonElement>('.rate-window-remove').forEach((button, i) => {
+    button.addEventListener('click', () => {
+      parkingTimer.setRateSchedule(paymentType, schedule.filter((_, j) => j !== i));
+      renderRateScheduleEditor(container, paymentType, title);
+    });
+  });
+  container.querySelector<HTMLButtonElement>('.rate-window-add')?.addEventListener('click', () => {
+    // New windows start where the last one ends, two hours long, $1 over the base rate
+    const start = schedule.length > 0 ? schedule[schedule.length - 1].endGameMinutes : 8 * 60;
+    const baseRate = paymentType === 'meter' ? parkingTimer.getMeterParkingRate() : parkingTimer.getBoothParkingRate();
+    parkingTimer.setRateSchedule(paymentType, [
+      ...schedule,
+      { startGameMinutes: start, endGameMinutes: (start + 120) % 1440, rate: baseRate + 1 },
+    ]);
+    renderRateScheduleEditor(container, paymentType, title);
+  });
+}
+
+/**
+ * Render a payment type's billing policy inputs into a container
+ *
+ * @param container - Element to fill (its contents are replaced)
+ * @param paymentType - Which payment the policy prices
+ * @param title - Heading, e.g. "Booth Billing:"
+ */
+export function renderBillingPolicyEditor(container: HTMLElement, paymentType: PaymentType, title: string): void {
+  const parkingTimer = ParkingTimerSystem.getInstance();
+  const policy = parkingTimer.getBillingPolicy(paymentType);
+  const displayValue = (key: keyof BillingPolicy) =>
+    key === 'validationDiscount' ? Math.round(policy[key] * 100) : policy[key];
+  container.innerHTML = `
+    <div style="color: #fff; font-size: 13px; margin: 12px 0 5px;">${title}</div>
+    <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 4px 8px;">
+      ${POLICY_FIELDS.map(field => `
+        <label title="${field.title}" style="display: flex; justify-content: space-between; align-items: center; gap: 4px; color: #ccc; font-size: 12px;">
+          ${field.label}
+          <input type="number" min="0" ${field.key === 'validationDiscount' ? 'max="100"' : ''} step="1" data-policy-key="${field.key}" value="${displayValue(field.key)}" style="${INPUT_STYLE} width: 48px;">
+        </label>
+      `).join('')}
+    </div>
+  `;
+  container.querySelectorAll<HTMLInputElement>('input[data-policy-key]').forEach(input => {
+    input.addEventListener('change', () => {
+      const key = input.dataset.policyKey as keyof BillingPolicy;
+      const value = parseFloat(input.value) || 0;
+      parkingTimer.setBillingPolicy(paymentType, {
+        ...parkingTimer.getBillingPolicy(paymentType),
+        [key]: key === 'validationDiscount' ? value / 100 : value,
+      });
+      renderBillingPolicyEditor(container, paymentType, title);
+    });
+  });
+}
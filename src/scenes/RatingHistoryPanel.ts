@@ -0,0 +1,170 @@
+/**
+ * RatingHistoryPanel - DOM helpers for the Rating History section of the right sidebar.
+ * Draws the RatingSystem history (hourly samples and each 11:59 PM finalization) as a line chart of the
+ * last week with day boundaries marked, and exports the full history as CSV.
+ * Re-renders only when a sample is added or the day changes.
+ */
+
+import { GameSystems } from '@/core/GameSystems';
+import { getRatingComponents, getMaxRatingPoints } from '@/config/rating.config';
+import type { RatingHistoryEntry } from '@/systems/RatingSystem';
+
+const PANEL_ID = 'rating-history-panel';
+const CHART_DAYS = 7;
+const CHART_WIDTH = 190;
+const CHART_HEIGHT = 80;
+const TOTAL_COLOR = 'rgba(255, 138, 101, 1)';
+const COMPONENT_COLORS = ['#81c784', '#64b5f6', '#ffd54f', '#ba68c8', '#4dd0e1'];
+
+/** History length, last sample and day last rendered, so unchanged frames skip the DOM work */
+let renderedKey = '';
+
+function formatTime(minute: number): string {
+  return `${Math.floor(minute / 60).toString().padStart(2, '0')}:${(minute % 60).toString().padStart(2, '0')}`;
+}
+
+/** Game minutes since the start of day 0, for the chart's x axis */
+function toAbsoluteMinute(entry: { day: number; minute: number }): number {
+  return entry.day * 1440 + entry.minute;
+}
+
+/**
+ * Rating history as CSV: one row per sample, 1-based days, component points by component id
+ */
+function formatHistoryCsv(history: readonly RatingHistoryEntry[]): string {
+  const componentIds = [...new Set(history.flatMap(entry => Object.keys(entry.components)))];
+  const rows = history.map(entry => [
+    entry.day + 1,
+    formatTime(entry.minute),
+    entry.finalized ? 'yes' : 'no',
+    entry.total.toFixed(2),
+    ...componentIds.map(id => entry.components[id]?.toFixed(2) ?? ''),
+  ].join(','));
+  return [['day', 'time', 'finalized', 'total', ...componentIds].join(','), ...rows].join('\n');
+}
+
+function exportHistoryCsv(): void {
+  const blob = new Blob([formatHistoryCsv(GameSystems.rating.getHistory())], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rating-history-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Add the Rating History section to the right panel, below Finance (once per page)
+ */
+export function initializeRatingHistoryPanel(): void {
+  renderedKey = '';
+  if (document.getElementById(PANEL_ID)) return;
+  const rightPanel = document.getElementById('right-panel');
+  if (!rightPanel) return;
+
+  const panel = document.createElement('div');
+  panel.id = PANEL_ID;
+  panel.innerHTML = `
+    <div class="section-title" style="margin-top: 0; margin-bottom: 10px; display: flex; justify-content: space-between; align-items: center;">
+      Rating History
+      <button id="rating-history-export" class="action-button" style="padding: 2px 8px; font-size: 11px;" title="Download every rating sample as a CSV file">Export CSV</button>
+    </div>
+    <div id="rating-history-chart" style="
+      background: #1a1a1a;
+      border: 1px solid #3a3a3a;
+      border-radius: 4px;
+      padding: 6px;
+      margin-bottom: 6px;
+    "></div>
+    <div id="rating-history-legend" style="display: flex; flex-wrap: wrap; gap: 4px 10px; font-size: 10px; color: #888; margin-bottom: 15px;"></div>
+  `;
+  const financePanel = document.getElementById('finance-panel') ?? document.getElementById('messages-panel');
+  rightPanel.insertBefore(panel, financePanel ? financePanel.nextSibling : rightPanel.firstChild);
+
+  document.getElementById('rating-history-export')?.addEventListener('click', exportHistoryCsv);
+}
+
+function renderChart(chartEl: HTMLElement, history: readonly RatingHistoryEntry[]): void {
+  const time = GameSystems.time;
+  const now = toAbsoluteMinute({ day: time.getCurrentDay(), minute: time.getTotalMinutes() });
+  const windowStart = (time.getCurrentDay() - CHART_DAYS + 1) * 1440;
+  const samples = history.filter(entry => toAbsoluteMinute(entry) >= windowStart);
+  if (samples.length === 0) {
+    chartEl.innerHTML = '<div style="color: #666; font-size: 11px; font-style: italic; padding: 4px 0;">No rating samples yet...</div>';
+    return;
+  }
+
+  const xMin = toAbsoluteMinute(samples[0]);
+  const xMax = Math.max(xMin + 60, now);
+  const maxPoints = Math.max(1, getMaxRatingPoints());
+  const x = (minute: number) => ((minute - xMin) / (xMax - xMin)) * CHART_WIDTH;
+  const y = (share: number) => CHART_HEIGHT - Math.min(1, Math.max(0, share)) * CHART_HEIGHT;
+  const line = (share: (entry: RatingHistoryEntry) => number | undefined, color: string, width: number) => {
+    const points = samples
+      .filter(entry => share(entry) !== undefined)
+      .map(entry => `${x(toAbsoluteMinute(entry)).toFixed(1)},${y(share(entry)!).toFixed(1)}`)
+      .join(' ');
+    return `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="${width}" />`;
+  };
+
+  // Components are drawn as a share of their own max so small ones stay readable
+  const componentLines = getRatingComponents().map((component, i) => line(
+    entry => entry.components[component.id] === undefined ? undefined : entry.components[component.id] / Math.max(1, component.maxPoints),
+    COMPONENT_COLORS[i % COMPONENT_COLORS.length],
+    1
+  ));
+  const dayBoundaries: string[] = [];
+  for (let day = Math.ceil(xMin / 1440); day * 1440 <= xMax; day++) {
+    if (day * 1440 <= xMin) continue;
+    const dayX = x(day * 1440).toFixed(1);
+    dayBoundaries.push(`
+      <line x1="${dayX}" y1="0" x2="${dayX}" y2="${CHART_HEIGHT}" stroke="#555" stroke-dasharray="3,3" />
+      <text x="${dayX}" y="9" dx="2" fill="#888" font-size="8">D${day + 1}</text>
+    `);
+  }
+  const finalizedMarks = samples.filter(entry => entry.finalized).map(entry => `
+    <circle cx="${x(toAbsoluteMinute(entry)).toFixed(1)}" cy="${y(entry.total / maxPoints).toFixed(1)}" r="2.5" fill="${TOTAL_COLOR}">
+      <title>Day ${entry.day + 1} rating: ${Math.floor(entry.total)}</title>
+    </circle>
+  `);
+  const latest = samples[samples.length - 1];
+
+  chartEl.innerHTML = `
+    <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" style="display: block; width: 100%; overflow: visible;">
+      <title>Latest: ${Math.floor(latest.total)} on day ${latest.day + 1} at ${formatTime(latest.minute)}</title>
+      <line x1="0" y1="${y(0.5)}" x2="${CHART_WIDTH}" y2="${y(0.5)}" stroke="#2f2f2f" />
+      ${dayBoundaries.join('')}
+      ${componentLines.join('')}
+      ${line(entry => entry.total / maxPoints, TOTAL_COLOR, 2)}
+      ${finalizedMarks.join('')}
+    </svg>
+  `;
+}
+
+function renderLegend(legendEl: HTMLElement): void {
+  const entries = [
+    `<span><span style="color: ${TOTAL_COLOR};">■</span> Rating (0–${getMaxRatingPoints()})</span>`,
+    ...getRatingComponents().map((component, i) =>
+      `<span title="Share of its ${component.maxPoints} points"><span style="color: ${COMPONENT_COLORS[i % COMPONENT_COLORS.length]};">■</span> ${component.label} %</span>`
+    ),
+  ];
+  legendEl.innerHTML = entries.join('');
+}
+
+/**
+ * Refresh the chart and legend if a rating sample was added or the day changed
+ */
+export function updateRatingHistoryPanel(): void {
+  const chartEl = document.getElementById('rating-history-chart');
+  const legendEl = document.getElementById('rating-history-legend');
+  if (!chartEl || !legendEl) return;
+  const history = GameSystems.rating.getHistory();
+  const latest = history[history.length - 1];
+  const key = `${history.length}:${latest ? toAbsoluteMinute(latest) : -1}:${latest?.total ?? 0}:${GameSystems.time.getCurrentDay()}`;
+  if (key === renderedKey) return;
+  renderedKey = key;
+  renderChart(chartEl, history);
+  renderLegend(legendEl);
+}
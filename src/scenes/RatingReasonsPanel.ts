@@ -0,0 +1,105 @@
+/**
+ * RatingReasonsPanel - DOM helpers for the "Why is my rating low?" section of the right sidebar.
+ * Ranks what is costing rating points: parker score losses by reason (RatingSystem reason totals,
+ * converted to rating points through the parker component) and cell components short of their max.
+ * Re-renders only when the ranking changes.
+ */
+
+import type { GridManager } from '@/core/GridManager';
+import { GameSystems } from '@/core/GameSystems';
+import { PARKER_FULL_SCORE, getRatingComponents } from '@/config/rating.config';
+import { getRatingReasonLabel } from '@/systems/RatingSystem';
+
+const PANEL_ID = 'rating-reasons-panel';
+const MAX_ROWS = 5;
+
+/** HTML last rendered, so unchanged frames skip the DOM work */
+let renderedHtml = '';
+
+interface RatingCost {
+  text: string;
+  /** Rating points lost (positive) */
+  cost: number;
+  title: string;
+}
+
+/**
+ * Add the "Why is my rating low?" section to the right panel, below Rating History (once per page)
+ */
+export function initializeRatingReasonsPanel(): void {
+  renderedHtml = '';
+  if (document.getElementById(PANEL_ID)) return;
+  const rightPanel = document.getElementById('right-panel');
+  if (!rightPanel) return;
+
+  const panel = document.createElement('div');
+  panel.id = PANEL_ID;
+  panel.innerHTML = `
+    <div class="section-title" style="margin-top: 0; margin-bottom: 10px;">Why is my rating low?</div>
+    <div id="rating-reasons-list" style="
+      background: #1a1a1a;
+      border: 1px solid #3a3a3a;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 15px;
+      font-size: 11px;
+      line-height: 1.4;
+    "></div>
+  `;
+  const previousPanel = document.getElementById('rating-history-panel') ?? document.getElementById('finance-panel');
+  rightPanel.insertBefore(panel, previousPanel ? previousPanel.nextSibling : rightPanel.firstChild);
+}
+
+/**
+ * Everything costing rating points, most costly first
+ */
+function getRatingCosts(gridManager: GridManager, gridWidth: number, gridHeight: number): RatingCost[] {
+  const costs: RatingCost[] = [];
+  const components = GameSystems.rating.getComponentRatings(gridManager, gridWidth, gridHeight).components;
+
+  // A parker reason costs its share of the average parker score, scaled to the parker components' points
+  const parkerMaxPoints = components.filter(c => c.source === 'parker').reduce((sum, c) => sum + c.maxPoints, 0);
+  const { parkerCount, reasons } = GameSystems.rating.getReasonSummary();
+  if (parkerCount > 0 && parkerMaxPoints > 0) {
+    for (const total of reasons) {
+      if (total.points >= 0) continue;
+      costs.push({
+        text: `${total.parkers} parker${total.parkers === 1 ? '' : 's'} lost points for ${getRatingReasonLabel(total.reason)}`,
+        cost: (-total.points / parkerCount) * (parkerMaxPoints / PARKER_FULL_SCORE),
+        title: `${Math.round(-total.points)} parker score points across ${parkerCount} parkers`,
+      });
+    }
+  }
+
+  for (const component of components) {
+    if (component.source === 'parker' || component.points >= component.maxPoints) continue;
+    const coverage = getRatingComponents().find(c => c.id === component.id)?.coverage?.mode ?? 'boolean';
+    costs.push({
+      text: `${component.label} coverage is ${Math.floor(component.points)}/${component.maxPoints}`,
+      cost: component.maxPoints - component.points,
+      title: `Cover more of the lot to raise ${component.label.toLowerCase()} (${coverage} coverage)`,
+    });
+  }
+
+  return costs.sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Refresh the ranking if it changed
+ */
+export function updateRatingReasonsPanel(gridManager: GridManager, gridWidth: number, gridHeight: number): void {
+  const listEl = document.getElementById('rating-reasons-list');
+  if (!listEl) return;
+  const costs = getRatingCosts(gridManager, gridWidth, gridHeight).filter(c => c.cost >= 0.05).slice(0, MAX_ROWS);
+  const html = costs.length === 0
+    ? '<div style="color: #666; font-style: italic;">Nothing is costing you points yet...</div>'
+    : costs.map(c => `
+      <div title="${c.title}" style="display: flex; justify-content: space-between; gap: 8px; margin-bottom: 4px;">
+        <span style="color: #ddd;">${c.text}</span>
+        <span style="color: #e57373; font-weight: bold; white-space: nowrap;">-${c.cost.toFixed(1)}</span>
+      </div>
+    `).join('');
+  if (html === renderedHtml) return;
+  renderedHtml = html;
+  listEl.innerHTML = html;
+}
@@ -1,37 +1,22 @@
 import { GridManager } from '@/core/GridManager';
-import { Ploppable, CellData } from '@/types';
-import { PloppableManager } from './PloppableManager';
+import { Ploppable, CellData, RatingCoverage } from '@/types';
+import { getSecondCellForTwoTile } from '@/utils/ploppableFootprint';
+import { getPlayableCellCoverage } from '@/config/rating.config';
+import { getPloppableDefinition, type PloppableAoE } from '@/config/ploppables.config';
 
 /**
  * AppealSystem - Singleton that manages cell appeal values
  * 
  * Tracks appeal values per cell and calculates area-of-effect (AoE) when ploppables are placed/removed.
- * Appeal contributes 15 points to the overall lot rating if average appeal > 0, otherwise 0.
+ * Each ploppable type's AoE is its `appeal` entry in the ploppable registry; litter
+ * (MaintenanceSystem) applies a small negative AoE per piece.
+ * Appeal coverage feeds the appeal rating component (15 points by default; see rating.config.ts).
  */
 export class AppealSystem {
   private static instance: AppealSystem;
   
-  /**
-   * Ploppable AoE configuration
-   * appealDelta: change in appeal value (+1 or -1)
-   * radius: radius in cells
-   * shape: 'circular' (isometric distance) or 'square' (Chebyshev distance)
-   * isTwoTile: true if ploppable spans 2 cells (like Dumpster)
-   */
-  private readonly ploppableConfigs: Record<string, {
-    appealDelta: number;
-    radius: number;
-    shape: 'circular' | 'square';
-    isTwoTile?: boolean;
-  }> = {
-    'Tree': { appealDelta: 1, radius: 3, shape: 'circular' },
-    'Shrub': { appealDelta: 1, radius: 2, shape: 'circular' },
-    'Flower Patch': { appealDelta: 1, radius: 1, shape: 'square' },
-    'Dumpster': { appealDelta: -1, radius: 3, shape: 'circular' },
-    'Trash Can': { appealDelta: -1, radius: 2, shape: 'circular' },
-    'Portable Toilet': { appealDelta: -1, radius: 2, shape: 'circular' },
-    'Bench': { appealDelta: 1, radius: 1, shape: 'circular' },
-  };
+  /** Appeal AoE of each piece of litter on a cell */
+  private static readonly LITTER_APPEAL: PloppableAoE = { delta: -1, radius: 1, shape: 'circular' };
   
   private constructor() {}
   
@@ -112,20 +97,21 @@ export class AppealSystem {
     gridHeight: number,
     isRemoval: boolean
   ): void {
-    const config = this.ploppableConfigs[ploppable.type];
+    const definition = getPloppableDefinition(ploppable.type);
+    const config = definition?.appeal;
     if (!config) {
       return; // Ploppable doesn't affect appeal
     }
     
-    const delta = isRemoval ? -config.appealDelta : config.appealDelta;
+    const delta = isRemoval ? -config.delta : config.delta;
     
     // Get all cells that should be affected
     const affectedCells: { x: number; y: number }[] = [];
     
     // For 2-tile ploppables, apply AoE from both cell centers
-    if (config.isTwoTile) {
+    if (definition.size === 2) {
       const primaryCell = { x: ploppable.x, y: ploppable.y };
-      const secondCell = PloppableManager.getSecondCellForTwoTile(
+      const secondCell = getSecondCellForTwoTile(
         ploppable.x,
         ploppable.y,
         ploppable.orientation ?? 0,
@@ -171,6 +157,28 @@ export class AppealSystem {
     }
   }
   
+  /**
+   * Apply (or reverse) the appeal AoE of one piece of litter on a cell
+   */
+  applyLitterAoE(
+    x: number,
+    y: number,
+    gridManager: GridManager,
+    gridWidth: number,
+    gridHeight: number,
+    isRemoval: boolean
+  ): void {
+    const config = AppealSystem.LITTER_APPEAL;
+    const delta = isRemoval ? -config.delta : config.delta;
+    for (let cellY = 0; cellY < gridHeight; cellY++) {
+      for (let cellX = 0; cellX < gridWidth; cellX++) {
+        if (this.isCellInRange(cellX, cellY, x, y, config.radius, config.shape)) {
+          this.updateCellAppeal(gridManager, cellX, cellY, delta);
+        }
+      }
+    }
+  }
+  
   /**
    * Get average appeal across all cells
    */
@@ -191,36 +199,11 @@ export class AppealSystem {
   }
   
   /**
-   * Get appeal contribution to rating (0-15 points)
-   * Calculation:
-   * 1. Each non-permanent cell with positive appeal = 1, 0 or negative = 0 (boolean conversion)
-   * 2. Sum all boolean values
-   * 3. Divide by total number of non-permanent cells (percentage of playable cells with positive appeal)
-   * 4. Multiply by 15
-   * Permanent tiles are excluded since players cannot plop on them.
+   * Get appeal coverage for a rating component (0-1): the share of playable cells with positive appeal,
+   * under the component's coverage function (rating.config.ts)
    */
-  getAppealContribution(gridManager: GridManager, gridWidth: number, gridHeight: number): number {
-    let positiveCellCount = 0;
-    let totalCells = 0;
-    
-    for (let y = 0; y < gridHeight; y++) {
-      for (let x = 0; x < gridWidth; x++) {
-        const cellData = gridManager.getCellData(x, y);
-        if (cellData?.isPermanent) continue;
-        const appeal = cellData?.appeal ?? 0;
-        if (appeal > 0) {
-          positiveCellCount++;
-        }
-        totalCells++;
-      }
-    }
-    
-    if (totalCells === 0) {
-      return 0;
-    }
-    
-    const percentage = positiveCellCount / totalCells;
-    return percentage * 15;
+  getAppealCoverage(gridManager: GridManager, gridWidth: number, gridHeight: number, coverage?: RatingCoverage): number {
+    return getPlayableCellCoverage(gridManager, gridWidth, gridHeight, cellData => cellData?.appeal ?? 0, coverage);
   }
   
   /**
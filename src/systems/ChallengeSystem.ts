@@ -1,4 +1,6 @@
 import { Challenge } from '@/types';
+import { GridManager } from '@/core/GridManager';
+import { GameSystems } from '@/core/GameSystems';
 
 export interface ChallengeMetrics {
   profit?: number;
@@ -57,6 +59,46 @@ export class ChallengeSystem {
     }
   }
 
+  /**
+   * Gather the metrics win conditions are evaluated against from the live game systems.
+   * Profit is measured against the challenge's starting budget, net of outstanding loans and
+   * unpaid upkeep.
+   */
+  static gatherMetrics(
+    gridManager: GridManager,
+    gridWidth: number,
+    gridHeight: number,
+    initialBudget: number
+  ): ChallengeMetrics {
+    const profit = GameSystems.economy.getMoney() - GameSystems.loans.getDebt() - GameSystems.economy.getUpkeepArrears() - initialBudget;
+    const components = GameSystems.rating.getComponentRatings(gridManager, gridWidth, gridHeight);
+    const rating = Math.floor(components.total);
+    const currentDay = GameSystems.time.getCurrentDay();
+    const parkingSpots = gridManager.getParkingSpots();
+    const ploppableCountByType: Record<string, number> = {};
+    for (let x = 0; x < gridWidth; x++) {
+      for (let y = 0; y < gridHeight; y++) {
+        const cellData = gridManager.getCellData(x, y);
+        const p = cellData?.ploppable;
+        if (p && p.x === x && p.y === y) {
+          ploppableCountByType[p.type] = (ploppableCountByType[p.type] ?? 0) + 1;
+          if (p.addOns) {
+            for (const addOn of p.addOns) {
+              ploppableCountByType[addOn] = (ploppableCountByType[addOn] ?? 0) + 1;
+            }
+          }
+        }
+      }
+    }
+    return {
+      profit,
+      rating,
+      currentDay,
+      parkingSpotCount: parkingSpots.length,
+      ploppableCountByType,
+    };
+  }
+
   getChallenge(): Challenge {
     return this.challenge;
   }
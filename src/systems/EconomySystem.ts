@@ -1,13 +1,98 @@
+import { GridManager } from '@/core/GridManager';
+import { getPloppableDefinition } from '@/config/ploppables.config';
+import { TimeSystem } from './TimeSystem';
+import { MessageSystem } from './MessageSystem';
+
+/** What money moved for; income statement lines group the ledger by these */
+export type LedgerCategory = 'construction' | 'meter' | 'booth' | 'upkeep' | 'servicing' | 'loan' | 'interest';
+
+/** Categories that count as revenue in the finance history */
+export const REVENUE_CATEGORIES: LedgerCategory[] = ['meter', 'booth'];
+
+/** Income statement line labels, in statement order */
+export const LEDGER_CATEGORY_LABELS: Record<LedgerCategory, string> = {
+  construction: 'Construction',
+  meter: 'Meter fees',
+  booth: 'Booth fees',
+  upkeep: 'Upkeep',
+  servicing: 'Servicing',
+  loan: 'Loans',
+  interest: 'Interest',
+};
+
+/** Optional context for a transaction */
+export interface LedgerDetails {
+  /** Ploppable or vehicle id the money moved for */
+  sourceId?: string;
+  /** Short description, e.g. "Street Light" or "Undo" */
+  label?: string;
+  /** Date the entry to this day's close (11:59 PM) instead of now */
+  day?: number;
+}
+
+/** One transaction */
+export interface LedgerEntry {
+  /** Game day (TimeSystem) the money moved on */
+  day: number;
+  /** Game minute of the day (0-1439) */
+  minute: number;
+  category: LedgerCategory;
+  /** Positive = money in, negative = money out */
+  amount: number;
+  sourceId?: string;
+  label?: string;
+}
+
+/** One day's ledger totals */
+export interface IncomeStatement {
+  day: number;
+  /** Net amount per category (positive = income) */
+  lines: Record<LedgerCategory, number>;
+  net: number;
+}
+
+/**
+ * Revenue (parking fees) in a statement
+ */
+export function getStatementRevenue(statement: IncomeStatement): number {
+  return REVENUE_CATEGORIES.reduce((sum, category) => sum + statement.lines[category], 0);
+}
+
+function emptyStatementLines(): Record<LedgerCategory, number> {
+  return { construction: 0, meter: 0, booth: 0, upkeep: 0, servicing: 0, loan: 0, interest: 0 };
+}
+
+/**
+ * Serializable economy state for save games (money is saved separately)
+ */
+export interface EconomySaveState {
+  ledger: LedgerEntry[];
+  lastClosedDay: number;
+  /** Absent in saves written before unpaid upkeep carried over */
+  upkeepArrears?: number;
+}
+
 /**
  * EconomySystem - Singleton that manages game budget/money
  * 
  * Tracks player's money:
  * - Decrements when ploppables are placed
  * - Increments when parking fees are collected (via ParkingTimerSystem)
+ * - Decrements by each ploppable's daily `upkeep` when the day closes at 11:59 PM; what the budget
+ *   can't cover is owed and charged first when the next day closes
+ *
+ * Every change is recorded in a categorized ledger, which the income statements sum per day.
  */
 export class EconomySystem {
   private static instance: EconomySystem;
   private money: number = 0;
+  private ledger: LedgerEntry[] = [];
+  /** Running per-day totals of the ledger, so the statement UI doesn't re-sum it every frame */
+  private statementsByDay: Map<number, IncomeStatement> = new Map();
+  /** Last day whose upkeep was charged (-1 = none yet) */
+  private lastClosedDay: number = -1;
+  /** Upkeep the budget couldn't cover, charged first when the next day closes */
+  private upkeepArrears: number = 0;
   
   private constructor() {}
   
@@ -39,11 +124,14 @@ export class EconomySystem {
    * Spend money on a purchase
    * 
    * @param amount - Amount to spend
+   * @param category - Ledger category
+   * @param details - Source id and label for the ledger
    * @returns true if successful, false if insufficient funds
    */
-  spend(amount: number): boolean {
+  spend(amount: number, category: LedgerCategory, details: LedgerDetails = {}): boolean {
     if (this.canAfford(amount)) {
       this.money -= amount;
+      this.record(category, -amount, details);
       return true;
     }
     return false;
@@ -53,9 +141,163 @@ export class EconomySystem {
    * Earn money (from parking fees, etc.)
    * 
    * @param amount - Amount to add
+   * @param category - Ledger category
+   * @param details - Source id and label for the ledger
    */
-  earn(amount: number): void {
+  earn(amount: number, category: LedgerCategory, details: LedgerDetails = {}): void {
     this.money += amount;
+    this.record(category, amount, details);
+  }
+  
+  private record(category: LedgerCategory, amount: number, details: LedgerDetails): void {
+    if (amount === 0) return;
+    const time = TimeSystem.getInstance();
+    const entry: LedgerEntry = details.day === undefined
+      ? { day: time.getCurrentDay(), minute: time.getTotalMinutes(), category, amount }
+      : { day: details.day, minute: 1439, category, amount };
+    if (details.sourceId) entry.sourceId = details.sourceId;
+    if (details.label) entry.label = details.label;
+    this.ledger.push(entry);
+    this.addToStatement(entry);
+  }
+  
+  private addToStatement(entry: LedgerEntry): void {
+    let statement = this.statementsByDay.get(entry.day);
+    if (!statement) {
+      statement = { day: entry.day, lines: emptyStatementLines(), net: 0 };
+      this.statementsByDay.set(entry.day, statement);
+    }
+    statement.lines[entry.category] += entry.amount;
+    statement.net += entry.amount;
+  }
+  
+  /**
+   * All ledger entries, oldest first
+   */
+  getLedger(): readonly LedgerEntry[] {
+    return this.ledger;
+  }
+  
+  /**
+   * The latest transactions, newest first
+   */
+  getRecentTransactions(count: number): LedgerEntry[] {
+    return this.ledger.slice(-count).reverse();
+  }
+  
+  /**
+   * Net amount per category over a range of days (inclusive; defaults to the whole run)
+   */
+  getTotalsByCategory(fromDay: number = 0, toDay: number = Infinity): Record<LedgerCategory, number> {
+    const totals = emptyStatementLines();
+    for (const [day, statement] of this.statementsByDay) {
+      if (day < fromDay || day > toDay) continue;
+      for (const category of Object.keys(totals) as LedgerCategory[]) {
+        totals[category] += statement.lines[category];
+      }
+    }
+    return totals;
+  }
+  
+  /**
+   * One income statement per day from day 0 through the current day (days with no
+   * transactions are all zero)
+   */
+  getDailyTotals(): IncomeStatement[] {
+    const lastDay = Math.max(TimeSystem.getInstance().getCurrentDay(), ...this.statementsByDay.keys());
+    const statements: IncomeStatement[] = [];
+    for (let day = 0; day <= lastDay; day++) {
+      statements.push(this.getIncomeStatement(day));
+    }
+    return statements;
+  }
+  
+  /**
+   * A day's ledger entries summed by category (all zero for a day with no entries)
+   */
+  getIncomeStatement(day: number): IncomeStatement {
+    const statement = this.statementsByDay.get(day);
+    if (!statement) {
+      return { day, lines: emptyStatementLines(), net: 0 };
+    }
+    return { day, lines: { ...statement.lines }, net: statement.net };
+  }
+  
+  /**
+   * Daily upkeep of each ploppable on the grid; add-ons such as Security Cameras are listed
+   * separately under their host ploppable's id. Ploppables that came with the challenge's
+   * starting lot, or sit on permanent cells, cost nothing
+   */
+  getDailyUpkeep(gridManager: GridManager, gridWidth: number, gridHeight: number): Array<{ sourceId: string; type: string; cost: number }> {
+    const upkeep: Array<{ sourceId: string; type: string; cost: number }> = [];
+    for (let y = 0; y < gridHeight; y++) {
+      for (let x = 0; x < gridWidth; x++) {
+        const cellData = gridManager.getCellData(x, y);
+        const ploppable = cellData?.ploppable;
+        // 2-tile ploppables are counted on their primary cell only
+        if (!ploppable || ploppable.x !== x || ploppable.y !== y) continue;
+        // The player didn't build the starting lot's fixtures, and can't remove permanent ones
+        if (ploppable.preplaced || cellData.isPermanent) continue;
+        for (const type of [ploppable.type, ...(ploppable.addOns ?? [])]) {
+          const cost = getPloppableDefinition(type)?.upkeep;
+          if (cost) upkeep.push({ sourceId: ploppable.id, type, cost });
+        }
+      }
+    }
+    return upkeep;
+  }
+  
+  /**
+   * Close a day at 11:59 PM: charge upkeep still owed from earlier days, as much as the budget
+   * covers, then every ploppable's upkeep, and post the day's income statement. Upkeep the budget
+   * can't cover is owed (never taking money below zero). Does nothing for a day that is already closed.
+   */
+  closeDay(day: number, gridManager: GridManager, gridWidth: number, gridHeight: number): void {
+    if (day <= this.lastClosedDay) return;
+    this.lastClosedDay = day;
+    const arrearsPaid = Math.min(this.upkeepArrears, Math.max(0, this.money));
+    if (arrearsPaid > 0 && this.spend(arrearsPaid, 'upkeep', { label: 'Unpaid upkeep', day })) {
+      this.upkeepArrears -= arrearsPaid;
+    }
+    let unpaidCount = 0;
+    for (const { sourceId, type, cost } of this.getDailyUpkeep(gridManager, gridWidth, gridHeight)) {
+      const label = getPloppableDefinition(type)?.displayName || type;
+      if (!this.spend(cost, 'upkeep', { sourceId, label, day })) {
+        unpaidCount++;
+        this.upkeepArrears += cost;
+      }
+    }
+    if (unpaidCount > 0) MessageSystem.upkeepUnpaid(unpaidCount, this.upkeepArrears);
+    MessageSystem.incomeStatement(this.getIncomeStatement(day));
+  }
+  
+  /**
+   * Upkeep owed from days the budget couldn't cover it
+   */
+  getUpkeepArrears(): number {
+    return this.upkeepArrears;
+  }
+  
+  /**
+   * Set money directly (used when restoring a save game)
+   */
+  setMoney(amount: number): void {
+    this.money = amount;
+  }
+  
+  /**
+   * Snapshot the ledger for a save game
+   */
+  getSaveState(): EconomySaveState {
+    return { ledger: this.ledger.map(entry => ({ ...entry })), lastClosedDay: this.lastClosedDay, upkeepArrears: this.upkeepArrears };
+  }
+  
+  loadSaveState(state: EconomySaveState): void {
+    this.ledger = state.ledger.map(entry => ({ ...entry }));
+    this.statementsByDay.clear();
+    this.ledger.forEach(entry => this.addToStatement(entry));
+    this.lastClosedDay = state.lastClosedDay;
+    this.upkeepArrears = state.upkeepArrears ?? 0;
   }
   
   /**
@@ -65,5 +307,9 @@ export class EconomySystem {
    */
   reset(initialBudget: number): void {
     this.money = initialBudget;
+    this.ledger = [];
+    this.statementsByDay.clear();
+    this.lastClosedDay = -1;
+    this.upkeepArrears = 0;
   }
 }
@@ -0,0 +1,191 @@
+import { EconomySystem } from './EconomySystem';
+import { MessageSystem } from './MessageSystem';
+
+/** One loan taken out against the lot */
+export interface Loan {
+  /** Amount originally borrowed */
+  principal: number;
+  /** Principal still owed */
+  remaining: number;
+  /** Daily installments left in its repayment schedule */
+  daysLeft: number;
+}
+
+/** What the next midnight debt service will charge */
+export interface DebtPayment {
+  interest: number;
+  principal: number;
+  total: number;
+}
+
+/**
+ * Serializable loan state for save games (loan terms come from the challenge config)
+ */
+export interface LoanSaveState {
+  loans: Loan[];
+  bankrupt: boolean;
+}
+
+/**
+ * LoanSystem - Singleton for borrowing against the lot
+ *
+ * Challenges with a `loanLimit` let the player borrow up to that much outstanding debt. Each
+ * loan is repaid in equal daily installments over the loan term, and interest on all
+ * outstanding debt is charged with them at midnight. If the budget can't cover a day's debt
+ * service the lot goes bankrupt, which loses the challenge.
+ */
+export class LoanSystem {
+  private static instance: LoanSystem;
+  private loanLimit: number = 0;
+  private dailyInterestRate: number = 0.02;
+  private termDays: number = 5;
+  private loans: Loan[] = [];
+  private bankrupt: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): LoanSystem {
+    if (!LoanSystem.instance) {
+      LoanSystem.instance = new LoanSystem();
+    }
+    return LoanSystem.instance;
+  }
+
+  /**
+   * Set the challenge's loan terms
+   *
+   * @param loanLimit - Maximum outstanding debt (0 = no loans)
+   * @param dailyInterestRate - Interest per day on outstanding debt (0.02 = 2%)
+   * @param termDays - Days over which each loan is repaid in equal installments
+   */
+  setLoanTerms(loanLimit: number, dailyInterestRate: number, termDays: number): void {
+    this.loanLimit = Math.max(0, loanLimit);
+    this.dailyInterestRate = Math.max(0, dailyInterestRate);
+    this.termDays = Math.max(1, Math.floor(termDays));
+  }
+
+  getLoanLimit(): number {
+    return this.loanLimit;
+  }
+
+  getDailyInterestRate(): number {
+    return this.dailyInterestRate;
+  }
+
+  getTermDays(): number {
+    return this.termDays;
+  }
+
+  /**
+   * Outstanding principal across all loans
+   */
+  getDebt(): number {
+    return this.loans.reduce((sum, loan) => sum + loan.remaining, 0);
+  }
+
+  /**
+   * How much more can be borrowed
+   */
+  getAvailableCredit(): number {
+    return Math.max(0, this.loanLimit - this.getDebt());
+  }
+
+  /**
+   * Borrow money. Fails if it would take debt over the loan limit.
+   */
+  borrow(amount: number): boolean {
+    amount = Math.floor(amount);
+    if (amount <= 0 || amount > this.getAvailableCredit()) {
+      return false;
+    }
+    this.loans.push({ principal: amount, remaining: amount, daysLeft: this.termDays });
+    EconomySystem.getInstance().earn(amount, 'loan', { label: 'Borrowed' });
+    return true;
+  }
+
+  /**
+   * Repay principal early, oldest loan first, up to the debt and what the budget allows
+   *
+   * @returns the amount repaid
+   */
+  repay(amount: number): number {
+    const economy = EconomySystem.getInstance();
+    let toRepay = Math.min(Math.floor(amount), this.getDebt(), Math.max(0, economy.getMoney()));
+    if (toRepay <= 0) {
+      return 0;
+    }
+    economy.spend(toRepay, 'loan', { label: 'Early repayment' });
+    const repaid = toRepay;
+    for (const loan of this.loans) {
+      const payment = Math.min(loan.remaining, toRepay);
+      loan.remaining -= payment;
+      toRepay -= payment;
+      if (toRepay === 0) break;
+    }
+    this.loans = this.loans.filter(loan => loan.remaining > 0);
+    return repaid;
+  }
+
+  /**
+   * Interest and scheduled principal due at the next midnight
+   */
+  getNextPayment(): DebtPayment {
+    const interest = Math.ceil(this.getDebt() * this.dailyInterestRate);
+    const principal = this.loans.reduce((sum, loan) => sum + Math.ceil(loan.remaining / loan.daysLeft), 0);
+    return { interest, principal, total: interest + principal };
+  }
+
+  /**
+   * Midnight debt service: charge interest and each loan's installment. If the budget can't
+   * cover it, nothing is paid and the lot is bankrupt.
+   */
+  runDailyDebtService(): void {
+    if (this.loans.length === 0 || this.bankrupt) {
+      return;
+    }
+    const payment = this.getNextPayment();
+    const economy = EconomySystem.getInstance();
+    if (!economy.canAfford(payment.total)) {
+      this.bankrupt = true;
+      MessageSystem.bankrupt(payment.total);
+      return;
+    }
+    economy.spend(payment.interest, 'interest', { label: 'Loan interest' });
+    economy.spend(payment.principal, 'loan', { label: 'Loan installment' });
+    for (const loan of this.loans) {
+      loan.remaining -= Math.ceil(loan.remaining / loan.daysLeft);
+      loan.daysLeft--;
+    }
+    this.loans = this.loans.filter(loan => loan.remaining > 0);
+  }
+
+  /**
+   * True once a day's debt service couldn't be paid
+   */
+  isBankrupt(): boolean {
+    return this.bankrupt;
+  }
+
+  /**
+   * Snapshot the loans for a save game
+   */
+  getSaveState(): LoanSaveState {
+    return { loans: this.loans.map(loan => ({ ...loan })), bankrupt: this.bankrupt };
+  }
+
+  loadSaveState(state: LoanSaveState): void {
+    this.loans = state.loans.map(loan => ({ ...loan }));
+    this.bankrupt = state.bankrupt;
+  }
+
+  /**
+   * Clear loans and terms for a new challenge (ChallengeSetup sets the terms)
+   */
+  reset(): void {
+    this.loanLimit = 0;
+    this.dailyInterestRate = 0.02;
+    this.termDays = 5;
+    this.loans = [];
+    this.bankrupt = false;
+  }
+}
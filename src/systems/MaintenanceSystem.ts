@@ -0,0 +1,209 @@
+import { GridManager } from '@/core/GridManager';
+import { Ploppable, CellData, RatingCoverage } from '@/types';
+import { getPloppableDefinition } from '@/config/ploppables.config';
+import { LITTER_CLEANUP_COST, DAILY_SERVICE_CONTRACT_FEE } from '@/config/ploppableCosts.config';
+import { getPlayableCellCoverage } from '@/config/rating.config';
+import { AppealSystem } from './AppealSystem';
+import { EconomySystem, type LedgerDetails } from './EconomySystem';
+import { MessageSystem } from './MessageSystem';
+
+/**
+ * Serializable maintenance state for save games (fill levels and litter live in the grid)
+ */
+export interface MaintenanceSaveState {
+  dailyServiceContract: boolean;
+}
+
+/**
+ * MaintenanceSystem - Singleton for fill levels, litter and servicing
+ *
+ * Ploppables with a `fillCapacity` in the ploppable registry (Trash Can, Dumpster, Portable Toilet)
+ * fill by one per use and stop fulfilling needs once full. Needs marked `littersWhenUnfulfilled`
+ * drop litter where they go unfulfilled, lowering appeal around it (AppealSystem).
+ * Servicing a cell empties its ploppable and picks up its litter, either on demand with the
+ * Service tool or for every cell at midnight under the daily service contract.
+ */
+export class MaintenanceSystem {
+  private static instance: MaintenanceSystem;
+  private dailyServiceContract: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): MaintenanceSystem {
+    if (!MaintenanceSystem.instance) {
+      MaintenanceSystem.instance = new MaintenanceSystem();
+    }
+    return MaintenanceSystem.instance;
+  }
+
+  /**
+   * Fill level as a fraction (0-1), or null if the ploppable never fills
+   */
+  getFillFraction(ploppable: Ploppable): number | null {
+    const fillCapacity = getPloppableDefinition(ploppable.type)?.fillCapacity;
+    if (!fillCapacity) {
+      return null;
+    }
+    return Math.min(1, (ploppable.fillLevel ?? 0) / fillCapacity);
+  }
+
+  /**
+   * Check if a ploppable is full (no longer fulfills needs until serviced)
+   */
+  isFull(ploppable: Ploppable): boolean {
+    return this.getFillFraction(ploppable) === 1;
+  }
+
+  /**
+   * Count one use of a ploppable towards its fill capacity
+   */
+  recordUse(ploppable: Ploppable): void {
+    const definition = getPloppableDefinition(ploppable.type);
+    if (!definition?.fillCapacity || this.isFull(ploppable)) {
+      return;
+    }
+    ploppable.fillLevel = (ploppable.fillLevel ?? 0) + 1;
+    if (this.isFull(ploppable)) {
+      MessageSystem.ploppableFull(definition.displayName || definition.type);
+    }
+  }
+
+  /**
+   * Drop a piece of litter on a cell
+   */
+  addLitter(gridManager: GridManager, x: number, y: number, gridWidth: number, gridHeight: number): void {
+    const cellData = gridManager.getCellData(x, y);
+    if (!cellData) {
+      return;
+    }
+    gridManager.setCellData(x, y, { litter: (cellData.litter ?? 0) + 1 });
+    AppealSystem.getInstance().applyLitterAoE(x, y, gridManager, gridWidth, gridHeight, false);
+  }
+
+  /**
+   * Total litter on the grid
+   */
+  getLitterCount(gridManager: GridManager, gridWidth: number, gridHeight: number): number {
+    let count = 0;
+    for (let y = 0; y < gridHeight; y++) {
+      for (let x = 0; x < gridWidth; x++) {
+        count += gridManager.getCellData(x, y)?.litter ?? 0;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Cleanliness coverage for a rating component (0-1): the share of playable cells free of litter,
+   * under the component's coverage function (rating.config.ts)
+   */
+  getCleanlinessCoverage(gridManager: GridManager, gridWidth: number, gridHeight: number, coverage?: RatingCoverage): number {
+    return getPlayableCellCoverage(gridManager, gridWidth, gridHeight, cellData => ((cellData?.litter ?? 0) > 0 ? 0 : 1), coverage);
+  }
+
+  /**
+   * Cost to service a cell: empty its ploppable (if used at all) and pick up its litter. 0 = nothing to do.
+   */
+  getServiceCost(cellData: CellData | undefined): number {
+    let cost = (cellData?.litter ?? 0) * LITTER_CLEANUP_COST;
+    const ploppable = cellData?.ploppable;
+    if (ploppable && (ploppable.fillLevel ?? 0) > 0) {
+      cost += getPloppableDefinition(ploppable.type)?.serviceCost ?? 0;
+    }
+    return cost;
+  }
+
+  /**
+   * Ledger source and label for servicing a cell: the ploppable being emptied, else the litter
+   */
+  getServiceLedgerDetails(cellData: CellData | undefined): LedgerDetails {
+    const ploppable = cellData?.ploppable;
+    if (ploppable && (ploppable.fillLevel ?? 0) > 0) {
+      const definition = getPloppableDefinition(ploppable.type);
+      return { sourceId: ploppable.id, label: definition?.displayName || ploppable.type };
+    }
+    return { label: 'Litter pickup' };
+  }
+
+  /**
+   * Empty the cell's ploppable and pick up its litter. The caller pays getServiceCost first.
+   */
+  serviceCell(gridManager: GridManager, x: number, y: number, gridWidth: number, gridHeight: number): void {
+    const cellData = gridManager.getCellData(x, y);
+    if (!cellData) {
+      return;
+    }
+    if (cellData.ploppable?.fillLevel !== undefined) {
+      gridManager.setCellData(x, y, { ploppable: { ...cellData.ploppable, fillLevel: undefined } });
+    }
+    const litter = cellData.litter ?? 0;
+    for (let i = 0; i < litter; i++) {
+      AppealSystem.getInstance().applyLitterAoE(x, y, gridManager, gridWidth, gridHeight, true);
+    }
+    if (litter > 0) {
+      gridManager.setCellData(x, y, { litter: undefined });
+    }
+  }
+
+  /**
+   * Daily service contract: when on, every cell that needs it is serviced at midnight
+   */
+  setDailyServiceContract(enabled: boolean): void {
+    this.dailyServiceContract = enabled;
+  }
+
+  hasDailyServiceContract(): boolean {
+    return this.dailyServiceContract;
+  }
+
+  /**
+   * Midnight run of the daily service contract: charge the flat fee, then service cells in grid
+   * order while the budget allows. Does nothing without a contract.
+   */
+  runDailyService(gridManager: GridManager, gridWidth: number, gridHeight: number): void {
+    if (!this.dailyServiceContract) {
+      return;
+    }
+    const economy = EconomySystem.getInstance();
+    if (!economy.spend(DAILY_SERVICE_CONTRACT_FEE, 'servicing', { label: 'Service contract' })) {
+      MessageSystem.serviceContractSkipped();
+      return;
+    }
+    let spent = DAILY_SERVICE_CONTRACT_FEE;
+    let skipped = false;
+    for (let y = 0; y < gridHeight; y++) {
+      for (let x = 0; x < gridWidth; x++) {
+        const cellData = gridManager.getCellData(x, y);
+        // 2-tile ploppables fill on their primary cell only
+        if (cellData?.ploppable && (cellData.ploppable.x !== x || cellData.ploppable.y !== y) && !cellData.litter) continue;
+        const cost = this.getServiceCost(cellData);
+        if (cost === 0) continue;
+        if (!economy.spend(cost, 'servicing', this.getServiceLedgerDetails(cellData))) {
+          skipped = true;
+          continue;
+        }
+        spent += cost;
+        this.serviceCell(gridManager, x, y, gridWidth, gridHeight);
+      }
+    }
+    MessageSystem.serviceContractRan(spent, skipped);
+  }
+
+  /**
+   * Snapshot the service contract for a save game
+   */
+  getSaveState(): MaintenanceSaveState {
+    return { dailyServiceContract: this.dailyServiceContract };
+  }
+
+  loadSaveState(state: MaintenanceSaveState): void {
+    this.dailyServiceContract = state.dailyServiceContract;
+  }
+
+  /**
+   * Cancel the service contract for a new challenge (fill levels and litter reset with the grid)
+   */
+  reset(): void {
+    this.dailyServiceContract = false;
+  }
+}
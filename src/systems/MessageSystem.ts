@@ -1,4 +1,8 @@
 import { TimeSystem } from './TimeSystem';
+import { RandomSystem } from './RandomSystem';
+import { getNeedDefinition } from '@/config/needs.config';
+import type { NeedType } from '@/types';
+import { LEDGER_CATEGORY_LABELS, type IncomeStatement, type LedgerCategory } from './EconomySystem';
 
 /**
  * Message types for categorization
@@ -166,8 +170,8 @@ export class MessageSystem {
    * across multiple messages for the same parker
    */
   static generateParkerName(): string {
-    const firstName = FIRST_NAMES[Math.floor(Math.random() * FIRST_NAMES.length)];
-    const lastName = LAST_NAMES[Math.floor(Math.random() * LAST_NAMES.length)];
+    const firstName = RandomSystem.getInstance().pick(FIRST_NAMES);
+    const lastName = RandomSystem.getInstance().pick(LAST_NAMES);
     return `${firstName} ${lastName}`;
   }
   
@@ -285,6 +289,18 @@ export class MessageSystem {
     return [...this.messages];
   }
   
+  /**
+   * Restore the message list from a save game
+   */
+  loadMessages(messages: GameMessage[]): void {
+    this.messages = messages.slice(0, this.maxMessages);
+    this.messageIdCounter = this.messages.reduce((max, msg) => {
+      const n = parseInt(msg.id.replace('msg-', ''), 10);
+      return Number.isFinite(n) ? Math.max(max, n) : max;
+    }, 0);
+    this.renderMessages();
+  }
+  
   /**
    * Clear all messages
    */
@@ -318,46 +334,66 @@ export class MessageSystem {
   }
   
   /**
-   * Parker couldn't satisfy thirst need
+   * Parker couldn't satisfy a need (reaction from the need registry)
    */
-  static thirstUnfulfilled(parkerName: string): void {
+  static needUnfulfilled(parkerName: string, needType: NeedType): void {
+    const message = getNeedDefinition(needType)?.unfulfilledMessage;
+    if (!message) return;
+    MessageSystem.getInstance().addParkerReaction(parkerName, message.text, message.emoji);
+  }
+  
+  /**
+   * Vehicle drove on too many concrete/sidewalk tiles
+   */
+  static droveonSidewalk(parkerName: string): void {
     MessageSystem.getInstance().addParkerReaction(
       parkerName,
-      "I wish there was a vending machine here, I'm so thirsty.",
-      '🥵'
+      "My car is on the sidewalk! This feels awkward.",
+      '😅'
     );
   }
   
   /**
-   * Parker couldn't satisfy toilet need
+   * Vehicle gave up after being stuck in a traffic jam
    */
-  static toiletUnfulfilled(parkerName: string): void {
+  static stuckInTraffic(parkerName: string): void {
     MessageSystem.getInstance().addParkerReaction(
       parkerName,
-      "I gotta rush home to use the toilet! No lotty potty here!",
-      '😰'
+      "This traffic jam isn't moving. I'm out of here!",
+      '😡'
     );
   }
   
   /**
-   * Parker couldn't satisfy trash need
+   * Spot hunting: parker circled the lot until they gave up
    */
-  static trashUnfulfilled(parkerName: string): void {
+  static gaveUpSpotSearch(parkerName: string): void {
     MessageSystem.getInstance().addParkerReaction(
       parkerName,
-      "I don't want this trash- guess I'll drop it.",
-      '😬'
+      "I've been circling forever and there's nowhere to park!",
+      '😠'
     );
   }
   
   /**
-   * Vehicle drove on too many concrete/sidewalk tiles
+   * Parker has been stalled in traffic longer than they tolerate
    */
-  static droveonSidewalk(parkerName: string): void {
+  static trafficDelay(parkerName: string): void {
     MessageSystem.getInstance().addParkerReaction(
       parkerName,
-      "My car is on the sidewalk! This feels awkward.",
-      '😅'
+      "I've spent more time in this lot's traffic than parked!",
+      '😤'
+    );
+  }
+  
+  /**
+   * Parker's walk to their errand is longer than their archetype tolerates
+   */
+  static longWalk(parkerName: string): void {
+    MessageSystem.getInstance().addParkerReaction(
+      parkerName,
+      "Couldn't I have parked any closer? What a hike!",
+      '😩'
     );
   }
   
@@ -371,5 +407,71 @@ export class MessageSystem {
       '😤'
     );
   }
+  
+  // ============================================
+  // Maintenance notices
+  // ============================================
+  
+  /**
+   * A bin or toilet filled up and stops fulfilling needs until serviced
+   */
+  static ploppableFull(ploppableName: string): void {
+    MessageSystem.getInstance().addSystemMessage(`A ${ploppableName} is full and needs servicing.`, '🪣');
+  }
+  
+  /**
+   * The daily service contract ran at midnight
+   */
+  static serviceContractRan(totalCost: number, skippedSome: boolean): void {
+    const text = skippedSome
+      ? `The service crew charged $${totalCost} but ran out of budget before finishing.`
+      : `The service crew emptied the bins and picked up litter for $${totalCost}.`;
+    MessageSystem.getInstance().addSystemMessage(text, '🧹');
+  }
+  
+  /**
+   * The daily service contract couldn't be paid
+   */
+  static serviceContractSkipped(): void {
+    MessageSystem.getInstance().addSystemMessage("The service crew didn't come: not enough money for the contract fee.", '🧹');
+  }
+  
+  // ============================================
+  // Finance notices
+  // ============================================
+  
+  /**
+   * End-of-day income statement (non-zero lines and the net)
+   */
+  static incomeStatement(statement: IncomeStatement): void {
+    const formatAmount = (amount: number) => `${amount < 0 ? '-' : '+'}$${Math.abs(amount).toLocaleString()}`;
+    const lines = (Object.keys(LEDGER_CATEGORY_LABELS) as LedgerCategory[])
+      .filter(category => statement.lines[category] !== 0)
+      .map(category => `${LEDGER_CATEGORY_LABELS[category]} ${formatAmount(statement.lines[category])}`);
+    const detail = lines.length > 0 ? `: ${lines.join(', ')}` : '';
+    MessageSystem.getInstance().addSystemMessage(
+      `Day ${statement.day + 1} closed${detail}. Net ${formatAmount(statement.net)}.`,
+      '📒'
+    );
+  }
+  
+  /**
+   * Some of a day's upkeep couldn't be paid and is owed
+   */
+  static upkeepUnpaid(count: number, owed: number): void {
+    MessageSystem.getInstance().addSystemMessage(
+      `Not enough money for upkeep on ${count} item${count === 1 ? '' : 's'}. You owe $${owed.toLocaleString()}, charged first tomorrow.`,
+      '🧾'
+    );
+  }
+  
+  /**
+   * A day's debt service couldn't be paid
+   */
+  static bankrupt(paymentDue: number): void {
+    MessageSystem.getInstance().addSystemMessage(
+      `The bank called in the loans: you couldn't cover today's $${paymentDue.toLocaleString()} payment.`,
+      '🏦'
+    );
+  }
 }
-
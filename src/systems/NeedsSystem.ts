@@ -1,24 +1,20 @@
-import { Ploppable } from '@/types';
+import { Ploppable, NeedType, NeedFulfillmentMode } from '@/types';
 import { GridManager } from '@/core/GridManager';
 import { isoToScreen } from '@/utils/isometric';
-import { PloppableManager } from './PloppableManager';
+import { getPloppableDefinition } from '@/config/ploppables.config';
+import { getNeedDefinition } from '@/config/needs.config';
+import { GameSystems } from '@/core/GameSystems';
 
 /**
  * NeedsSystem - Manages pedestrian needs and need fulfillment
  */
 export class NeedsSystem {
   /**
-   * Get the need type that a ploppable fulfills, if any
+   * Check if a ploppable fulfills a need (listed in the need's registry `ploppables` and not full)
    */
-  static getPloppableNeedType(ploppable: Ploppable): 'trash' | 'thirst' | 'toilet' | null {
-    if (ploppable.type === 'Trash Can' || ploppable.type === 'Dumpster') {
-      return 'trash';
-    } else if (ploppable.type === 'Vending Machine') {
-      return 'thirst';
-    } else if (ploppable.type === 'Portable Toilet') {
-      return 'toilet';
-    }
-    return null;
+  static doesPloppableFulfillNeed(ploppable: Ploppable, needType: NeedType): boolean {
+    return (getNeedDefinition(needType)?.ploppables.includes(ploppable.type) ?? false) &&
+      !GameSystems.maintenance.isFull(ploppable);
   }
 
   /**
@@ -26,7 +22,7 @@ export class NeedsSystem {
    * For 2-tile ploppables, only includes them once (from the primary cell)
    */
   static getPloppablesForNeed(
-    needType: 'trash' | 'thirst' | 'toilet',
+    needType: NeedType,
     gridManager: GridManager,
     gridWidth: number,
     gridHeight: number
@@ -37,7 +33,7 @@ export class NeedsSystem {
       for (let y = 0; y < gridHeight; y++) {
         const cellData = gridManager.getCellData(x, y);
         const ploppable = cellData?.ploppable;
-        if (ploppable && this.getPloppableNeedType(ploppable) === needType) {
+        if (ploppable && this.doesPloppableFulfillNeed(ploppable, needType)) {
           // For 2-tile ploppables, only include from the primary cell (where ploppable.x, ploppable.y matches)
           // This avoids duplicates since 2-tile ploppables are stored in both cells
           if (ploppable.x === x && ploppable.y === y) {
@@ -53,7 +49,7 @@ export class NeedsSystem {
   /**
    * Calculate the target grid position for fulfilling a need at a ploppable
    * For Type A / pedestrian-passable ploppables (trash can, vending machine, dumpster, portable toilet):
-   *   returns the cell containing the ploppable itself. Toilet peds despawn on arrival
+   *   returns the cell containing the ploppable itself. Peds with 'despawn' needs disappear on arrival
    *   to simulate entering the cabinet (see PedestrianSystem despawn handling).
    * For Type B impassable ploppables (none currently):
    *   returns the cell adjacent to the face of the ploppable (arrow = front face; target one cell counter-clockwise)
@@ -62,12 +58,7 @@ export class NeedsSystem {
     ploppable: Ploppable
   ): { x: number; y: number } {
     // Pedestrian-passable need targets: walk onto the same cell
-    if (
-      ploppable.orientationType === 'A' ||
-      ploppable.type === 'Vending Machine' ||
-      ploppable.type === 'Dumpster' ||
-      ploppable.type === 'Portable Toilet'
-    ) {
+    if (ploppable.orientationType === 'A' || getPloppableDefinition(ploppable.type)?.passability === 'pedestrian-only') {
       return { x: ploppable.x, y: ploppable.y };
     }
 
@@ -106,27 +97,30 @@ export class NeedsSystem {
   }
 
   /**
-   * Check if a need requires a timer (e.g., vending machine)
+   * How a need is fulfilled on arrival (instant, timed wait, or despawn/respawn)
    */
-  static needRequiresTimer(needType: 'trash' | 'thirst' | 'toilet'): boolean {
-    return needType === 'thirst'; // Vending machine requires a 2-minute timer
+  static getFulfillmentMode(needType: NeedType): NeedFulfillmentMode {
+    return getNeedDefinition(needType)?.mode ?? 'instant';
   }
 
   /**
-   * Check if a need requires despawn/respawn (e.g., portable toilet)
+   * How many pedestrians a ploppable can serve at once for a need (Infinity = no queueing).
+   * Instant needs never occupy the ploppable.
    */
-  static needRequiresDespawn(needType: 'trash' | 'thirst' | 'toilet'): boolean {
-    return needType === 'toilet'; // Portable toilet requires despawn/respawn
+  static getServiceCapacity(ploppable: Ploppable, needType: NeedType): number {
+    if (this.getFulfillmentMode(needType) === 'instant') {
+      return Infinity;
+    }
+    return getPloppableDefinition(ploppable.type)?.capacity ?? Infinity;
   }
 
   /**
-   * Get the timer duration for a need (in game minutes)
+   * Roll how long (game minutes) a timed or despawn need keeps the pedestrian at the ploppable.
+   * The ploppable's serviceMinutes, if set, override the need's durationMinutes.
    */
-  static getNeedTimerDuration(needType: 'trash' | 'thirst'): number {
-    if (needType === 'thirst') {
-      return 2; // 2 in-game minutes for vending machine
-    }
-    return 0; // Trash can is instant
+  static rollNeedDurationMinutes(needType: NeedType, ploppableType?: string): number {
+    const serviceMinutes = ploppableType !== undefined ? getPloppableDefinition(ploppableType)?.serviceMinutes : undefined;
+    const [min, max] = serviceMinutes ?? getNeedDefinition(needType)?.durationMinutes ?? [0, 0];
+    return max > min ? min + GameSystems.random.next() * (max - min) : min;
   }
 }
-
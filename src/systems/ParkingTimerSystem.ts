@@ -1,13 +1,86 @@
 import { EconomySystem } from './EconomySystem';
 import { RatingSystem } from './RatingSystem';
 import { MessageSystem } from './MessageSystem';
+import { TimeSystem } from './TimeSystem';
 import { getParkingRateConfig } from '@/config/parkingRateConfig';
+import { getParkerPenaltyWeight } from '@/config/parkerArchetypes.config';
+import { BillingPolicy, Challenge, ParkerArchetypeId } from '@/types';
+
+export type PaymentType = 'meter' | 'booth';
+
+/**
+ * A time-of-day rate: from startGameMinutes up to (not including) endGameMinutes, in game
+ * minutes (0-1439). A window whose end is before its start runs overnight past midnight.
+ */
+export interface RateWindow {
+  startGameMinutes: number;
+  endGameMinutes: number;
+  rate: number;
+}
+
+/** Every billing policy field off: plain `ceil(time / interval) * rate` */
+export const DEFAULT_BILLING_POLICY: BillingPolicy = {
+  gracePeriodMinutes: 0,
+  dailyMaxCharge: 0,
+  flatRate: 0,
+  overnightRate: 0,
+  validationDiscount: 0,
+};
+
+/** A parked vehicle's stay: the rates it locked in, when it parked, and whether it was validated */
+interface ParkingStay {
+  meter: number;
+  booth: number;
+  startGameMinutes: number;
+  validated: boolean;
+  /** The parker's willingness-to-pay per billing interval; paying more costs rating */
+  willingnessToPay?: { meter: number; booth: number };
+  /** The parker's archetype, which weighs the high-rate penalty */
+  archetype?: ParkerArchetypeId;
+}
+
+function copyStay(stay: ParkingStay): ParkingStay {
+  return { ...stay, willingnessToPay: stay.willingnessToPay && { ...stay.willingnessToPay } };
+}
+
+/**
+ * Serializable parking timer state for save games.
+ * Billing intervals and penalties are not included; they come from the challenge config.
+ */
+export interface ParkingTimerSaveState {
+  parkingStartTimes: Array<[string, number]>;
+  meterParkingRate: number;
+  boothParkingRate: number;
+  realTimeElapsed: number;
+  /** Absent in saves written before rate schedules existed (flat rates) */
+  meterRateSchedule?: RateWindow[];
+  boothRateSchedule?: RateWindow[];
+  stays?: Array<[string, ParkingStay]>;
+  /** Absent in saves written before billing policies existed (all off) */
+  meterBillingPolicy?: BillingPolicy;
+  boothBillingPolicy?: BillingPolicy;
+}
+
+/**
+ * A lot's pricing, exported alongside its grid in lot JSON: base rates, schedules and billing policies
+ */
+export interface LotPricing {
+  meterParkingRate: number;
+  boothParkingRate: number;
+  meterRateSchedule: RateWindow[];
+  boothRateSchedule: RateWindow[];
+  meterBillingPolicy: BillingPolicy;
+  boothBillingPolicy: BillingPolicy;
+}
 
 /**
  * ParkingTimerSystem - Singleton that tracks parking time and collects fees
  * 
  * Tracks when vehicles park and calculates parking fees when they leave.
  * Supports both parking meters (charge when leaving spot) and parking booths (charge when entering collection tile).
+ * Each payment type has a base rate and an optional time-of-day schedule that overrides it;
+ * a parker pays the rates in effect when they arrived and accepted them. Billing policies (grace period, daily max,
+ * flat and overnight rates, merchant validation) then shape the price of the whole stay.
  */
 export class ParkingTimerSystem {
   private static instance: ParkingTimerSystem;
@@ -21,15 +94,23 @@ export class ParkingTimerSystem {
   private meterParkingRate: number = 1;
   private boothParkingRate: number = 1;
 
+  // Time-of-day windows overriding the base rates (first matching window wins)
+  private meterRateSchedule: RateWindow[] = [];
+  private boothRateSchedule: RateWindow[] = [];
+
+  // Rates, start time and validation of each parked vehicle's stay
+  private stays: Map<string, ParkingStay> = new Map();
+
+  private meterBillingPolicy: BillingPolicy = { ...DEFAULT_BILLING_POLICY };
+  private boothBillingPolicy: BillingPolicy = { ...DEFAULT_BILLING_POLICY };
+
   // Billing interval size (seconds = game minutes). Default is per 15 minutes.
   private meterBillingIntervalSeconds: number = ParkingTimerSystem.DEFAULT_BILLING_INTERVAL_SECONDS;
   private boothBillingIntervalSeconds: number = ParkingTimerSystem.DEFAULT_BILLING_INTERVAL_SECONDS;
   
-  // High-rate penalty: when parkingRate exceeds threshold, parkers lose rating
+  // High-rate penalty: parkers lose rating per $ paid over their willingness-to-pay
   // Separate for meters (pay-at-spot) vs booths (pay-at-exit)
-  private meterHighParkingRateThreshold: number = 5;
   private meterHighParkingRatePenaltyPerDollar: number = 2;
-  private boothHighParkingRateThreshold: number = 5;
   private boothHighParkingRatePenaltyPerDollar: number = 2;
   
   // Track total real-time elapsed for fee calculation
@@ -102,6 +183,129 @@ export class ParkingTimerSystem {
     return this.boothBillingIntervalSeconds;
   }
 
+  /**
+   * Replace a payment type's time-of-day rate schedule. Windows are clamped to the day and
+   * rates to >= 1 like the base rates; empty windows are dropped.
+   */
+  setRateSchedule(paymentType: PaymentType, windows: RateWindow[]): void {
+    const clampMinutes = (minutes: number) => Math.min(1439, Math.max(0, Math.floor(minutes)));
+    const schedule = windows
+      .map(w => ({
+        startGameMinutes: clampMinutes(w.startGameMinutes),
+        endGameMinutes: clampMinutes(w.endGameMinutes),
+        rate: Math.max(1, Math.floor(w.rate)),
+      }))
+      .filter(w => w.startGameMinutes !== w.endGameMinutes);
+    if (paymentType === 'meter') {
+      this.meterRateSchedule = schedule;
+    } else {
+      this.boothRateSchedule = schedule;
+    }
+  }
+
+  /** Get a payment type's time-of-day rate schedule. */
+  getRateSchedule(paymentType: PaymentType): RateWindow[] {
+    return (paymentType === 'meter' ? this.meterRateSchedule : this.boothRateSchedule).map(w => ({ ...w }));
+  }
+
+  /**
+   * Rate in effect at a time of day: the first schedule window containing it, else the base rate
+   * @param gameMinutes - Time of day (0-1439); defaults to now
+   */
+  getRateInEffect(paymentType: PaymentType, gameMinutes: number = TimeSystem.getInstance().getTotalMinutes()): number {
+    const schedule = paymentType === 'meter' ? this.meterRateSchedule : this.boothRateSchedule;
+    const window = schedule.find(w =>
+      w.startGameMinutes < w.endGameMinutes
+        ? gameMinutes >= w.startGameMinutes && gameMinutes < w.endGameMinutes
+        : gameMinutes >= w.startGameMinutes || gameMinutes < w.endGameMinutes
+    );
+    if (window) return window.rate;
+    return paymentType === 'meter' ? this.meterParkingRate : this.boothParkingRate;
+  }
+
+  /**
+   * Rate a parker pays: the one they locked in (accepted at spawn), else the rate in effect now
+   */
+  getRateForVehicle(vehicleId: string, paymentType: PaymentType): number {
+    return this.stays.get(vehicleId)?.[paymentType] ?? this.getRateInEffect(paymentType);
+  }
+
+  /**
+   * Set a payment type's billing policy. Omitted fields are off; values are clamped to >= 0
+   * (validation discount to 0-1).
+   */
+  setBillingPolicy(paymentType: PaymentType, policy: Partial<BillingPolicy>): void {
+    const merged = { ...DEFAULT_BILLING_POLICY, ...policy };
+    const clamped: BillingPolicy = {
+      gracePeriodMinutes: Math.max(0, Math.floor(merged.gracePeriodMinutes)),
+      dailyMaxCharge: Math.max(0, Math.floor(merged.dailyMaxCharge)),
+      flatRate: Math.max(0, Math.floor(merged.flatRate)),
+      overnightRate: Math.max(0, Math.floor(merged.overnightRate)),
+      validationDiscount: Math.min(1, Math.max(0, merged.validationDiscount)),
+    };
+    if (paymentType === 'meter') {
+      this.meterBillingPolicy = clamped;
+    } else {
+      this.boothBillingPolicy = clamped;
+    }
+  }
+
+  /** Get a payment type's billing policy. */
+  getBillingPolicy(paymentType: PaymentType): BillingPolicy {
+    return { ...(paymentType === 'meter' ? this.meterBillingPolicy : this.boothBillingPolicy) };
+  }
+
+  /**
+   * Price of a stay under a payment type's billing policy
+   *
+   * @param parkedMinutes - Length of the stay in game minutes
+   * @param rate - Rate per billing interval the parker locked in
+   * @param startGameMinutes - Time of day (0-1439) the stay started, for counting midnights crossed
+   * @param validated - Whether the parker's merchant validation discount applies
+   */
+  calculateFee(paymentType: PaymentType, parkedMinutes: number, rate: number, startGameMinutes: number, validated: boolean): number {
+    const policy = paymentType === 'meter' ? this.meterBillingPolicy : this.boothBillingPolicy;
+    const intervalMinutes = paymentType === 'meter' ? this.meterBillingIntervalSeconds : this.boothBillingIntervalSeconds;
+    const nights = Math.floor((startGameMinutes + parkedMinutes) / 1440);
+    let fee: number;
+    if (policy.flatRate > 0) {
+      fee = policy.flatRate;
+    } else if (policy.overnightRate > 0 && nights > 0) {
+      fee = nights * policy.overnightRate;
+    } else {
+      const billableMinutes = Math.max(0, parkedMinutes - policy.gracePeriodMinutes);
+      fee = Math.ceil(billableMinutes / intervalMinutes) * rate;
+      if (policy.dailyMaxCharge > 0) {
+        fee = Math.min(fee, Math.max(1, Math.ceil(parkedMinutes / 1440)) * policy.dailyMaxCharge);
+      }
+    }
+    if (validated && policy.validationDiscount > 0) {
+      fee = Math.round(fee * (1 - policy.validationDiscount));
+    }
+    return fee;
+  }
+
+  /**
+   * Price per billing interval a stay actually costs: its fee under the billing policy (flat, overnight,
+   * daily max, grace period) spread over the intervals parked. This, not the schedule rate, is what
+   * parkers weigh against their willingness-to-pay.
+   *
+   * @param parkedMinutes - Length of the stay in game minutes
+   */
+  getEffectiveRate(paymentType: PaymentType, parkedMinutes: number, rate: number, startGameMinutes: number, validated: boolean): number {
+    const intervalMinutes = paymentType === 'meter' ? this.meterBillingIntervalSeconds : this.boothBillingIntervalSeconds;
+    const fee = this.calculateFee(paymentType, parkedMinutes, rate, startGameMinutes, validated);
+    return fee / Math.max(1, Math.ceil(parkedMinutes / intervalMinutes));
+  }
+
+  /**
+   * Merchant validation: the parker visited a destination, so their stay gets the validation discount
+   */
+  validateParking(vehicleId: string): void {
+    const stay = this.stays.get(vehicleId);
+    if (stay) stay.validated = true;
+  }
+
   /** @deprecated Use setMeterParkingRate/setBoothParkingRate. Sets both to the same value. */
   setParkingRate(rate: number): void {
     const r = Math.max(1, Math.floor(rate));
@@ -116,41 +320,48 @@ export class ParkingTimerSystem {
 
   /**
    * Set high-rate penalty for METER payments (pay-at-spot).
-   * @param threshold - Dollar per 15 min above which penalty applies
-   * @param penaltyPerDollar - Rating points to subtract per $ over threshold (0 = no penalty)
+   * @param penaltyPerDollar - Rating points to subtract per $ paid over the parker's willingness-to-pay (0 = no penalty)
    */
-  setMeterHighRatePenalty(threshold: number, penaltyPerDollar: number): void {
-    this.meterHighParkingRateThreshold = Math.max(0, threshold);
+  setMeterHighRatePenalty(penaltyPerDollar: number): void {
     this.meterHighParkingRatePenaltyPerDollar = Math.max(0, penaltyPerDollar);
   }
 
   /**
    * Set high-rate penalty for BOOTH payments (pay-at-exit).
-   * @param threshold - Dollar per 15 min above which penalty applies
-   * @param penaltyPerDollar - Rating points to subtract per $ over threshold (0 = no penalty)
+   * @param penaltyPerDollar - Rating points to subtract per $ paid over the parker's willingness-to-pay (0 = no penalty)
    */
-  setBoothHighRatePenalty(threshold: number, penaltyPerDollar: number): void {
-    this.boothHighParkingRateThreshold = Math.max(0, threshold);
+  setBoothHighRatePenalty(penaltyPerDollar: number): void {
     this.boothHighParkingRatePenaltyPerDollar = Math.max(0, penaltyPerDollar);
   }
 
-  /** @deprecated Use setMeterHighRatePenalty/setBoothHighRatePenalty. Sets both to the same value. */
-  setHighParkingRateThreshold(threshold: number): void {
-    this.meterHighParkingRateThreshold = this.boothHighParkingRateThreshold = Math.max(0, threshold);
-  }
-
   /** @deprecated Use setMeterHighRatePenalty/setBoothHighRatePenalty. Sets both to the same value. */
   setHighParkingRatePenaltyPerDollar(penalty: number): void {
     this.meterHighParkingRatePenaltyPerDollar = this.boothHighParkingRatePenaltyPerDollar = Math.max(0, penalty);
   }
   
   /**
-   * Start tracking parking time for a vehicle
+   * Start tracking parking time for a vehicle and lock in its rates
    * Called when a vehicle parks
    * @param vehicleId - Vehicle ID
+   * @param willingnessToPay - The parker's willingness-to-pay per billing interval (no penalty when omitted)
+   * @param archetype - The parker's archetype (weighs the high-rate penalty)
+   * @param lockedRates - Rates the parker accepted at spawn; the rates in effect now when omitted
    */
-  startParkingTimer(vehicleId: string): void {
+  startParkingTimer(
+    vehicleId: string,
+    willingnessToPay?: { meter: number; booth: number },
+    archetype?: ParkerArchetypeId,
+    lockedRates?: { meter: number; booth: number }
+  ): void {
     this.parkingStartTimes.set(vehicleId, 0); // Start at 0, will be incremented
+    this.stays.set(vehicleId, {
+      meter: lockedRates?.meter ?? this.getRateInEffect('meter'),
+      booth: lockedRates?.booth ?? this.getRateInEffect('booth'),
+      startGameMinutes: TimeSystem.getInstance().getTotalMinutes(),
+      validated: false,
+      willingnessToPay: willingnessToPay && { ...willingnessToPay },
+      archetype,
+    });
   }
   
   /**
@@ -172,12 +383,12 @@ export class ParkingTimerSystem {
    * Calculate and collect parking fee when vehicle leaves a metered spot.
    */
   collectMeterFee(vehicleId: string, parkerName?: string): number {
-    const { fee, vehicleId: vid } = this.calculateAndCollectFee(vehicleId, 'meter');
+    const { fee, effectiveRate, willingnessToPay, archetype } = this.calculateAndCollectFee(vehicleId, 'meter', parkerName);
     this.applyHighRatePenalty(
-      vid,
-      this.meterParkingRate,
-      this.meterHighParkingRateThreshold,
-      this.meterHighParkingRatePenaltyPerDollar,
+      vehicleId,
+      effectiveRate,
+      willingnessToPay,
+      this.meterHighParkingRatePenaltyPerDollar * getParkerPenaltyWeight(archetype, 'highRate'),
       parkerName
     );
     return fee;
@@ -189,44 +400,66 @@ export class ParkingTimerSystem {
    */
   collectBoothFee(vehicleId: string, parkerName?: string): number {
     if (!this.parkingStartTimes.has(vehicleId)) return 0;
-    const { fee, vehicleId: vid } = this.calculateAndCollectFee(vehicleId, 'booth');
+    const { fee, effectiveRate, willingnessToPay, archetype } = this.calculateAndCollectFee(vehicleId, 'booth', parkerName);
     this.applyHighRatePenalty(
-      vid,
-      this.boothParkingRate,
-      this.boothHighParkingRateThreshold,
-      this.boothHighParkingRatePenaltyPerDollar,
+      vehicleId,
+      effectiveRate,
+      willingnessToPay,
+      this.boothHighParkingRatePenaltyPerDollar * getParkerPenaltyWeight(archetype, 'highRate'),
       parkerName
     );
     return fee;
   }
 
+  /**
+   * Price the stay under the billing policy and collect it. effectiveRate is the price actually
+   * paid per billing interval parked, which the high-rate penalty compares to willingnessToPay.
+   */
   private calculateAndCollectFee(
     vehicleId: string,
-    paymentType: 'meter' | 'booth'
-  ): { fee: number; vehicleId: string } {
+    paymentType: PaymentType,
+    parkerName?: string
+  ): { fee: number; effectiveRate: number; willingnessToPay?: number; archetype?: ParkerArchetypeId } {
     const parkingTimeSeconds = this.parkingStartTimes.get(vehicleId) || 0;
+    const rate = this.getRateForVehicle(vehicleId, paymentType);
+    const stay = this.stays.get(vehicleId);
     this.parkingStartTimes.delete(vehicleId);
+    this.stays.delete(vehicleId);
     const intervalSeconds =
       paymentType === 'meter' ? this.meterBillingIntervalSeconds : this.boothBillingIntervalSeconds;
     const intervals = Math.ceil(parkingTimeSeconds / intervalSeconds);
-    const rate = paymentType === 'meter' ? this.meterParkingRate : this.boothParkingRate;
-    const fee = intervals * rate;
-    EconomySystem.getInstance().earn(fee);
-    return { fee, vehicleId };
+    const fee = this.calculateFee(
+      paymentType,
+      parkingTimeSeconds,
+      rate,
+      stay?.startGameMinutes ?? TimeSystem.getInstance().getTotalMinutes(),
+      stay?.validated ?? false
+    );
+    EconomySystem.getInstance().earn(fee, paymentType, { sourceId: vehicleId, label: parkerName });
+    return {
+      fee,
+      effectiveRate: fee / Math.max(1, intervals),
+      willingnessToPay: stay?.willingnessToPay?.[paymentType],
+      archetype: stay?.archetype,
+    };
   }
 
+  /**
+   * Perceived value: a parker who paid more per interval than their willingness-to-pay loses
+   * penaltyPerDollar rating for each $ over it
+   */
   private applyHighRatePenalty(
     vehicleId: string,
-    parkingRate: number,
-    threshold: number,
+    effectiveRate: number,
+    willingnessToPay: number | undefined,
     penaltyPerDollar: number,
     parkerName?: string
   ): void {
-    if (penaltyPerDollar <= 0 || parkingRate <= threshold) return;
-    const ratingPenalty = (parkingRate - threshold) * penaltyPerDollar;
+    if (willingnessToPay === undefined || penaltyPerDollar <= 0 || effectiveRate <= willingnessToPay) return;
+    const ratingPenalty = (effectiveRate - willingnessToPay) * penaltyPerDollar;
     const vehicleScore = RatingSystem.getInstance().getParkerScore(vehicleId);
     if (vehicleScore !== undefined) {
-      RatingSystem.getInstance().updateParkerScore(vehicleId, -ratingPenalty);
+      RatingSystem.getInstance().updateParkerScore(vehicleId, -ratingPenalty, 'highRate');
       if (parkerName) {
         const msg = getParkingRateConfig().penaltyMessage;
         MessageSystem.getInstance().addParkerReaction(parkerName, msg, '');
@@ -240,6 +473,66 @@ export class ParkingTimerSystem {
    */
   cancelParkingTimer(vehicleId: string): void {
     this.parkingStartTimes.delete(vehicleId);
+    this.stays.delete(vehicleId);
+  }
+  
+  /**
+   * Snapshot running parking timers and player-set rates, schedules and billing policies for a save game
+   */
+  getSaveState(): ParkingTimerSaveState {
+    return {
+      parkingStartTimes: Array.from(this.parkingStartTimes.entries()),
+      meterParkingRate: this.meterParkingRate,
+      boothParkingRate: this.boothParkingRate,
+      realTimeElapsed: this.realTimeElapsed,
+      meterRateSchedule: this.getRateSchedule('meter'),
+      boothRateSchedule: this.getRateSchedule('booth'),
+      stays: Array.from(this.stays.entries()).map(([id, stay]) => [id, copyStay(stay)]),
+      meterBillingPolicy: this.getBillingPolicy('meter'),
+      boothBillingPolicy: this.getBillingPolicy('booth'),
+    };
+  }
+  
+  /**
+   * Snapshot the lot's pricing for lot JSON export
+   */
+  getLotPricing(): LotPricing {
+    return {
+      meterParkingRate: this.meterParkingRate,
+      boothParkingRate: this.boothParkingRate,
+      meterRateSchedule: this.getRateSchedule('meter'),
+      boothRateSchedule: this.getRateSchedule('booth'),
+      meterBillingPolicy: this.getBillingPolicy('meter'),
+      boothBillingPolicy: this.getBillingPolicy('booth'),
+    };
+  }
+  
+  /**
+   * Apply the pricing of an imported lot. Fields the lot doesn't have fall back to the challenge's
+   * defaults: $1 base rates, no schedules, and the challenge's billing policies.
+   */
+  loadLotPricing(pricing: Partial<LotPricing>, challenge?: Challenge): void {
+    this.setMeterParkingRate(pricing.meterParkingRate ?? 1);
+    this.setBoothParkingRate(pricing.boothParkingRate ?? 1);
+    this.setRateSchedule('meter', pricing.meterRateSchedule ?? []);
+    this.setRateSchedule('booth', pricing.boothRateSchedule ?? []);
+    this.setBillingPolicy('meter', pricing.meterBillingPolicy ?? challenge?.meterBillingPolicy ?? {});
+    this.setBillingPolicy('booth', pricing.boothBillingPolicy ?? challenge?.boothBillingPolicy ?? {});
+  }
+  
+  /**
+   * Restore parking timers, rates, schedules and billing policies from a save game
+   */
+  loadSaveState(state: ParkingTimerSaveState): void {
+    this.parkingStartTimes = new Map(state.parkingStartTimes);
+    this.meterParkingRate = state.meterParkingRate;
+    this.boothParkingRate = state.boothParkingRate;
+    this.realTimeElapsed = state.realTimeElapsed;
+    this.setRateSchedule('meter', state.meterRateSchedule ?? []);
+    this.setRateSchedule('booth', state.boothRateSchedule ?? []);
+    this.stays = new Map((state.stays ?? []).map(([id, stay]) => [id, copyStay(stay)]));
+    this.setBillingPolicy('meter', state.meterBillingPolicy ?? {});
+    this.setBillingPolicy('booth', state.boothBillingPolicy ?? {});
   }
   
   /**
@@ -249,11 +542,14 @@ export class ParkingTimerSystem {
     this.parkingStartTimes.clear();
     this.meterParkingRate = 1;
     this.boothParkingRate = 1;
+    this.meterRateSchedule = [];
+    this.boothRateSchedule = [];
+    this.stays.clear();
+    this.meterBillingPolicy = { ...DEFAULT_BILLING_POLICY };
+    this.boothBillingPolicy = { ...DEFAULT_BILLING_POLICY };
     this.meterBillingIntervalSeconds = ParkingTimerSystem.DEFAULT_BILLING_INTERVAL_SECONDS;
     this.boothBillingIntervalSeconds = ParkingTimerSystem.DEFAULT_BILLING_INTERVAL_SECONDS;
-    this.meterHighParkingRateThreshold = 5;
     this.meterHighParkingRatePenaltyPerDollar = 2;
-    this.boothHighParkingRateThreshold = 5;
     this.boothHighParkingRatePenaltyPerDollar = 2;
     this.realTimeElapsed = 0;
   }
@@ -266,5 +562,21 @@ export class ParkingTimerSystem {
   getParkingTime(vehicleId: string): number {
     return this.parkingStartTimes.get(vehicleId) || 0;
   }
+
+  /**
+   * Fee a parked vehicle would pay if it left now, without collecting it
+   * @returns The fee so far, or undefined if the vehicle has no running parking timer
+   */
+  getAccruedFee(vehicleId: string, paymentType: PaymentType): number | undefined {
+    if (!this.parkingStartTimes.has(vehicleId)) return undefined;
+    const stay = this.stays.get(vehicleId);
+    return this.calculateFee(
+      paymentType,
+      this.getParkingTime(vehicleId),
+      this.getRateForVehicle(vehicleId, paymentType),
+      stay?.startGameMinutes ?? TimeSystem.getInstance().getTotalMinutes(),
+      stay?.validated ?? false
+    );
+  }
 }
 
@@ -1,4 +1,5 @@
 import { Ploppable } from '@/types';
+import { getPloppableDefinition } from '@/config/ploppables.config';
 
 /**
  * PassabilitySystem - Manages passability rules for ploppables
@@ -6,48 +7,17 @@ import { Ploppable } from '@/types';
  * Determines which ploppable types block movement for vehicles and pedestrians.
  * Some ploppables are passable (entities can move through them), while others
  * are impassable (entities cannot move into cells containing them).
+ * Per-type rules come from `passability` in the ploppable registry.
  */
 export class PassabilitySystem {
-  /**
-   * Default passability configuration for ploppable types
-   * true = passable (entities can move through)
-   * false = impassable (entities cannot move into the cell)
-   * 'pedestrian-only' = passable by pedestrians only, vehicles cannot pass
-   */
-  private static readonly DEFAULT_PASSABILITY: Record<string, boolean | 'pedestrian-only'> = {
-    'Parking Spot': true, // Parking spots are passable (vehicles park in them)
-    'Trash Can': 'pedestrian-only', // Trash cans are passable by pedestrians only (vehicles cannot pass)
-    'Vending Machine': 'pedestrian-only', // Vending machines are passable by pedestrians only
-    'Dumpster': 'pedestrian-only', // Peds can path onto cell for trash need; vehicles cannot pass
-    'Tree': 'pedestrian-only', // Trees are passable by pedestrians only
-    'Shrub': false, // Shrubs are impassable (block movement)
-    'Flower Patch': true, // Flower patches are passable (decorations)
-    'Street Light': true, // Street lights are passable
-    'Security Camera': true, // Security cameras are passable
-    'Portable Toilet': 'pedestrian-only', // Peds path onto cell for toilet need (despawn on arrival); vehicles cannot pass
-    'Bench': 'pedestrian-only', // Benches are passable by pedestrians only
-    'Speed Bump': true, // Speed bumps are passable by both
-    'Crosswalk': true, // Crosswalks are passable by both
-    'Parking Meter': true, // Parking meters are passable
-    'Parking Booth': false, // Parking booths are impassable (but collection tile is passable - handled via subType)
-    'entrance': true, // Entrances are passable
-    'exit': true, // Exits are passable
-    'Pedestrian Spawner': true, // Spawners are passable
-  };
-
   /**
    * Check if a ploppable type is passable by default
    * @param ploppableType - The type of ploppable
    * @returns true if passable, false if impassable, 'pedestrian-only' if only pedestrians can pass
    */
   static isPloppableTypePassable(ploppableType: string): boolean | 'pedestrian-only' {
-    // Check if there's a specific rule for this type
-    if (ploppableType in this.DEFAULT_PASSABILITY) {
-      return this.DEFAULT_PASSABILITY[ploppableType];
-    }
-    
     // Default to passable for unknown types (can be changed if needed)
-    return true;
+    return getPloppableDefinition(ploppableType)?.passability ?? true;
   }
 
   /**
@@ -57,6 +57,72 @@ interface PathNode {
   parent: PathNode | null;
 }
 
+/**
+ * Path costs over the whole grid from one root cell (Dijkstra), indexed by y * gridWidth + x.
+ * - 'to' fields hold each cell's cost to reach the root and the next cell on that cheapest
+ *   route (a flow field: walking `next` from any cell reaches the root).
+ * - 'from' fields hold the cost to reach each cell from the root.
+ */
+interface DistanceField {
+  cost: Float64Array; // Infinity where unreachable
+  next: Int32Array; // 'to' fields only; -1 at the root and where unreachable
+}
+
+type DistanceFieldMode = 'to' | 'from';
+
+/**
+ * Binary min-heap used as the A* / Dijkstra open set
+ */
+class MinHeap<T> {
+  private items: T[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, priority: number): void {
+    let i = this.items.length;
+    this.items.push(item);
+    this.priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  /** Remove and return the item with the lowest priority */
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
 /**
  * Cardinal directions for isometric grid movement
  * These correspond to movement along the green dotted rail lines
@@ -74,12 +140,21 @@ const CARDINAL_DIRECTIONS = [
  * Supports different entity types with different movement rules:
  * - Vehicles: Blocked by curbs, fences, parking spot borders; respect lane lines
  * - Pedestrians: Blocked only by fences; ignore lane lines
+ *
+ * When a grid revision callback is set (see setGridRevisionCallback), routes and costs come from
+ * cached distance fields: one per destination for findPath/getPathCost and one per start cell for
+ * getPathCostFrom/isReachable. The cache is dropped whenever the revision changes, i.e. only on grid edits that can
+ * affect movement (GridManager.getPathingRevision). Without the callback every query runs A*.
  */
 export class PathfindingSystem {
   private gridWidth: number;
   private gridHeight: number;
   private isEdgeBlocked: EdgeBlockedCallback;
   private getMoveCost: MoveCostCallback;
+  private getGridRevision?: () => number;
+  private fieldCache: Map<string, DistanceField> = new Map(); // Key: `${mode}:${entityType}:${x},${y}`; insertion order = LRU order
+  private fieldCacheRevision: number | null = null;
+  private readonly maxCachedFields: number = 256;
 
   constructor(
     gridWidth: number,
@@ -95,7 +170,17 @@ export class PathfindingSystem {
   }
 
   /**
-   * Find a path from start to goal using A* algorithm
+   * Enable distance field caching. The callback must return a value that changes whenever the
+   * grid changes in a way that affects movement (edges, surfaces, ploppables).
+   */
+  setGridRevisionCallback(getGridRevision: () => number): void {
+    this.getGridRevision = getGridRevision;
+    this.fieldCache.clear();
+    this.fieldCacheRevision = null;
+  }
+
+  /**
+   * Find a path from start to goal
    * Only allows cardinal movement (N, S, E, W on isometric grid)
    * 
    * @param startX - Start cell X
@@ -103,6 +188,7 @@ export class PathfindingSystem {
    * @param goalX - Goal cell X
    * @param goalY - Goal cell Y
    * @param entityType - Type of entity (affects which obstacles block movement)
+   * @param avoidCells - Optional `${x},${y}` keys to route around (e.g. a cell blocked by a traffic jam); the goal is never avoided. Always runs A* (not cached).
    * @returns Array of {x, y} coordinates representing the path (excluding start), or empty array if no path
    */
   findPath(
@@ -110,7 +196,8 @@ export class PathfindingSystem {
     startY: number,
     goalX: number,
     goalY: number,
-    entityType: PathfindingEntityType
+    entityType: PathfindingEntityType,
+    avoidCells?: ReadonlySet<string>
   ): { x: number; y: number }[] {
     // Validate bounds
     if (!this.isInBounds(startX, startY) || !this.isInBounds(goalX, goalY)) {
@@ -122,81 +209,13 @@ export class PathfindingSystem {
       return [];
     }
 
-    // A* implementation
-    const openSet: PathNode[] = [];
-    const closedSet = new Set<string>();
-    
-    const startNode: PathNode = {
-      x: startX,
-      y: startY,
-      g: 0,
-      h: this.heuristic(startX, startY, goalX, goalY),
-      f: 0,
-      parent: null,
-    };
-    startNode.f = startNode.g + startNode.h;
-    openSet.push(startNode);
-
-    while (openSet.length > 0) {
-      // Get node with lowest f score
-      openSet.sort((a, b) => a.f - b.f);
-      const current = openSet.shift()!;
-      
-      // Check if we reached the goal
-      if (current.x === goalX && current.y === goalY) {
-        return this.reconstructPath(current);
-      }
-
-      const currentKey = `${current.x},${current.y}`;
-      closedSet.add(currentKey);
-
-      // Explore neighbors (cardinal directions only)
-      for (const dir of CARDINAL_DIRECTIONS) {
-        const neighborX = current.x + dir.dx;
-        const neighborY = current.y + dir.dy;
-        const neighborKey = `${neighborX},${neighborY}`;
-
-        // Skip if out of bounds or already visited
-        if (!this.isInBounds(neighborX, neighborY)) continue;
-        if (closedSet.has(neighborKey)) continue;
-
-      // Check if movement is allowed
-      if (!this.canMove(current.x, current.y, dir.name, entityType)) {
-        continue;
-      }
-
-        // Calculate costs
-        // Base cost is 1, plus any penalty for crossing lane lines
-        const moveCostPenalty = this.getMoveCost(current.x, current.y, neighborX, neighborY, dir.name, entityType);
-        const g = current.g + 1 + moveCostPenalty;
-        const h = this.heuristic(neighborX, neighborY, goalX, goalY);
-        const f = g + h;
-
-        // Check if this path to neighbor is better than any previous one
-        const existingIndex = openSet.findIndex(n => n.x === neighborX && n.y === neighborY);
-        if (existingIndex !== -1) {
-          if (g < openSet[existingIndex].g) {
-            // Found a better path to this node
-            openSet[existingIndex].g = g;
-            openSet[existingIndex].f = f;
-            openSet[existingIndex].parent = current;
-          }
-        } else {
-          // New node
-          openSet.push({
-            x: neighborX,
-            y: neighborY,
-            g,
-            h,
-            f,
-            parent: current,
-          });
-        }
-      }
+    if (!avoidCells) {
+      const field = this.getDistanceField(goalX, goalY, entityType, 'to');
+      if (field) return this.followField(field, startX, startY);
     }
 
-    // No path found
-    return [];
+    const goalNode = this.search(startX, startY, goalX, goalY, entityType, avoidCells);
+    return goalNode ? this.reconstructPath(goalNode) : [];
   }
 
   /**
@@ -216,53 +235,205 @@ export class PathfindingSystem {
     if (startX === goalX && startY === goalY) {
       return 0;
     }
-    const openSet: PathNode[] = [];
-    const closedSet = new Set<string>();
-    const startNode: PathNode = {
-      x: startX,
-      y: startY,
-      g: 0,
-      h: this.heuristic(startX, startY, goalX, goalY),
-      f: 0,
-      parent: null,
-    };
-    startNode.f = startNode.g + startNode.h;
-    openSet.push(startNode);
-
-    while (openSet.length > 0) {
-      openSet.sort((a, b) => a.f - b.f);
-      const current = openSet.shift()!;
+    const field = this.getDistanceField(goalX, goalY, entityType, 'to');
+    if (field) return field.cost[this.toIndex(startX, startY)];
+    return this.search(startX, startY, goalX, goalY, entityType)?.g ?? Infinity;
+  }
+
+  /**
+   * Same as getPathCost, but the cached field is keyed by start, so costing many goals from
+   * the same start (e.g. every parking spot from a spawner) shares one field.
+   */
+  getPathCostFrom(
+    startX: number,
+    startY: number,
+    goalX: number,
+    goalY: number,
+    entityType: PathfindingEntityType
+  ): number {
+    if (!this.isInBounds(startX, startY) || !this.isInBounds(goalX, goalY)) {
+      return Infinity;
+    }
+    if (startX === goalX && startY === goalY) {
+      return 0;
+    }
+    const field = this.getDistanceField(startX, startY, entityType, 'from');
+    if (field) return field.cost[this.toIndex(goalX, goalY)];
+    return this.search(startX, startY, goalX, goalY, entityType)?.g ?? Infinity;
+  }
+
+  /**
+   * Whether goal can be reached from start (shares getPathCostFrom's per-start field)
+   */
+  isReachable(
+    startX: number,
+    startY: number,
+    goalX: number,
+    goalY: number,
+    entityType: PathfindingEntityType
+  ): boolean {
+    return this.getPathCostFrom(startX, startY, goalX, goalY, entityType) !== Infinity;
+  }
+
+  /**
+   * A* search from start to goal
+   * @returns the goal node (walk parents for the path), or null if unreachable
+   */
+  private search(
+    startX: number,
+    startY: number,
+    goalX: number,
+    goalY: number,
+    entityType: PathfindingEntityType,
+    avoidCells?: ReadonlySet<string>
+  ): PathNode | null {
+    const openSet = new MinHeap<PathNode>();
+    const bestG = new Float64Array(this.gridWidth * this.gridHeight).fill(Infinity);
+    const closed = new Uint8Array(this.gridWidth * this.gridHeight);
+
+    const h = this.heuristic(startX, startY, goalX, goalY);
+    openSet.push({ x: startX, y: startY, g: 0, h, f: h, parent: null }, h);
+    bestG[this.toIndex(startX, startY)] = 0;
+
+    while (openSet.size > 0) {
+      const current = openSet.pop()!;
+      const currentIndex = this.toIndex(current.x, current.y);
+      // Stale entry: a cheaper route to this cell was already expanded
+      if (closed[currentIndex]) continue;
+      closed[currentIndex] = 1;
+
       if (current.x === goalX && current.y === goalY) {
-        return current.g;
+        return current;
       }
-      const currentKey = `${current.x},${current.y}`;
-      closedSet.add(currentKey);
 
+      // Explore neighbors (cardinal directions only)
       for (const dir of CARDINAL_DIRECTIONS) {
         const neighborX = current.x + dir.dx;
         const neighborY = current.y + dir.dy;
-        const neighborKey = `${neighborX},${neighborY}`;
-        if (!this.isInBounds(neighborX, neighborY) || closedSet.has(neighborKey)) continue;
+
+        // Skip if out of bounds or already visited
+        if (!this.isInBounds(neighborX, neighborY)) continue;
+        const neighborIndex = this.toIndex(neighborX, neighborY);
+        if (closed[neighborIndex]) continue;
+        if (avoidCells?.has(`${neighborX},${neighborY}`) && !(neighborX === goalX && neighborY === goalY)) continue;
+
+        // Check if movement is allowed
         if (!this.canMove(current.x, current.y, dir.name, entityType)) continue;
 
+        // Base cost is 1, plus any penalty for crossing lane lines
         const moveCostPenalty = this.getMoveCost(current.x, current.y, neighborX, neighborY, dir.name, entityType);
         const g = current.g + 1 + moveCostPenalty;
-        const h = this.heuristic(neighborX, neighborY, goalX, goalY);
-        const f = g + h;
-
-        const existingIndex = openSet.findIndex(n => n.x === neighborX && n.y === neighborY);
-        if (existingIndex !== -1) {
-          if (g < openSet[existingIndex].g) {
-            openSet[existingIndex].g = g;
-            openSet[existingIndex].f = f;
-            openSet[existingIndex].parent = current;
-          }
-        } else {
-          openSet.push({ x: neighborX, y: neighborY, g, h, f, parent: current });
+        if (g >= bestG[neighborIndex]) continue;
+        bestG[neighborIndex] = g;
+
+        const neighborH = this.heuristic(neighborX, neighborY, goalX, goalY);
+        openSet.push({ x: neighborX, y: neighborY, g, h: neighborH, f: g + neighborH, parent: current }, g + neighborH);
+      }
+    }
+
+    // No path found
+    return null;
+  }
+
+  /**
+   * Cached distance field rooted at (rootX, rootY), built on first use.
+   * Returns null when caching is disabled (no grid revision callback).
+   */
+  private getDistanceField(
+    rootX: number,
+    rootY: number,
+    entityType: PathfindingEntityType,
+    mode: DistanceFieldMode
+  ): DistanceField | null {
+    if (!this.getGridRevision) return null;
+    const revision = this.getGridRevision();
+    if (revision !== this.fieldCacheRevision) {
+      this.fieldCache.clear();
+      this.fieldCacheRevision = revision;
+    }
+
+    const key = `${mode}:${entityType}:${rootX},${rootY}`;
+    let field = this.fieldCache.get(key);
+    if (field) {
+      // Move to the back of the LRU order
+      this.fieldCache.delete(key);
+    } else {
+      field = this.buildDistanceField(rootX, rootY, entityType, mode);
+      if (this.fieldCache.size >= this.maxCachedFields) {
+        this.fieldCache.delete(this.fieldCache.keys().next().value!);
+      }
+    }
+    this.fieldCache.set(key, field);
+    return field;
+  }
+
+  /**
+   * Dijkstra over the whole grid from the root. 'to' fields relax edges backwards
+   * (predecessor p can move into the current cell), so costs are toward the root.
+   */
+  private buildDistanceField(
+    rootX: number,
+    rootY: number,
+    entityType: PathfindingEntityType,
+    mode: DistanceFieldMode
+  ): DistanceField {
+    const cellCount = this.gridWidth * this.gridHeight;
+    const cost = new Float64Array(cellCount).fill(Infinity);
+    const next = new Int32Array(cellCount).fill(-1);
+    const done = new Uint8Array(cellCount);
+    const openSet = new MinHeap<number>();
+
+    const rootIndex = this.toIndex(rootX, rootY);
+    cost[rootIndex] = 0;
+    openSet.push(rootIndex, 0);
+
+    while (openSet.size > 0) {
+      const index = openSet.pop()!;
+      if (done[index]) continue;
+      done[index] = 1;
+      const x = index % this.gridWidth;
+      const y = (index - x) / this.gridWidth;
+
+      for (const dir of CARDINAL_DIRECTIONS) {
+        // 'from': move x,y → neighbor; 'to': move neighbor → x,y (same direction, neighbor is behind us)
+        const neighborX = mode === 'from' ? x + dir.dx : x - dir.dx;
+        const neighborY = mode === 'from' ? y + dir.dy : y - dir.dy;
+        if (!this.isInBounds(neighborX, neighborY)) continue;
+        const neighborIndex = this.toIndex(neighborX, neighborY);
+        if (done[neighborIndex]) continue;
+
+        const [fromX, fromY, toX, toY] = mode === 'from'
+          ? [x, y, neighborX, neighborY]
+          : [neighborX, neighborY, x, y];
+        if (!this.canMove(fromX, fromY, dir.name, entityType)) continue;
+
+        const neighborCost = cost[index] + 1 + this.getMoveCost(fromX, fromY, toX, toY, dir.name, entityType);
+        if (neighborCost < cost[neighborIndex]) {
+          cost[neighborIndex] = neighborCost;
+          if (mode === 'to') next[neighborIndex] = index;
+          openSet.push(neighborIndex, neighborCost);
         }
       }
     }
-    return Infinity;
+
+    return { cost, next };
+  }
+
+  /**
+   * Walk a 'to' field from start to its root
+   * @returns the path excluding start, or empty array if the root is unreachable
+   */
+  private followField(field: DistanceField, startX: number, startY: number): { x: number; y: number }[] {
+    let index = this.toIndex(startX, startY);
+    if (field.cost[index] === Infinity) return [];
+
+    const path: { x: number; y: number }[] = [];
+    while (field.next[index] !== -1) {
+      index = field.next[index];
+      const x = index % this.gridWidth;
+      path.push({ x, y: (index - x) / this.gridWidth });
+    }
+    return path;
   }
 
   /**
@@ -384,6 +555,10 @@ export class PathfindingSystem {
     return Math.abs(x2 - x1) + Math.abs(y2 - y1);
   }
 
+  private toIndex(x: number, y: number): number {
+    return y * this.gridWidth + x;
+  }
+
   /**
    * Check if coordinates are within grid bounds
    */
@@ -417,6 +592,8 @@ export class PathfindingSystem {
   setGridSize(width: number, height: number): void {
     this.gridWidth = width;
     this.gridHeight = height;
+    this.fieldCache.clear();
+    this.fieldCacheRevision = null;
   }
 }
 
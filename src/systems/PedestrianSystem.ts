@@ -1,4 +1,4 @@
-import { CellData, Ploppable } from '@/types';
+import { CellData, Ploppable, Pedestrian, NeedType, ParkerArchetypeId, RatingReason } from '@/types';
 import { PedestrianEntity } from '@/entities/Pedestrian';
 import { isoToScreen } from '@/utils/isometric';
 import { PathfindingSystem, EdgeBlockedCallback, MoveCostCallback } from './PathfindingSystem';
@@ -7,6 +7,16 @@ import { GridManager } from '@/core/GridManager';
 import { TimeSystem } from './TimeSystem';
 import { MessageSystem } from './MessageSystem';
 import { GameSystems } from '@/core/GameSystems';
+import { unfulfilledNeedReason } from './RatingSystem';
+import { getNeedDefinition, getNeedDefinitions } from '@/config/needs.config';
+import { getParkerArchetype, getParkerPenaltyWeight, weightNeedDistribution } from '@/config/parkerArchetypes.config';
+
+/**
+ * Serializable pedestrian state for save games. Destinations are rebuilt from the grid.
+ */
+export interface PedestrianSystemSaveState {
+  pedestrians: Pedestrian[];
+}
 
 export class PedestrianSystem {
   private pedestrians: PedestrianEntity[] = [];
@@ -22,9 +32,9 @@ export class PedestrianSystem {
   private pathfindingSystem: PathfindingSystem;
   private gridManager: GridManager;
   private needGenerationProbability: number; // Probability (0-1) that a pedestrian will have a need
-  private needTypeDistribution: Record<'trash' | 'thirst' | 'toilet', number>; // Distribution weights for each need type (must sum to 1.0)
+  private needTypeDistribution: Record<NeedType, number>; // Distribution weights for each need type (must sum to 1.0)
   private unfulfilledToiletEndsStay: boolean = false; // Drive-In Disaster: unfulfilled toilet → parker bails
-  private onParkerEarlyExit: ((vehicleId: string) => void) | null = null; // Wired to VehicleSystem.forceParkerEarlyExit
+  private onParkerEarlyExit: ((vehicleId: string, reason: RatingReason) => void) | null = null; // Wired to VehicleSystem.forceParkerEarlyExit
 
   constructor(
     gridWidth: number,
@@ -55,6 +65,14 @@ export class PedestrianSystem {
     );
   }
 
+  /**
+   * Let pathfinding cache distance fields, invalidated when the revision changes
+   * (see GridManager.getPathingRevision)
+   */
+  setGridRevisionCallback(getGridRevision: () => number): void {
+    this.pathfindingSystem.setGridRevisionCallback(getGridRevision);
+  }
+
   /**
    * Set respawn duration range in ms (real-time). Default 5000–15000. Ignored when respawn bands are set.
    */
@@ -70,22 +88,31 @@ export class PedestrianSystem {
     this.respawnBands = bands.filter(b => b.weight > 0 && b.maxMs >= b.minMs);
   }
 
-  private pickRespawnDurationMs(): number {
+  /**
+   * Roll how long a pedestrian stays at their destination, scaled by the parker's archetype
+   */
+  private pickRespawnDurationMs(archetype?: ParkerArchetypeId): number {
+    const duration = this.rollRespawnDurationMs();
+    const stayScale = getParkerArchetype(archetype)?.stayDurationScale;
+    return stayScale ? duration * GameSystems.random.range(stayScale[0], stayScale[1]) : duration;
+  }
+
+  private rollRespawnDurationMs(): number {
     if (this.respawnBands.length > 0) {
-      const r = Math.random();
+      const r = GameSystems.random.next();
       let cumulative = 0;
       for (const band of this.respawnBands) {
         cumulative += band.weight;
         if (r < cumulative) {
           const span = Math.max(0, band.maxMs - band.minMs);
-          return band.minMs + Math.random() * span;
+          return band.minMs + GameSystems.random.next() * span;
         }
       }
       const last = this.respawnBands[this.respawnBands.length - 1];
-      return last.minMs + Math.random() * Math.max(0, last.maxMs - last.minMs);
+      return last.minMs + GameSystems.random.next() * Math.max(0, last.maxMs - last.minMs);
     }
     const span = Math.max(0, this.maxRespawnDuration - this.minRespawnDuration);
-    return this.minRespawnDuration + Math.random() * span;
+    return this.minRespawnDuration + GameSystems.random.next() * span;
   }
 
   /**
@@ -105,28 +132,89 @@ export class PedestrianSystem {
   }
 
   /**
-   * Generate a random need for a pedestrian based on probability and need type distribution
+   * Generate a random need for a pedestrian based on probability and need type distribution,
+   * both scaled by the parker's archetype
    */
-  private generateNeed(): 'trash' | 'thirst' | 'toilet' | null {
+  private generateNeed(archetype?: ParkerArchetypeId): NeedType | null {
     // First check: should we generate a need at all?
-    const randomValue = Math.random();
-    if (randomValue >= this.needGenerationProbability) {
+    const randomValue = GameSystems.random.next();
+    const needChance = this.needGenerationProbability * (getParkerArchetype(archetype)?.needChanceScale ?? 1);
+    if (randomValue >= needChance) {
       return null;
     }
     
     // Second check: which specific need type based on distribution
-    const randomNeedValue = Math.random();
+    return this.pickNeedType(GameSystems.random.next(), archetype);
+  }
+
+  /**
+   * Map a roll in [0, 1) onto the need type distribution (weighted by the parker's archetype)
+   */
+  private pickNeedType(roll: number, archetype?: ParkerArchetypeId): NeedType | null {
     let cumulative = 0;
-    
-    for (const [needType, weight] of Object.entries(this.needTypeDistribution)) {
+    let lastWeighted: NeedType | null = null;
+    for (const [needType, weight] of Object.entries(weightNeedDistribution(this.needTypeDistribution, archetype))) {
+      if (weight <= 0) continue;
       cumulative += weight;
-      if (randomNeedValue < cumulative) {
-        return needType as 'trash' | 'thirst' | 'toilet';
+      lastWeighted = needType;
+      if (roll < cumulative) {
+        return needType;
       }
     }
     
-    // Fallback (shouldn't happen if distribution is valid, but just in case)
-    return 'trash';
+    // Rounding left the weights just short of 1
+    return lastWeighted;
+  }
+
+  /**
+   * Track a need that couldn't be fulfilled (penalized when the parker leaves) and show the reaction
+   */
+  private recordUnfulfilledNeed(pedestrian: PedestrianEntity, needType: NeedType): void {
+    if (!pedestrian.unfulfilledNeeds) {
+      pedestrian.unfulfilledNeeds = [];
+    }
+    pedestrian.unfulfilledNeeds.push(needType);
+    if (pedestrian.name) {
+      MessageSystem.needUnfulfilled(pedestrian.name, needType);
+    }
+    this.dropLitterForUnfulfilledNeed(needType, pedestrian.x, pedestrian.y);
+  }
+
+  /**
+   * Littering needs (e.g. trash with nowhere to put it) leave litter where they went unfulfilled
+   */
+  private dropLitterForUnfulfilledNeed(needType: NeedType, x: number, y: number): void {
+    if (getNeedDefinition(needType)?.littersWhenUnfulfilled) {
+      GameSystems.maintenance.addLitter(this.gridManager, x, y, this.gridWidth, this.gridHeight);
+    }
+  }
+
+  /**
+   * Pick the destination a parker's driver will walk to. Undefined when the lot has none.
+   */
+  pickDestination(): { x: number; y: number } | undefined {
+    const destinations = this.getDestinations();
+    return destinations.length > 0 ? GameSystems.random.pick(destinations) : undefined;
+  }
+
+  /**
+   * For each cell (e.g. candidate parking spots), the walking cost to the parker's destination (the
+   * closest reachable one when they have none) and to the closest reachable need ploppable of any
+   * type. Infinity when there is none.
+   */
+  getWalkingCostsFrom(cells: { x: number; y: number }[], destination?: { x: number; y: number }): { destination: number; need: number }[] {
+    const destinations = destination ? [destination] : this.getDestinations();
+    const needTargets = getNeedDefinitions().flatMap(need =>
+      NeedsSystem.getPloppablesForNeed(need.id, this.gridManager, this.gridWidth, this.gridHeight)
+        .map(ploppable => NeedsSystem.getNeedTargetPosition(ploppable))
+    );
+    const closest = (x: number, y: number, targets: { x: number; y: number }[]) =>
+      targets.reduce((best, t) => Math.min(best, this.pathfindingSystem.getPathCost(x, y, t.x, t.y, 'pedestrian')), Infinity);
+
+    return cells.map(({ x, y }) => ({
+      destination: closest(x, y, destinations),
+      need: closest(x, y, needTargets),
+    }));
   }
 
   /**
@@ -134,13 +222,15 @@ export class PedestrianSystem {
    * When destX/destY are provided (entry route: car → spawner), picks the option that minimizes
    * cost(start → need spot) + cost(need spot → dest). Otherwise minimizes cost(start → need spot).
    * Uses the same path cost as pedestrian pathfinding (concrete favor, etc.).
+   * isCandidate optionally narrows the options (e.g. only ploppables with a free service slot).
    */
   private findReachablePloppableForNeed(
-    needType: 'trash' | 'thirst' | 'toilet',
+    needType: NeedType,
     startX: number,
     startY: number,
     destX?: number,
-    destY?: number
+    destY?: number,
+    isCandidate?: (ploppable: Ploppable) => boolean
   ): Ploppable | null {
     const ploppables = NeedsSystem.getPloppablesForNeed(
       needType,
@@ -156,6 +246,7 @@ export class PedestrianSystem {
     let best: { ploppable: Ploppable; cost: number } | null = null;
 
     for (const ploppable of ploppables) {
+      if (isCandidate && !isCandidate(ploppable)) continue;
       const target = NeedsSystem.getNeedTargetPosition(ploppable);
       const toNeed = this.pathfindingSystem.getPathCost(startX, startY, target.x, target.y, 'pedestrian');
       if (toNeed === Infinity) continue;
@@ -182,7 +273,7 @@ export class PedestrianSystem {
     startX: number,
     startY: number
   ): boolean {
-    const needType = this.generateNeed();
+    const needType = this.generateNeed(pedestrian.archetype);
     if (!needType) {
       return false; // No need generated
     }
@@ -196,22 +287,7 @@ export class PedestrianSystem {
     );
     if (!ploppable) {
       // Need was generated but no reachable ploppable found - track as unfulfilled
-      if (!pedestrian.unfulfilledNeeds) {
-        pedestrian.unfulfilledNeeds = [];
-      }
-      pedestrian.unfulfilledNeeds.push(needType);
-      
-      // Show message about unfulfilled need
-      if (pedestrian.name) {
-        if (needType === 'thirst') {
-          MessageSystem.thirstUnfulfilled(pedestrian.name);
-        } else if (needType === 'toilet') {
-          MessageSystem.toiletUnfulfilled(pedestrian.name);
-        } else if (needType === 'trash') {
-          MessageSystem.trashUnfulfilled(pedestrian.name);
-        }
-      }
-      
+      this.recordUnfulfilledNeed(pedestrian, needType);
       return false;
     }
     
@@ -239,21 +315,7 @@ export class PedestrianSystem {
     }
     
     // Couldn't find path - track as unfulfilled need
-    if (!pedestrian.unfulfilledNeeds) {
-      pedestrian.unfulfilledNeeds = [];
-    }
-    pedestrian.unfulfilledNeeds.push(needType);
-    
-    // Show message about unfulfilled need
-    if (pedestrian.name) {
-      if (needType === 'thirst') {
-        MessageSystem.thirstUnfulfilled(pedestrian.name);
-      } else if (needType === 'toilet') {
-        MessageSystem.toiletUnfulfilled(pedestrian.name);
-      } else if (needType === 'trash') {
-        MessageSystem.trashUnfulfilled(pedestrian.name);
-      }
-    }
+    this.recordUnfulfilledNeed(pedestrian, needType);
     
     // Clear the need since it can't be fulfilled
     pedestrian.currentNeed = null;
@@ -266,12 +328,15 @@ export class PedestrianSystem {
 
   /**
    * Spawn a pedestrian from a vehicle (when vehicle parks)
+   * @param destination - The parker's destination (see pickDestination); tried first while it still exists
    */
   spawnPedestrianFromVehicle(
     vehicleId: string,
     vehicleX: number,
     vehicleY: number,
-    vehicleName?: string
+    vehicleName?: string,
+    archetype?: ParkerArchetypeId,
+    destination?: { x: number; y: number }
   ): void {
     // Find a random destination from available destinations that is reachable
     const destinations = this.getDestinations();
@@ -280,8 +345,10 @@ export class PedestrianSystem {
       return;
     }
     
-    // Shuffle destinations and try to find a reachable one
-    const shuffled = [...destinations].sort(() => Math.random() - 0.5);
+    // Shuffle destinations and try to find a reachable one, starting with the parker's own
+    const shuffled = GameSystems.random.shuffle(destinations);
+    const ownIndex = destination ? shuffled.findIndex(d => d.x === destination.x && d.y === destination.y) : -1;
+    if (ownIndex > 0) shuffled.unshift(...shuffled.splice(ownIndex, 1));
     
     let selectedDestination: { x: number; y: number } | null = null;
     let pathToDestination: { x: number; y: number }[] = [];
@@ -309,8 +376,8 @@ export class PedestrianSystem {
     }
     
     // Random speed and respawn duration (bands override min/max)
-    const speed = this.minSpeed + Math.random() * (this.maxSpeed - this.minSpeed);
-    const respawnDuration = this.pickRespawnDurationMs();
+    const speed = GameSystems.random.range(this.minSpeed, this.maxSpeed);
+    const respawnDuration = this.pickRespawnDurationMs(archetype);
     
     const pedestrian = new PedestrianEntity(
       vehicleId,
@@ -321,8 +388,10 @@ export class PedestrianSystem {
       pathToDestination,
       speed,
       respawnDuration,
-      vehicleName
+      vehicleName,
+      archetype
     );
+    this.checkWalkingDistance(pedestrian, pathToDestination.length);
     
     // Set initial screen position (cell center at vehicle)
     const spawnScreenPos = isoToScreen(vehicleX, vehicleY);
@@ -361,6 +430,21 @@ export class PedestrianSystem {
     this.pedestrians = this.pedestrians.filter(p => p.vehicleId !== vehicleId);
   }
 
+  /**
+   * Parkers with an archetype lose 1 rating point (times their longWalk weight) per tile their
+   * walk to the destination runs past their walking tolerance, and complain
+   */
+  private checkWalkingDistance(pedestrian: PedestrianEntity, walkTiles: number): void {
+    const archetype = getParkerArchetype(pedestrian.archetype);
+    if (!archetype) return;
+    const tilesOver = walkTiles - archetype.walkingToleranceTiles;
+    if (tilesOver <= 0) return;
+    GameSystems.rating.updateParkerScore(pedestrian.vehicleId, -tilesOver * getParkerPenaltyWeight(archetype.id, 'longWalk'), 'longWalk');
+    if (pedestrian.name) {
+      MessageSystem.longWalk(pedestrian.name);
+    }
+  }
+
   /**
    * Drive-In: report an unfulfilled movie-goer need — message + -10 rating hit on the parker.
    * Mirrors the standard unfulfilled-need behavior from `setupNeedForPedestrian`, but without
@@ -368,26 +452,28 @@ export class PedestrianSystem {
    */
   private reportMovieGoerUnfulfilledNeed(
     vehicleId: string,
-    needType: 'trash' | 'thirst' | 'toilet',
-    vehicleName?: string
+    needType: NeedType,
+    x: number,
+    y: number,
+    vehicleName?: string,
+    archetype?: ParkerArchetypeId
   ): void {
     if (vehicleName) {
-      if (needType === 'thirst') {
-        MessageSystem.thirstUnfulfilled(vehicleName);
-      } else if (needType === 'toilet') {
-        MessageSystem.toiletUnfulfilled(vehicleName);
-      } else if (needType === 'trash') {
-        MessageSystem.trashUnfulfilled(vehicleName);
-      }
+      MessageSystem.needUnfulfilled(vehicleName, needType);
     }
+    this.dropLitterForUnfulfilledNeed(needType, x, y);
     // Drive-In Disaster: an unfulfilled TOILET need is catastrophic — the parker bails on the show.
-    // The early-exit callback zeroes their parker score (matching "couldn't find a spot"), so we
-    // skip the usual −10 delta to avoid double-counting. Other need types keep the normal penalty.
+    // The early-exit callback zeroes their parker score under the unfulfilled need, so we skip the
+    // usual penalty to avoid double-counting. Other need types keep the normal penalty.
     if (needType === 'toilet' && this.unfulfilledToiletEndsStay && this.onParkerEarlyExit) {
-      this.onParkerEarlyExit(vehicleId);
+      this.onParkerEarlyExit(vehicleId, unfulfilledNeedReason(needType));
       return;
     }
-    GameSystems.rating.updateParkerScore(vehicleId, -10);
+    GameSystems.rating.updateParkerScore(
+      vehicleId,
+      -(getNeedDefinition(needType)?.unfulfilledPenalty ?? 10) * getParkerPenaltyWeight(archetype, 'unfulfilledNeed'),
+      unfulfilledNeedReason(needType)
+    );
   }
 
   /**
@@ -400,20 +486,12 @@ export class PedestrianSystem {
     vehicleId: string,
     vehicleX: number,
     vehicleY: number,
-    vehicleName?: string
+    vehicleName?: string,
+    archetype?: ParkerArchetypeId
   ): void {
     // Pick a need type directly from the distribution (bypass needGenerationProbability;
     // the 0/1/2 event count already gates "how often").
-    let needType: 'trash' | 'thirst' | 'toilet' | null = null;
-    const r = Math.random();
-    let cumulative = 0;
-    for (const [type, weight] of Object.entries(this.needTypeDistribution)) {
-      cumulative += weight;
-      if (r < cumulative) {
-        needType = type as 'trash' | 'thirst' | 'toilet';
-        break;
-      }
-    }
+    const needType = this.pickNeedType(GameSystems.random.next(), archetype);
     if (!needType) return;
 
     const ploppable = this.findReachablePloppableForNeed(needType, vehicleX, vehicleY);
@@ -422,7 +500,7 @@ export class PedestrianSystem {
       // show the message and apply a -10 rating hit to this parker. We apply it directly to the
       // vehicle's running parker score because there's no persistent ped to hold the unfulfilled
       // list until vehicle despawn (movie-goer need-trip peds are one-shot).
-      this.reportMovieGoerUnfulfilledNeed(vehicleId, needType, vehicleName);
+      this.reportMovieGoerUnfulfilledNeed(vehicleId, needType, vehicleX, vehicleY, vehicleName, archetype);
       return;
     }
 
@@ -430,11 +508,11 @@ export class PedestrianSystem {
     const pathToNeed = this.pathfindingSystem.findPath(vehicleX, vehicleY, target.x, target.y, 'pedestrian');
     if (pathToNeed.length === 0 && !(vehicleX === target.x && vehicleY === target.y)) {
       // Ploppable exists but no walkable path from the car — still counts as unfulfilled.
-      this.reportMovieGoerUnfulfilledNeed(vehicleId, needType, vehicleName);
+      this.reportMovieGoerUnfulfilledNeed(vehicleId, needType, vehicleX, vehicleY, vehicleName, archetype);
       return;
     }
 
-    const speed = this.minSpeed + Math.random() * (this.maxSpeed - this.minSpeed);
+    const speed = GameSystems.random.range(this.minSpeed, this.maxSpeed);
     // Pass the vehicle's own position as "destination" for the entity constructor, then clear it
     // so completeNeedFulfillment treats this as a return-to-vehicle trip.
     const ped = new PedestrianEntity(
@@ -446,7 +524,8 @@ export class PedestrianSystem {
       pathToNeed,
       speed,
       0,
-      vehicleName
+      vehicleName,
+      archetype
     );
     ped.destinationX = undefined;
     ped.destinationY = undefined;
@@ -493,23 +572,21 @@ export class PedestrianSystem {
         this.updatePedestrianMoving(pedestrian, delta, 'need');
       }
       
-      // Handle fulfilling need (waiting at vending machine, or instant for trash can)
+      // Handle waiting in line at a full need ploppable
+      if (pedestrian.state === 'queued_for_need') {
+        this.updateQueuedPedestrian(pedestrian);
+      }
+      
+      // Handle fulfilling need (timed wait, e.g. at a vending machine)
       if (pedestrian.state === 'fulfilling_need') {
-        if (pedestrian.currentNeed === 'thirst' && pedestrian.needFulfillmentStartTime !== undefined) {
-          // Check if timer has expired (2 in-game minutes)
-          const timeSystem = TimeSystem.getInstance();
-          const currentGameTime = timeSystem.getTotalMinutes();
-          const elapsedMinutes = currentGameTime - pedestrian.needFulfillmentStartTime;
-          
-          // Handle day rollover (if game time rolled over midnight)
-          const elapsedMinutesAdjusted = elapsedMinutes < 0 ? elapsedMinutes + 1440 : elapsedMinutes;
-          
-          if (elapsedMinutesAdjusted >= 2) {
+        if (pedestrian.needFulfillmentStartTime !== undefined) {
+          // Check if the wait has elapsed (in-game minutes)
+          if (this.getGameMinutesSince(pedestrian.needFulfillmentStartTime) >= (pedestrian.needFulfillmentMinutes ?? 0)) {
             // Timer expired - need fulfilled, restore speed and continue to destination
             this.completeNeedFulfillment(pedestrian);
           }
-        } else if (pedestrian.currentNeed === 'trash') {
-          // Trash can is instant - need already fulfilled when reached
+        } else {
+          // Nothing to wait for - need already fulfilled when reached
           this.completeNeedFulfillment(pedestrian);
         }
       }
@@ -521,13 +598,13 @@ export class PedestrianSystem {
       
       // Handle despawned state - count down respawn timer
       if (pedestrian.state === 'despawned') {
-        // Check if this is a toilet need despawn (using needFulfillmentTimer) or normal despawn (using respawnTimer)
-        if (pedestrian.needFulfillmentTimer !== undefined && pedestrian.currentNeed === 'toilet') {
-          // Toilet need: count down the toilet timer
+        // Check if this is a need despawn (using needFulfillmentTimer) or normal despawn (using respawnTimer)
+        if (pedestrian.needFulfillmentTimer !== undefined && pedestrian.currentNeed) {
+          // Despawn need (e.g. toilet): count down the time spent inside
           pedestrian.needFulfillmentTimer -= delta;
           
           if (pedestrian.needFulfillmentTimer <= 0) {
-            // Time to respawn at front face of toilet
+            // Time to respawn at front face of the ploppable
             if (pedestrian.needTargetX !== undefined && pedestrian.needTargetY !== undefined) {
               // Respawn at the front face position
               pedestrian.x = pedestrian.needTargetX;
@@ -536,7 +613,7 @@ export class PedestrianSystem {
               pedestrian.screenX = respawnScreenPos.x;
               pedestrian.screenY = respawnScreenPos.y;
               
-              // Clear toilet need and continue to destination
+              // Clear the need and continue to destination
               this.completeNeedFulfillment(pedestrian);
             } else {
               // Fallback: complete need fulfillment normally
@@ -652,6 +729,15 @@ export class PedestrianSystem {
         pedestrian.y = target.y;
         pedestrian.currentPathIndex++;
         
+        // One step from a need ploppable that's at capacity: wait in line on this cell
+        if (targetType === 'need' && pedestrian.currentPathIndex === pedestrian.path.length - 1) {
+          const needPloppable = pedestrian.needTargetPloppableId ? this.findPloppableById(pedestrian.needTargetPloppableId) : null;
+          if (needPloppable && this.shouldQueueForNeed(pedestrian, needPloppable)) {
+            this.joinNeedQueue(pedestrian);
+            return;
+          }
+        }
+        
         // Check if reached final destination
         if (pedestrian.currentPathIndex >= pedestrian.path.length) {
           this.handlePedestrianArrival(pedestrian, targetType);
@@ -733,10 +819,13 @@ export class PedestrianSystem {
     pedestrian.needTargetY = undefined;
     pedestrian.needFulfillmentTimer = undefined;
     pedestrian.needFulfillmentStartTime = undefined;
+    pedestrian.needFulfillmentMinutes = undefined;
+    pedestrian.needServiceSlot = undefined;
+    pedestrian.needQueueStartTime = undefined;
     
     // Restore speed (was set to 0 for vending machine)
     if (pedestrian.speed === 0) {
-      pedestrian.speed = this.minSpeed + Math.random() * (this.maxSpeed - this.minSpeed);
+      pedestrian.speed = GameSystems.random.range(this.minSpeed, this.maxSpeed);
     }
     
     // Find path to target
@@ -782,6 +871,8 @@ export class PedestrianSystem {
       if (pedestrian.destinationX !== undefined && pedestrian.destinationY !== undefined &&
           pedestrian.x === pedestrian.destinationX && pedestrian.y === pedestrian.destinationY) {
         this.checkConcreteTilePercentage(pedestrian);
+        // Merchant validation: the parker's stay gets the billing policy's validation discount
+        GameSystems.parkingTimer.validateParking(pedestrian.vehicleId);
         pedestrian.state = 'despawned';
         pedestrian.respawnTimer = pedestrian.respawnDuration;
       }
@@ -809,41 +900,43 @@ export class PedestrianSystem {
           pedestrian.x === pedestrian.needTargetX && pedestrian.y === pedestrian.needTargetY) {
         // Find the ploppable to verify need fulfillment
         if (pedestrian.needTargetPloppableId) {
-          // Find ploppable in grid
-          let targetPloppable: Ploppable | null = null;
-          for (let x = 0; x < this.gridWidth; x++) {
-            for (let y = 0; y < this.gridHeight; y++) {
-              const cellData = this.gridManager.getCellData(x, y);
-              if (cellData && cellData.ploppable && cellData.ploppable.id === pedestrian.needTargetPloppableId) {
-                targetPloppable = cellData.ploppable;
-                break;
-              }
-            }
-            if (targetPloppable) break;
-          }
+          const targetPloppable = this.findPloppableById(pedestrian.needTargetPloppableId);
           
           if (targetPloppable && NeedsSystem.hasReachedNeedTarget(pedestrian.x, pedestrian.y, targetPloppable)) {
+            // Filled up on the way: look for another one or give up
+            if (GameSystems.maintenance.isFull(targetPloppable)) {
+              this.rerouteOrAbandonNeed(pedestrian);
+              return;
+            }
+            // At capacity (e.g. spawned right next to it): wait in line here
+            if (this.shouldQueueForNeed(pedestrian, targetPloppable)) {
+              this.joinNeedQueue(pedestrian);
+              return;
+            }
             this.checkConcreteTilePercentage(pedestrian);
-            if (NeedsSystem.needRequiresDespawn(pedestrian.currentNeed!)) {
-              // Portable toilet: despawn, wait 2-10 seconds (real time), then respawn at front face
+            GameSystems.maintenance.recordUse(targetPloppable);
+            const mode = NeedsSystem.getFulfillmentMode(pedestrian.currentNeed!);
+            pedestrian.needServiceSlot = mode !== 'instant';
+            if (mode === 'despawn') {
+              // e.g. portable toilet: despawn for the rolled duration, then respawn at front face
               // Store the respawn location (front face position)
               pedestrian.needTargetX = pedestrian.x;
               pedestrian.needTargetY = pedestrian.y;
-              // Generate random wait time between 2-10 seconds (real time, which is 2-10 in-game minutes)
-              const waitTimeSeconds = 2 + Math.random() * 8; // 2 to 10 seconds
-              pedestrian.needFulfillmentTimer = waitTimeSeconds * 1000; // Convert to milliseconds
+              // 1 in-game minute = 1 real second
+              pedestrian.needFulfillmentTimer = NeedsSystem.rollNeedDurationMinutes(pedestrian.currentNeed!, targetPloppable.type) * 1000;
               pedestrian.state = 'despawned';
               // Clear path and position to make them invisible
               pedestrian.path = [];
               pedestrian.currentPathIndex = 0;
-            } else if (NeedsSystem.needRequiresTimer(pedestrian.currentNeed!)) {
-              // Vending machine: stop movement and start timer (2 in-game minutes)
+            } else if (mode === 'timed') {
+              // e.g. vending machine: stop movement and wait the rolled duration (in-game minutes)
               const timeSystem = TimeSystem.getInstance();
               pedestrian.needFulfillmentStartTime = timeSystem.getTotalMinutes();
+              pedestrian.needFulfillmentMinutes = NeedsSystem.rollNeedDurationMinutes(pedestrian.currentNeed!, targetPloppable.type);
               pedestrian.speed = 0; // Stop movement while waiting
               pedestrian.state = 'fulfilling_need';
             } else {
-              // Trash can - instant fulfillment
+              // e.g. trash can - instant fulfillment
               this.completeNeedFulfillment(pedestrian);
             }
           }
@@ -852,6 +945,151 @@ export class PedestrianSystem {
     }
   }
 
+  /**
+   * Find a placed ploppable by id
+   */
+  private findPloppableById(ploppableId: string): Ploppable | null {
+    for (let x = 0; x < this.gridWidth; x++) {
+      for (let y = 0; y < this.gridHeight; y++) {
+        const cellData = this.gridManager.getCellData(x, y);
+        if (cellData && cellData.ploppable && cellData.ploppable.id === ploppableId) {
+          return cellData.ploppable;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Game minutes elapsed since a getTotalMinutes() timestamp (handles day rollover)
+   */
+  private getGameMinutesSince(startMinutes: number): number {
+    const elapsedMinutes = TimeSystem.getInstance().getTotalMinutes() - startMinutes;
+    return elapsedMinutes < 0 ? elapsedMinutes + 1440 : elapsedMinutes;
+  }
+
+  /**
+   * Pedestrians holding one of a ploppable's service slots (being served, or walking in from the line)
+   */
+  private getNeedSlotsInUse(ploppableId: string): number {
+    return this.pedestrians.filter(p => p.needServiceSlot && p.needTargetPloppableId === ploppableId).length;
+  }
+
+  /**
+   * Pedestrians waiting in line at a ploppable, longest wait first
+   */
+  private getNeedQueue(ploppableId: string): PedestrianEntity[] {
+    return this.pedestrians
+      .filter(p => p.state === 'queued_for_need' && p.needTargetPloppableId === ploppableId)
+      .sort((a, b) => this.getGameMinutesSince(b.needQueueStartTime ?? 0) - this.getGameMinutesSince(a.needQueueStartTime ?? 0));
+  }
+
+  /**
+   * Whether a ploppable can't take another pedestrian right now (all slots taken or a line has formed)
+   */
+  private isNeedPloppableFull(ploppable: Ploppable, needType: NeedType): boolean {
+    const capacity = NeedsSystem.getServiceCapacity(ploppable, needType);
+    if (capacity === Infinity) {
+      return false;
+    }
+    return this.getNeedSlotsInUse(ploppable.id) >= capacity || this.getNeedQueue(ploppable.id).length > 0;
+  }
+
+  /**
+   * Whether an arriving pedestrian has to wait in line (they already hold a slot when let in from the line)
+   */
+  private shouldQueueForNeed(pedestrian: PedestrianEntity, ploppable: Ploppable): boolean {
+    return !pedestrian.needServiceSlot && !!pedestrian.currentNeed &&
+      this.isNeedPloppableFull(ploppable, pedestrian.currentNeed);
+  }
+
+  /**
+   * Stop on the current cell and wait in line for the need ploppable
+   */
+  private joinNeedQueue(pedestrian: PedestrianEntity): void {
+    pedestrian.state = 'queued_for_need';
+    pedestrian.needQueueStartTime = TimeSystem.getInstance().getTotalMinutes();
+    pedestrian.path = [];
+    pedestrian.currentPathIndex = 0;
+  }
+
+  private static readonly DEFAULT_QUEUE_PATIENCE_MINUTES = 10;
+
+  /**
+   * Waiting in line: walk in when a slot frees up and they're at the front; once patience runs
+   * out, re-route to another ploppable with a free slot or give up on the need
+   */
+  private updateQueuedPedestrian(pedestrian: PedestrianEntity): void {
+    const needType = pedestrian.currentNeed;
+    const ploppable = pedestrian.needTargetPloppableId ? this.findPloppableById(pedestrian.needTargetPloppableId) : null;
+    if (!needType || !ploppable || GameSystems.maintenance.isFull(ploppable)) {
+      // Ploppable was removed (or filled up) while they waited
+      this.rerouteOrAbandonNeed(pedestrian);
+      return;
+    }
+
+    const capacity = NeedsSystem.getServiceCapacity(ploppable, needType);
+    if (this.getNeedSlotsInUse(ploppable.id) < capacity && this.getNeedQueue(ploppable.id)[0] === pedestrian) {
+      // Front of the line and a slot is free: claim it and step up to the ploppable
+      pedestrian.needServiceSlot = true;
+      pedestrian.needQueueStartTime = undefined;
+      const target = NeedsSystem.getNeedTargetPosition(ploppable);
+      pedestrian.path = this.pathfindingSystem.findPath(pedestrian.x, pedestrian.y, target.x, target.y, 'pedestrian');
+      pedestrian.currentPathIndex = 0;
+      pedestrian.state = 'going_to_need';
+      return;
+    }
+
+    const patience = getNeedDefinition(needType)?.queuePatienceMinutes ?? PedestrianSystem.DEFAULT_QUEUE_PATIENCE_MINUTES;
+    if (this.getGameMinutesSince(pedestrian.needQueueStartTime ?? 0) >= patience) {
+      this.rerouteOrAbandonNeed(pedestrian);
+    }
+  }
+
+  /**
+   * Leave the line (or a ploppable that filled up): head for another reachable ploppable with a
+   * free slot, or count the need as unfulfilled and carry on to the next destination
+   */
+  private rerouteOrAbandonNeed(pedestrian: PedestrianEntity): void {
+    const needType = pedestrian.currentNeed;
+    if (!needType) {
+      return;
+    }
+    pedestrian.needQueueStartTime = undefined;
+    pedestrian.needServiceSlot = undefined;
+
+    const alternative = this.findReachablePloppableForNeed(
+      needType,
+      pedestrian.x,
+      pedestrian.y,
+      pedestrian.destinationX,
+      pedestrian.destinationY,
+      ploppable => ploppable.id !== pedestrian.needTargetPloppableId && !this.isNeedPloppableFull(ploppable, needType)
+    );
+    if (alternative) {
+      const target = NeedsSystem.getNeedTargetPosition(alternative);
+      const pathToNeed = this.pathfindingSystem.findPath(pedestrian.x, pedestrian.y, target.x, target.y, 'pedestrian');
+      if (pathToNeed.length > 0 || (pedestrian.x === target.x && pedestrian.y === target.y)) {
+        pedestrian.needTargetPloppableId = alternative.id;
+        pedestrian.needTargetX = target.x;
+        pedestrian.needTargetY = target.y;
+        this.startNewTrip(pedestrian);
+        pedestrian.path = pathToNeed;
+        pedestrian.currentPathIndex = 0;
+        pedestrian.state = 'going_to_need';
+        return;
+      }
+    }
+
+    // Gave up waiting - same outcome as having nowhere to fulfill the need
+    if (pedestrian.isMovieGoerNeedTrip) {
+      this.reportMovieGoerUnfulfilledNeed(pedestrian.vehicleId, needType, pedestrian.x, pedestrian.y, pedestrian.name);
+    } else {
+      this.recordUnfulfilledNeed(pedestrian, needType);
+    }
+    this.completeNeedFulfillment(pedestrian);
+  }
+
   /**
    * Start a new trip segment - resets path tile tracking for the next path.
    * A trip is one pathing segment to a destination (e.g. vehicle→need, need→de/respawner, de/respawner→vehicle).
@@ -898,9 +1136,9 @@ export class PedestrianSystem {
       // Show message
       MessageSystem.insufficientSidewalk(pedestrian.name);
       
-      // Apply -10 penalty to vehicle's rating
+      // Apply -10 penalty (times the archetype's weight) to vehicle's rating
       const vehicleId = pedestrian.vehicleId;
-      GameSystems.rating.updateParkerScore(vehicleId, -10);
+      GameSystems.rating.updateParkerScore(vehicleId, -10 * getParkerPenaltyWeight(pedestrian.archetype, 'missingSidewalk'), 'missingSidewalk');
     }
   }
 
@@ -953,6 +1191,22 @@ export class PedestrianSystem {
     this.pedestrians = [];
   }
 
+  /**
+   * Snapshot all pedestrians (including ones waiting to respawn) for a save game
+   */
+  getSaveState(): PedestrianSystemSaveState {
+    return {
+      pedestrians: this.pedestrians.map(p => ({ ...p })),
+    };
+  }
+
+  /**
+   * Restore pedestrians from a save game
+   */
+  loadSaveState(state: PedestrianSystemSaveState): void {
+    this.pedestrians = state.pedestrians.map(p => Object.assign(Object.create(PedestrianEntity.prototype) as PedestrianEntity, p));
+  }
+
   /**
    * Set need generation probability (0-1)
    * This controls whether a pedestrian gets ANY need at all
@@ -972,9 +1226,9 @@ export class PedestrianSystem {
 
   /**
    * Wire a callback that ends a parker's stay (unreserves the spot, drives the car out, and zeroes
-   * their parker score). Used by the unfulfilled-toilet-ends-stay path.
+   * their parker score under the given reason). Used by the unfulfilled-toilet-ends-stay path.
    */
-  setOnParkerEarlyExit(fn: ((vehicleId: string) => void) | null): void {
+  setOnParkerEarlyExit(fn: ((vehicleId: string, reason: RatingReason) => void) | null): void {
     this.onParkerEarlyExit = fn;
   }
 
@@ -985,32 +1239,30 @@ export class PedestrianSystem {
    * Example: { trash: 0.5, thirst: 0.5 } for 50/50 split
    * Example: { trash: 0.25, thirst: 0.25, toilet: 0.5 } for 25/25/50 split
    */
-  setNeedTypeDistribution(distribution: Partial<Record<'trash' | 'thirst' | 'toilet', number>>): void {
-    // Get default values for any missing need types
-    const trashWeight = distribution.trash ?? 0;
-    const thirstWeight = distribution.thirst ?? 0;
-    const toiletWeight = distribution.toilet ?? 0;
+  setNeedTypeDistribution(distribution: Partial<Record<NeedType, number>>): void {
+    // Missing need types get weight 0; ids not in the need registry are ignored
+    const needIds = getNeedDefinitions().map(need => need.id);
     
     // Calculate total weight
-    const totalWeight = trashWeight + thirstWeight + toiletWeight;
+    const totalWeight = needIds.reduce((sum, id) => sum + (distribution[id] ?? 0), 0);
     
     // Normalize weights to sum to 1.0
     if (totalWeight > 0) {
-      this.needTypeDistribution = {
-        trash: trashWeight / totalWeight,
-        thirst: thirstWeight / totalWeight,
-        toilet: toiletWeight / totalWeight
-      };
+      this.needTypeDistribution = {};
+      for (const id of needIds) {
+        this.needTypeDistribution[id] = (distribution[id] ?? 0) / totalWeight;
+      }
     } else {
       // If all weights are 0, default to 50/50 trash/thirst
       this.needTypeDistribution = { trash: 0.5, thirst: 0.5, toilet: 0 };
     }
   }
 
+
   /**
    * Get the current need type distribution
    */
-  getNeedTypeDistribution(): Record<'trash' | 'thirst' | 'toilet', number> {
+  getNeedTypeDistribution(): Record<NeedType, number> {
     return { ...this.needTypeDistribution };
   }
 }
@@ -8,6 +8,8 @@ import {
   ISO_ENTITY_DEPTH_BASE,
   ISO_ENTITY_DEPTH_Y_FACTOR,
 } from '@/renderers/EntityRenderer';
+import { getPloppableSize, getSecondCellForTwoTile } from '@/utils/ploppableFootprint';
+import { getPloppableDefinition } from '@/config/ploppables.config';
 import { PassabilitySystem } from './PassabilitySystem';
 import { AppealSystem } from './AppealSystem';
 import { SafetySystem } from './SafetySystem';
@@ -152,10 +154,7 @@ export class PloppableManager {
    * Get the size of a ploppable (number of tiles it occupies)
    */
   static getPloppableSize(ploppableType: string): number {
-    if (ploppableType === 'Parking Booth') {
-      return 2;
-    }
-    return 1; // Default to single tile
+    return getPloppableSize(ploppableType);
   }
 
   /**
@@ -169,40 +168,7 @@ export class PloppableManager {
     gridWidth: number,
     gridHeight: number
   ): { x: number; y: number } | null {
-    let secondX: number, secondY: number;
-    
-    // For 2-tile ploppables, the second cell is adjacent based on orientation
-    // Orientation 0 (north): second cell is south (y+1) - vertical, front face at north
-    // Orientation 1 (east): second cell is west (x-1) - horizontal, front face at east
-    // Orientation 2 (south): second cell is north (y-1) - vertical, front face at south
-    // Orientation 3 (west): second cell is east (x+1) - horizontal, front face at west
-    switch (orientation) {
-      case 0: // North - vertical, front face at top
-        secondX = gridX;
-        secondY = gridY + 1;
-        break;
-      case 1: // East - horizontal, front face at right
-        secondX = gridX - 1;
-        secondY = gridY;
-        break;
-      case 2: // South - vertical, front face at bottom
-        secondX = gridX;
-        secondY = gridY - 1;
-        break;
-      case 3: // West - horizontal, front face at left
-        secondX = gridX + 1;
-        secondY = gridY;
-        break;
-      default:
-        return null;
-    }
-    
-    // Check if second cell is within bounds
-    if (secondX < 0 || secondX >= gridWidth || secondY < 0 || secondY >= gridHeight) {
-      return null;
-    }
-    
-    return { x: secondX, y: secondY };
+    return getSecondCellForTwoTile(gridX, gridY, orientation, gridWidth, gridHeight);
   }
 
   /**
@@ -487,25 +453,11 @@ export class PloppableManager {
     const orientation = ploppable.orientation || 0;
     const orientationType = ploppable.orientationType || 'B'; // Default to Type B
     
-    // Get emoji based on ploppable type
-    let emoji = '❓';
-    if (ploppable.type === 'Trash Can') emoji = '🗑️';
-    else if (ploppable.type === 'Vending Machine') emoji = '🥤';
-    else if (ploppable.type === 'Dumpster') emoji = '🗄️';
-    else if (ploppable.type === 'Tree') emoji = '🌳';
-    else if (ploppable.type === 'Shrub') emoji = '🌿';
-    else if (ploppable.type === 'Flower Patch') emoji = '🌸';
-    else if (ploppable.type === 'Street Light') emoji = '💡';
-    else if (ploppable.type === 'Portable Toilet') emoji = '🚽';
-    else if (ploppable.type === 'Bench') emoji = '🪑';
-    else if (ploppable.type === 'Speed Bump') emoji = '⛰️';
-    else if (ploppable.type === 'Crosswalk') emoji = '🚸';
-    else if (ploppable.type === 'Pedestrian Spawner') emoji = '🚶';
-    else if (ploppable.type === 'Parking Meter') emoji = '⏰';
-    else if (ploppable.type === 'Parking Booth') emoji = '🏪';
-    
-    // Handle non-oriented ploppables - render at center, no arrow
-    if (ploppable.type === 'Tree' || ploppable.type === 'Shrub' || ploppable.type === 'Flower Patch' || ploppable.type === 'Speed Bump' || ploppable.type === 'Crosswalk' || ploppable.type === 'Pedestrian Spawner') {
+    const definition = getPloppableDefinition(ploppable.type);
+    const emoji = definition?.emoji ?? '❓';
+    
+    // Handle non-oriented ploppables (and arrowless ones like Speed Bump) - render at center, no arrow
+    if (definition && (definition.orientationType === null || definition.hideArrow)) {
       const centerX = (gridX - gridY) * (TILE_WIDTH / 2) + gridOffsetX;
       const centerY = (gridX + gridY) * (TILE_HEIGHT / 2) + gridOffsetY;
       const SHRUB_ORIGIN_OFFSET_Y = -5; // draw shrub a little lower
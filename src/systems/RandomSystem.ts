@@ -0,0 +1,136 @@
+/**
+ * Serializable RNG state for save games
+ */
+export interface RandomSaveState {
+  seed: number;
+  state: number;
+}
+
+/**
+ * RandomSystem - Singleton seeded random number generator for all simulation randomness
+ *
+ * Every system that rolls dice (spawns, parker chance, speeds, needs, names, sprite flips)
+ * draws from this instead of Math.random, so a run with the same seed and the same player
+ * actions plays out identically. The seed is chosen per challenge run (see GameSystems.resetForChallenge).
+ *
+ * Uses mulberry32: small, fast, and good enough for gameplay (not for cryptography).
+ */
+export class RandomSystem {
+  private static instance: RandomSystem;
+  private seed: number = 0;
+  private state: number = 0;
+
+  private constructor() {
+    this.setSeed(RandomSystem.generateSeed());
+  }
+
+  static getInstance(): RandomSystem {
+    if (!RandomSystem.instance) {
+      RandomSystem.instance = new RandomSystem();
+    }
+    return RandomSystem.instance;
+  }
+
+  /**
+   * Create a fresh seed for runs where the player didn't pick one
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Parse a user-entered seed. Accepts non-negative integers; returns null for blank/invalid input.
+   */
+  static parseSeed(value: string | null | undefined): number | null {
+    const trimmed = (value ?? '').trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const parsed = Number(trimmed);
+    return Number.isSafeInteger(parsed) ? parsed >>> 0 : null;
+  }
+
+  /**
+   * Restart the sequence from a seed (unsigned 32-bit)
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Next float in [0, 1). Drop-in replacement for Math.random().
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, maxExclusive)
+   */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Copy of the array in random order (Fisher-Yates)
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Normally distributed float (Box-Muller, two draws)
+   */
+  normal(mean: number, stdDev: number): number {
+    const u = 1 - this.next(); // (0, 1], so the log is finite
+    const v = this.next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Snapshot seed and position in the sequence, so a loaded save keeps rolling the same dice
+   */
+  getSaveState(): RandomSaveState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  loadSaveState(saved: RandomSaveState): void {
+    this.seed = saved.seed >>> 0;
+    this.state = saved.state >>> 0;
+  }
+
+  /**
+   * Reset the sequence for a new run
+   *
+   * @param seed - Seed to use; a fresh random seed when omitted
+   */
+  reset(seed?: number): void {
+    this.setSeed(seed ?? RandomSystem.generateSeed());
+  }
+}
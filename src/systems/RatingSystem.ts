@@ -2,34 +2,158 @@ import { TimeSystem } from './TimeSystem';
 import { GridManager } from '@/core/GridManager';
 import { AppealSystem } from './AppealSystem';
 import { SafetySystem } from './SafetySystem';
+import { MaintenanceSystem } from './MaintenanceSystem';
+import { PARKER_FULL_SCORE, getRatingComponents } from '@/config/rating.config';
+import type { NeedType, RatingAttribution, RatingComponent, RatingComponentSource, RatingReason } from '@/types';
+
+/**
+ * One rating component's current points, for the breakdown UI
+ */
+export interface RatingComponentScore {
+  id: string;
+  label: string;
+  source: RatingComponentSource;
+  points: number;
+  maxPoints: number;
+}
+
+/**
+ * Score changes by reason for one parker (summed deltas; losses are negative)
+ */
+export type ParkerScoreBreakdown = Partial<Record<RatingReason, number>>;
+
+/**
+ * Points a reason cost the parkers it hit, and how many parkers it hit
+ */
+export interface RatingReasonTotal {
+  reason: RatingReason;
+  points: number;
+  parkers: number;
+}
+
+/**
+ * A parker still in play: running score, arrival day, and what changed the score
+ */
+interface ActiveParker {
+  score: number;
+  dayRegistered: number;
+  breakdown: ParkerScoreBreakdown;
+}
+
+const RATING_REASON_LABELS: Record<Exclude<RatingReason, `unfulfilledNeed:${NeedType}`>, string> = {
+  noSpot: 'no free spot',
+  rateRefused: 'rates too high to park',
+  gaveUpSearch: 'giving up the spot search',
+  leftEarly: 'leaving before their stay was up',
+  droveOnSidewalk: 'driving over sidewalk',
+  missingSidewalk: 'too little sidewalk on foot',
+  trafficDelay: 'traffic delays',
+  gridlock: 'gridlock',
+  highRate: 'paying over their budget',
+  longWalk: 'long walks',
+  scoreFloor: 'scores stopping at 0',
+};
+
+/**
+ * Reason code for an unfulfilled need of one type
+ */
+export function unfulfilledNeedReason(needType: NeedType): RatingReason {
+  return `unfulfilledNeed:${needType}`;
+}
+
+/**
+ * Reason as it reads after "lost points for", e.g. "no free spot" or "no toilet"
+ */
+export function getRatingReasonLabel(reason: RatingReason): string {
+  if (reason.startsWith('unfulfilledNeed:')) {
+    return `no ${reason.slice('unfulfilledNeed:'.length)}`;
+  }
+  return RATING_REASON_LABELS[reason as keyof typeof RATING_REASON_LABELS] ?? reason;
+}
+
+/**
+ * A point in the rating history: the composite rating and each component's points at one moment
+ */
+export interface RatingHistoryEntry {
+  day: number;
+  /** Game minute of the day (0-1439) */
+  minute: number;
+  total: number;
+  /** Points by rating component id */
+  components: Record<string, number>;
+  /** True for the 11:59 PM sample that becomes the day's rating */
+  finalized: boolean;
+}
+
+/**
+ * Serializable rating state for save games
+ */
+export interface RatingSaveState {
+  /** Breakdowns are missing from saves written before reason tracking */
+  activeParkers: Array<[string, { score: number; dayRegistered: number; breakdown?: ParkerScoreBreakdown }]>;
+  /** Finalized scores by the day they're credited to */
+  finalizedScoresByDay?: Array<[number, number[]]>;
+  /** Finalized reason totals by the day they're credited to */
+  reasonTotalsByDay?: Array<[number, RatingReasonTotal[]]>;
+  /** Saves written before multi-day accounting: today's finalized scores only */
+  dailyFinalizedScores?: number[];
+  currentRating: number;
+  previousDayRating: number;
+  currentDay: number;
+  /** Saves written before rating history have none */
+  history?: RatingHistoryEntry[];
+  /** Last day finalized; older saves derive it from the history */
+  lastFinalizedDay?: number;
+}
+
+/** Days of rating history kept; older samples are dropped at midnight */
+const RATING_HISTORY_DAYS = 30;
 
 /**
  * RatingSystem - Singleton that manages lot ratings based on parker satisfaction
  *
  * RATING FORMULA (for min_rating win conditions and tuning):
- * - Parker component: 0–70. Base 70 when a spot is found; 0 when no spot.
- *   Penalties: −10 each for (1) no spot [score stays 0], (2) driving on >2 concrete tiles,
- *   (3) each unfulfilled need. So: parker = 70 − (10 × penalty count), clamped to 0.
- * - Appeal component: 0–15 from ploppables and cell coverage (AppealSystem).
- * - Safety component: 0–15 from safety ploppables and coverage (SafetySystem).
- * - Total: parker + appeal + safety = 0–100.
+ * - Parker scores: 0–70. Base 70 when a spot is found; 0 when no spot, rates refused, or the
+ *   parker gives up searching or leaves early (the score is zeroed).
+ *   Each penalty is a reason-tagged delta scaled by the parker archetype's weight for it
+ *   (parkerArchetypes.config.ts, 1 when unweighted): −10 for driving on >2 concrete tiles,
+ *   too little sidewalk or gridlock; each unfulfilled need's own unfulfilledPenalty (needs.config.ts);
+ *   per game minute stalled past the traffic delay tolerance; per tile walked past the archetype's
+ *   tolerance; and per $ of effective rate over their willingness to pay (the challenge's
+ *   highParkingRatePenaltyPerDollar). So: parker = 70 − Σ(penalty × weight), clamped to 0.
+ * - The lot rating sums the challenge's rating components (rating.config.ts): the parker component
+ *   scales the average parker score to its points, cell components (appeal, safety, cleanliness)
+ *   scale their coverage. Default: parker 0–70 + appeal 0–15 + safety 0–15 = 0–100.
  *
  * Lifecycle:
  * 1. registerParker() - Called when potential parker spawns (70 if spot, 0 if no spot)
- * 2. updateParkerScore() - Called as events unfold (concrete, unfulfilled needs, etc.)
- * 3. finalizeParker() - Called when parker leaves, locks score into daily totals
+ * 2. updateParkerScore() - Called as events unfold (concrete, unfulfilled needs, etc.), each change tagged
+ *    with a reason so the parker's breakdown and the day's reason totals show what cost points
+ * 3. finalizeParker() - Called when parker leaves, locks score into the totals of the day it's credited to
+ *
+ * Multi-day stays: a final score is credited to the parker's arrival or departure day (per challenge),
+ * and the parker rating averages the last windowDays days of credited scores plus parkers still in the
+ * lot (arrival: those who arrived in the window; departure: all of them, provisionally).
  *
- * Rating is calculated at 11:59 PM and displayed at midnight.
+ * Rating is calculated at 11:59 PM and displayed at midnight. The composite rating and its components
+ * are also sampled into a history every game hour and at each 11:59 PM finalization.
  */
 export class RatingSystem {
   private static instance: RatingSystem;
   
   // Active parkers: score accumulates during their lifecycle
-  // Key: vehicleId, Value: { score: number, dayRegistered: number }
-  private activeParkers: Map<string, { score: number; dayRegistered: number }> = new Map();
+  // Key: vehicleId, Value: { score, dayRegistered, breakdown by reason }
+  private activeParkers: Map<string, ActiveParker> = new Map();
   
-  // Finalized scores for today (parkers who have left)
-  private dailyFinalizedScores: number[] = [];
+  // Finalized scores (parkers who have left), keyed by the day they're credited to
+  private finalizedScoresByDay: Map<number, number[]> = new Map();
+  
+  // Finalized parkers' score changes summed by reason, keyed by the day they're credited to
+  private reasonTotalsByDay: Map<number, Map<RatingReason, RatingReasonTotal>> = new Map();
+  
+  // Which day a finalized score is credited to, and how many days the rating averages over
+  private attribution: RatingAttribution = 'departure';
+  private windowDays: number = 1;
   
   // Current day's running average rating
   private currentRating: number = 0;
@@ -37,6 +161,15 @@ export class RatingSystem {
   // Previous day's finalized rating (displayed after midnight)
   private previousDayRating: number = 0;
   
+  // Hourly and end-of-day samples of the composite rating, oldest first
+  private history: RatingHistoryEntry[] = [];
+  
+  // Game hour (day * 24 + hour) of the last hourly sample
+  private lastSampledHour: number | null = null;
+  
+  // Last day finalizeDay ran for (each day is finalized once, however long the 11:59 PM flag stays set)
+  private lastFinalizedDay: number = -1;
+  
   // Track the current day to filter parkers by day
   private currentDay: number = 0;
   
@@ -51,19 +184,55 @@ export class RatingSystem {
     return RatingSystem.instance;
   }
   
+  /**
+   * Set how scores of stays that cross midnight are credited and how many days the rating averages
+   *
+   * @param attribution - Credit final scores to the arrival or the departure day
+   * @param windowDays - Days of credited scores in the rating, today included (at least 1)
+   */
+  setRatingWindow(attribution: RatingAttribution, windowDays: number): void {
+    this.attribution = attribution;
+    this.windowDays = Math.max(1, Math.floor(windowDays));
+    this.recalculateCurrentRating();
+  }
+
+  getAttribution(): RatingAttribution {
+    return this.attribution;
+  }
+
+  getWindowDays(): number {
+    return this.windowDays;
+  }
+
+  /** Whether a day's scores fall in the rolling window ending today */
+  private isInWindow(day: number, currentDay: number): boolean {
+    return day <= currentDay && day > currentDay - this.windowDays;
+  }
+
+  /** Whether a parker still in the lot counts toward the rating (see recalculateCurrentRating) */
+  private isActiveParkerCounted(parker: ActiveParker, currentDay: number): boolean {
+    return this.attribution === 'departure' || this.isInWindow(parker.dayRegistered, currentDay);
+  }
+
   /**
    * Register a new parker with initial score
    * Called when potential parker spawns
    * 
    * @param vehicleId - Unique vehicle ID (used to link pedestrian later)
-   * @param initialScore - Starting score (100 if found spot, 0 if not)
+   * @param initialScore - Starting score (70 if found spot, 0 if not)
+   * @param reason - Why the score starts below the full score, if it does
    */
-  registerParker(vehicleId: string, initialScore: number): void {
+  registerParker(vehicleId: string, initialScore: number, reason?: RatingReason): void {
     // Get current day from TimeSystem to ensure accuracy
     const dayRegistered = TimeSystem.getInstance().getCurrentDay();
+    const breakdown: ParkerScoreBreakdown = {};
+    if (reason && initialScore < PARKER_FULL_SCORE) {
+      breakdown[reason] = initialScore - PARKER_FULL_SCORE;
+    }
     this.activeParkers.set(vehicleId, { 
       score: initialScore, 
-      dayRegistered: dayRegistered
+      dayRegistered: dayRegistered,
+      breakdown,
     });
     // Update currentDay to match (in case it's out of sync)
     this.currentDay = dayRegistered;
@@ -76,11 +245,13 @@ export class RatingSystem {
    * 
    * @param vehicleId - Vehicle ID of the parker
    * @param scoreDelta - Amount to add (positive) or subtract (negative)
+   * @param reason - What changed the score, for the parker's breakdown and the day's reason totals
    */
-  updateParkerScore(vehicleId: string, scoreDelta: number): void {
+  updateParkerScore(vehicleId: string, scoreDelta: number, reason: RatingReason): void {
     const parkerData = this.activeParkers.get(vehicleId);
     if (parkerData !== undefined) {
       parkerData.score += scoreDelta;
+      parkerData.breakdown[reason] = (parkerData.breakdown[reason] ?? 0) + scoreDelta;
       this.activeParkers.set(vehicleId, parkerData);
       this.recalculateCurrentRating();
     }
@@ -96,25 +267,33 @@ export class RatingSystem {
     return this.activeParkers.get(vehicleId)?.score;
   }
   
+  /**
+   * Get a parker's score changes by reason, or undefined if they aren't an active parker
+   */
+  getParkerBreakdown(vehicleId: string): Readonly<ParkerScoreBreakdown> | undefined {
+    return this.activeParkers.get(vehicleId)?.breakdown;
+  }
+  
   /**
    * Finalize a parker's score when they despawn
-   * Moves their score from active to finalized
-   * Only finalizes parkers from the current day
+   * Moves their score from active to finalized, credited to their arrival or departure day
    * 
    * @param vehicleId - Vehicle ID of the parker leaving
    */
   finalizeParker(vehicleId: string): void {
     const parkerData = this.activeParkers.get(vehicleId);
     if (parkerData !== undefined) {
-      if (this.debugLogParkerFinalization) {
-        console.debug('[RatingSystem] Parker finalized', { vehicleId, finalScore: parkerData.score });
-      }
       // Get current day from TimeSystem to ensure accuracy
-      const currentDay = TimeSystem.getInstance().getCurrentDay();
-      // Only finalize parkers from the current day
-      if (parkerData.dayRegistered === currentDay) {
-        this.dailyFinalizedScores.push(parkerData.score);
+      const creditedDay = this.attribution === 'arrival' ? parkerData.dayRegistered : TimeSystem.getInstance().getCurrentDay();
+      if (this.debugLogParkerFinalization) {
+        console.debug('[RatingSystem] Parker finalized', { vehicleId, finalScore: parkerData.score, creditedDay });
       }
+      const scores = this.finalizedScoresByDay.get(creditedDay) ?? [];
+      scores.push(parkerData.score);
+      this.finalizedScoresByDay.set(creditedDay, scores);
+      const reasonTotals = this.reasonTotalsByDay.get(creditedDay) ?? new Map<RatingReason, RatingReasonTotal>();
+      addBreakdownToTotals(reasonTotals, parkerData.breakdown);
+      this.reasonTotalsByDay.set(creditedDay, reasonTotals);
       this.activeParkers.delete(vehicleId);
       this.recalculateCurrentRating();
     }
@@ -127,20 +306,24 @@ export class RatingSystem {
   
   /**
    * Recalculate current rating based on all active and finalized scores
-   * Only includes parkers from the current day
+   * Only includes scores credited to the rolling window
    */
   private recalculateCurrentRating(): void {
     // Get current day from TimeSystem to ensure accuracy
     const currentDay = TimeSystem.getInstance().getCurrentDay();
     this.currentDay = currentDay;
     
-    // Only include active parkers registered on the current day
-    const currentDayActiveScores = Array.from(this.activeParkers.values())
-      .filter(parker => parker.dayRegistered === currentDay)
+    // Active parkers will be credited to their arrival day, or to today or later when they leave
+    const activeScores = Array.from(this.activeParkers.values())
+      .filter(parker => this.isActiveParkerCounted(parker, currentDay))
       .map(parker => parker.score);
     
-    // Combine current day's active parker scores + finalized scores
-    const allScores = [...currentDayActiveScores, ...this.dailyFinalizedScores];
+    const finalizedScores = Array.from(this.finalizedScoresByDay.entries())
+      .filter(([day]) => this.isInWindow(day, currentDay))
+      .flatMap(([, scores]) => scores);
+    
+    // Combine active parker scores + finalized scores in the window
+    const allScores = [...activeScores, ...finalizedScores];
     
     if (allScores.length === 0) {
       this.currentRating = 0;
@@ -153,16 +336,19 @@ export class RatingSystem {
   
   /**
    * Called at 11:59 PM - finalize the day's rating
-   * Stores current rating as previous day rating
+   * Stores current rating as previous day rating. Days already finalized are ignored.
    * 
+   * @param day - The day that reached 11:59 PM
    * @param gridManager - Grid manager instance (optional, for composite rating)
    * @param gridWidth - Grid width (optional)
    * @param gridHeight - Grid height (optional)
    */
-  finalizeDay(gridManager?: GridManager, gridWidth?: number, gridHeight?: number): void {
+  finalizeDay(day: number, gridManager?: GridManager, gridWidth?: number, gridHeight?: number): void {
+    if (day <= this.lastFinalizedDay) return;
+    this.lastFinalizedDay = day;
     if (gridManager && gridWidth !== undefined && gridHeight !== undefined) {
       // Store composite rating if grid info provided
-      this.previousDayRating = this.getCompositeRating(gridManager, gridWidth, gridHeight);
+      this.previousDayRating = this.recordHistory(gridManager, gridWidth, gridHeight, day).total;
     } else {
       // Store parker-only rating for backward compatibility
       this.previousDayRating = this.currentRating;
@@ -170,16 +356,22 @@ export class RatingSystem {
   }
   
   /**
-   * Called at midnight - reset for new day
-   * Clears finalized scores and updates current day
-   * Active parkers from previous days remain but won't be included in new day's rating
+   * Called at midnight - move the rolling window to the new day
+   * Drops finalized scores for days that have left the window; under arrival attribution, active
+   * parkers who arrived before the window still finalize but no longer count
    * 
    * @param newDay - The new day number from TimeSystem
    */
   resetDailyScores(newDay: number): void {
-    this.dailyFinalizedScores = [];
     this.currentDay = newDay;
-    // Recalculate rating (will only include parkers from the new current day)
+    for (const day of [...this.finalizedScoresByDay.keys()]) {
+      if (day <= newDay - this.windowDays) {
+        this.finalizedScoresByDay.delete(day);
+        this.reasonTotalsByDay.delete(day);
+      }
+    }
+    this.history = this.history.filter(entry => entry.day > newDay - RATING_HISTORY_DAYS);
+    // Recalculate rating (will only include scores credited to the new window)
     this.recalculateCurrentRating();
   }
   
@@ -196,13 +388,7 @@ export class RatingSystem {
   }
   
   /**
-   * Get composite rating including appeal and safety components
-   * Formula: parker satisfaction (0-70) + appeal (0-15) + safety (0-15) = 0-100
-   * 
-   * Parker scores are directly on a 0-70 scale:
-   * - 70 = successful park with no issues
-   * - 0 = unable to reserve a spot
-   * - Penalties reduce from 70 (e.g., -10 for each issue)
+   * Get composite rating: the sum of the challenge's rating components (0-100)
    * 
    * @param gridManager - Grid manager instance
    * @param gridWidth - Grid width
@@ -210,33 +396,90 @@ export class RatingSystem {
    * @returns Composite rating (0-100)
    */
   getCompositeRating(gridManager: GridManager, gridWidth: number, gridHeight: number): number {
-    const parkerRating = this.currentRating; // 0-70 scale (direct contribution)
-    const appealContribution = AppealSystem.getInstance().getAppealContribution(gridManager, gridWidth, gridHeight);
-    const safetyContribution = SafetySystem.getInstance().getSafetyContribution(gridManager, gridWidth, gridHeight);
-    
-    return parkerRating + appealContribution + safetyContribution;
+    return this.getComponentRatings(gridManager, gridWidth, gridHeight).total;
   }
   
   /**
-   * Get component breakdown for UI display
+   * Get component breakdown for UI display, in formula order
    * 
    * @param gridManager - Grid manager instance
    * @param gridWidth - Grid width
    * @param gridHeight - Grid height
-   * @returns Object with parker, appeal, safety, and total ratings
+   * @returns Each component's points, and their total
    */
   getComponentRatings(gridManager: GridManager, gridWidth: number, gridHeight: number): {
-    parker: number;
-    appeal: number;
-    safety: number;
+    components: RatingComponentScore[];
     total: number;
   } {
-    const parker = this.currentRating; // 0-70 scale
-    const appeal = AppealSystem.getInstance().getAppealContribution(gridManager, gridWidth, gridHeight);
-    const safety = SafetySystem.getInstance().getSafetyContribution(gridManager, gridWidth, gridHeight);
-    const total = parker + appeal + safety;
+    const components = getRatingComponents().map(component => ({
+      id: component.id,
+      label: component.label,
+      source: component.source,
+      points: this.getComponentPoints(component, gridManager, gridWidth, gridHeight),
+      maxPoints: component.maxPoints,
+    }));
+    const total = components.reduce((sum, component) => sum + component.points, 0);
     
-    return { parker, appeal, safety, total };
+    return { components, total };
+  }
+  
+  /**
+   * Points a component earns: the average parker score against a full score, or cell coverage
+   */
+  private getComponentPoints(component: RatingComponent, gridManager: GridManager, gridWidth: number, gridHeight: number): number {
+    switch (component.source) {
+      case 'parker':
+        return (this.currentRating / PARKER_FULL_SCORE) * component.maxPoints;
+      case 'appeal':
+        return AppealSystem.getInstance().getAppealCoverage(gridManager, gridWidth, gridHeight, component.coverage) * component.maxPoints;
+      case 'safety':
+        return SafetySystem.getInstance().getSafetyCoverage(gridManager, gridWidth, gridHeight, component.coverage) * component.maxPoints;
+      case 'cleanliness':
+        return MaintenanceSystem.getInstance().getCleanlinessCoverage(gridManager, gridWidth, gridHeight, component.coverage) * component.maxPoints;
+      default:
+        return 0;
+    }
+  }
+  
+  /**
+   * Sample the rating into the history once per game hour (the first call in each new hour records)
+   * 
+   * @param gridManager - Grid manager instance
+   * @param gridWidth - Grid width
+   * @param gridHeight - Grid height
+   */
+  recordHourlySample(gridManager: GridManager, gridWidth: number, gridHeight: number): void {
+    const time = TimeSystem.getInstance();
+    const hour = time.getCurrentDay() * 24 + Math.floor(time.getTotalMinutes() / 60);
+    if (hour === this.lastSampledHour) return;
+    this.lastSampledHour = hour;
+    this.recordHistory(gridManager, gridWidth, gridHeight);
+  }
+  
+  /**
+   * Append the current composite rating and its components to the history
+   * 
+   * @param finalizedDay - The day this sample finalizes (omitted for hourly samples)
+   */
+  private recordHistory(gridManager: GridManager, gridWidth: number, gridHeight: number, finalizedDay?: number): RatingHistoryEntry {
+    const time = TimeSystem.getInstance();
+    const ratings = this.getComponentRatings(gridManager, gridWidth, gridHeight);
+    const entry: RatingHistoryEntry = {
+      day: finalizedDay ?? time.getCurrentDay(),
+      minute: finalizedDay === undefined ? time.getTotalMinutes() : 1439,
+      total: ratings.total,
+      components: Object.fromEntries(ratings.components.map(component => [component.id, component.points])),
+      finalized: finalizedDay !== undefined,
+    };
+    this.history.push(entry);
+    return entry;
+  }
+  
+  /**
+   * Rating history, oldest first (hourly samples plus each day's 11:59 PM finalization)
+   */
+  getHistory(): readonly RatingHistoryEntry[] {
+    return this.history;
   }
   
   /**
@@ -254,10 +497,76 @@ export class RatingSystem {
   }
   
   /**
-   * Get count of finalized parkers today
+   * Get count of finalized parkers credited to the rolling window
    */
   getFinalizedParkerCount(): number {
-    return this.dailyFinalizedScores.length;
+    return Array.from(this.finalizedScoresByDay.entries())
+      .filter(([day]) => this.isInWindow(day, this.currentDay))
+      .reduce((sum, [, scores]) => sum + scores.length, 0);
+  }
+  
+  /**
+   * Score changes by reason for every parker the rating counts (the rolling window plus parkers still
+   * in the lot), most costly first
+   */
+  getReasonSummary(): { parkerCount: number; reasons: RatingReasonTotal[] } {
+    const totals = new Map<RatingReason, RatingReasonTotal>();
+    let parkerCount = 0;
+    for (const [day, dayTotals] of this.reasonTotalsByDay) {
+      if (!this.isInWindow(day, this.currentDay)) continue;
+      for (const total of dayTotals.values()) {
+        const entry = totals.get(total.reason) ?? { reason: total.reason, points: 0, parkers: 0 };
+        entry.points += total.points;
+        entry.parkers += total.parkers;
+        totals.set(total.reason, entry);
+      }
+    }
+    for (const parker of this.activeParkers.values()) {
+      if (!this.isActiveParkerCounted(parker, this.currentDay)) continue;
+      addBreakdownToTotals(totals, parker.breakdown);
+      parkerCount++;
+    }
+    parkerCount += this.getFinalizedParkerCount();
+    return { parkerCount, reasons: [...totals.values()].sort((a, b) => a.points - b.points) };
+  }
+  
+  /**
+   * Snapshot active and finalized parker scores for a save game
+   */
+  getSaveState(): RatingSaveState {
+    return {
+      activeParkers: Array.from(this.activeParkers.entries()).map(([id, entry]) => [id, { ...entry, breakdown: { ...entry.breakdown } }]),
+      finalizedScoresByDay: Array.from(this.finalizedScoresByDay.entries()).map(([day, scores]) => [day, [...scores]]),
+      reasonTotalsByDay: Array.from(this.reasonTotalsByDay.entries()).map(([day, totals]) => [day, [...totals.values()].map(total => ({ ...total }))]),
+      currentRating: this.currentRating,
+      previousDayRating: this.previousDayRating,
+      currentDay: this.currentDay,
+      history: this.history.map(entry => ({ ...entry, components: { ...entry.components } })),
+      lastFinalizedDay: this.lastFinalizedDay,
+    };
+  }
+  
+  /**
+   * Restore parker scores from a save game
+   */
+  loadSaveState(state: RatingSaveState): void {
+    this.activeParkers = new Map(state.activeParkers.map(([id, entry]) => [id, { ...entry, breakdown: { ...entry.breakdown } }]));
+    this.reasonTotalsByDay = new Map((state.reasonTotalsByDay ?? []).map(([day, totals]) => [
+      day,
+      new Map(totals.map(total => [total.reason, { ...total }])),
+    ]));
+    this.finalizedScoresByDay = state.finalizedScoresByDay
+      ? new Map(state.finalizedScoresByDay.map(([day, scores]) => [day, [...scores]]))
+      : new Map([[state.currentDay, [...(state.dailyFinalizedScores ?? [])]]]);
+    this.currentRating = state.currentRating;
+    this.previousDayRating = state.previousDayRating;
+    this.currentDay = state.currentDay;
+    this.history = (state.history ?? []).map(entry => ({ ...entry, components: { ...entry.components } }));
+    // The next frame samples the current hour again unless the save already has it
+    const lastHourly = [...this.history].reverse().find(entry => !entry.finalized);
+    this.lastSampledHour = lastHourly ? lastHourly.day * 24 + Math.floor(lastHourly.minute / 60) : null;
+    const lastFinalized = [...this.history].reverse().find(entry => entry.finalized);
+    this.lastFinalizedDay = state.lastFinalizedDay ?? lastFinalized?.day ?? -1;
   }
   
   /**
@@ -265,9 +574,28 @@ export class RatingSystem {
    */
   reset(): void {
     this.activeParkers.clear();
-    this.dailyFinalizedScores = [];
+    this.finalizedScoresByDay.clear();
+    this.reasonTotalsByDay.clear();
+    this.attribution = 'departure';
+    this.windowDays = 1;
     this.currentRating = 0;
     this.previousDayRating = 0;
     this.currentDay = 0;
+    this.history = [];
+    this.lastSampledHour = null;
+    this.lastFinalizedDay = -1;
+  }
+}
+
+/**
+ * Add one parker's breakdown to reason totals (each reason that changed their score counts them once)
+ */
+function addBreakdownToTotals(totals: Map<RatingReason, RatingReasonTotal>, breakdown: ParkerScoreBreakdown): void {
+  for (const [reason, points] of Object.entries(breakdown) as Array<[RatingReason, number]>) {
+    if (points === 0) continue;
+    const total = totals.get(reason) ?? { reason, points: 0, parkers: 0 };
+    total.points += points;
+    total.parkers++;
+    totals.set(reason, total);
   }
 }
@@ -1,35 +1,19 @@
 import { GridManager } from '@/core/GridManager';
-import { Ploppable } from '@/types';
-import { PloppableManager } from './PloppableManager';
+import { Ploppable, RatingCoverage } from '@/types';
+import { getSecondCellForTwoTile } from '@/utils/ploppableFootprint';
+import { getPlayableCellCoverage } from '@/config/rating.config';
+import { getPloppableDefinition } from '@/config/ploppables.config';
 
 /**
  * SafetySystem - Singleton that manages cell safety values
  * 
  * Tracks safety values per cell and calculates area-of-effect (AoE) when ploppables are placed/removed.
- * Safety contributes 15 points to the overall lot rating if average safety > 0, otherwise 0.
+ * Each ploppable type's AoE is its `safety` entry in the ploppable registry.
+ * Safety coverage feeds the safety rating component (15 points by default; see rating.config.ts).
  */
 export class SafetySystem {
   private static instance: SafetySystem;
   
-  /**
-   * Ploppable AoE configuration
-   * safetyDelta: change in safety value (+1 or -1, but currently all are positive or 0)
-   * radius: radius in cells
-   * shape: 'circular' (isometric distance) or 'square' (Chebyshev distance)
-   * isTwoTile: true if ploppable spans 2 cells
-   */
-  private readonly ploppableConfigs: Record<string, {
-    safetyDelta: number;
-    radius: number;
-    shape: 'circular' | 'square';
-    isTwoTile?: boolean;
-  }> = {
-    'Street Light': { safetyDelta: 1, radius: 2, shape: 'circular' },
-    'Security Camera': { safetyDelta: 1, radius: 5, shape: 'circular' },
-    'Speed Bump': { safetyDelta: 1, radius: 1, shape: 'circular' },
-    'Crosswalk': { safetyDelta: 1, radius: 1, shape: 'circular' },
-  };
-  
   private constructor() {}
   
   static getInstance(): SafetySystem {
@@ -109,20 +93,21 @@ export class SafetySystem {
     gridHeight: number,
     isRemoval: boolean
   ): void {
-    const config = this.ploppableConfigs[ploppable.type];
+    const definition = getPloppableDefinition(ploppable.type);
+    const config = definition?.safety;
     if (!config) {
       return; // Ploppable doesn't affect safety
     }
     
-    const delta = isRemoval ? -config.safetyDelta : config.safetyDelta;
+    const delta = isRemoval ? -config.delta : config.delta;
     
     // Get all cells that should be affected
     const affectedCells: { x: number; y: number }[] = [];
     
     // For 2-tile ploppables, apply AoE from both cell centers
-    if (config.isTwoTile) {
+    if (definition.size === 2) {
       const primaryCell = { x: ploppable.x, y: ploppable.y };
-      const secondCell = PloppableManager.getSecondCellForTwoTile(
+      const secondCell = getSecondCellForTwoTile(
         ploppable.x,
         ploppable.y,
         ploppable.orientation ?? 0,
@@ -188,36 +173,11 @@ export class SafetySystem {
   }
   
   /**
-   * Get safety contribution to rating (0-15 points)
-   * Calculation:
-   * 1. Each non-permanent cell with positive safety = 1, 0 or negative = 0 (boolean conversion)
-   * 2. Sum all boolean values
-   * 3. Divide by total number of non-permanent cells (percentage of playable cells with positive safety)
-   * 4. Multiply by 15
-   * Permanent tiles are excluded since players cannot plop on them.
+   * Get safety coverage for a rating component (0-1): the share of playable cells with positive safety,
+   * under the component's coverage function (rating.config.ts)
    */
-  getSafetyContribution(gridManager: GridManager, gridWidth: number, gridHeight: number): number {
-    let positiveCellCount = 0;
-    let totalCells = 0;
-    
-    for (let y = 0; y < gridHeight; y++) {
-      for (let x = 0; x < gridWidth; x++) {
-        const cellData = gridManager.getCellData(x, y);
-        if (cellData?.isPermanent) continue;
-        const safety = cellData?.safety ?? 0;
-        if (safety > 0) {
-          positiveCellCount++;
-        }
-        totalCells++;
-      }
-    }
-    
-    if (totalCells === 0) {
-      return 0;
-    }
-    
-    const percentage = positiveCellCount / totalCells;
-    return percentage * 15;
+  getSafetyCoverage(gridManager: GridManager, gridWidth: number, gridHeight: number, coverage?: RatingCoverage): number {
+    return getPlayableCellCoverage(gridManager, gridWidth, gridHeight, cellData => cellData?.safety ?? 0, coverage);
   }
   
   /**
@@ -1,3 +1,15 @@
+/**
+ * Serializable clock state for save games
+ */
+export interface TimeSaveState {
+  gameMinutes: number;
+  currentDay: number;
+  realTimeAccumulator: number;
+  dayJustChanged: boolean;
+  ratingJustFinalized: boolean;
+  speedMultiplier: number;
+}
+
 /**
  * TimeSystem - Singleton that manages game time
  * 
@@ -199,6 +211,33 @@ export class TimeSystem {
     this.gameMinutes = total;
   }
 
+  /**
+   * Snapshot the clock for a save game
+   */
+  getSaveState(): TimeSaveState {
+    return {
+      gameMinutes: this.gameMinutes,
+      currentDay: this.currentDay,
+      realTimeAccumulator: this.realTimeAccumulator,
+      dayJustChanged: this.dayJustChanged,
+      ratingJustFinalized: this.ratingJustFinalized,
+      speedMultiplier: this.speedMultiplier,
+    };
+  }
+
+  /**
+   * Restore the clock from a save game. Always resumes unpaused.
+   */
+  loadSaveState(state: TimeSaveState): void {
+    this.gameMinutes = state.gameMinutes;
+    this.currentDay = state.currentDay;
+    this.realTimeAccumulator = state.realTimeAccumulator;
+    this.dayJustChanged = state.dayJustChanged;
+    this.ratingJustFinalized = state.ratingJustFinalized;
+    this.speedMultiplier = state.speedMultiplier;
+    this.paused = false;
+  }
+
   /**
    * Reset time system to initial state.
    * @param startMinutes - Game minute to begin at (0-1439). 0 = midnight, 420 = 7 AM. Default 0.
@@ -1,14 +1,79 @@
-import { SpawnerDespawnerPair, CellData, Ploppable } from '@/types';
+import { SpawnerDespawnerPair, CellData, Ploppable, Vehicle, SpotPreferenceWeights, ParkerArchetypeId, RatingReason } from '@/types';
 import { VehicleEntity } from '@/entities/Vehicle';
 import { isoToScreen } from '@/utils/isometric';
 import { TILE_WIDTH, TILE_HEIGHT } from '@/config/game.config';
-import { PARKER_VARIANTS, NON_PARKER_VARIANTS, VEHICLE_VARIANTS, VehicleVariant } from '@/renderers/EntityRenderer';
+import { PARKER_VARIANTS, NON_PARKER_VARIANTS, VEHICLE_VARIANTS, VehicleVariant } from '@/config/vehicleVariants.config';
 import { PedestrianSystem } from './PedestrianSystem';
 import { PathfindingSystem, EdgeBlockedCallback, MoveCostCallback } from './PathfindingSystem';
 import { GameSystems } from '@/core/GameSystems';
-import { ParkingTimerSystem } from './ParkingTimerSystem';
+import { unfulfilledNeedReason } from './RatingSystem';
+import { ParkingTimerSystem, type PaymentType } from './ParkingTimerSystem';
 import { MessageSystem } from './MessageSystem';
-import { getParkingRateConfig } from '@/config/parkingRateConfig';
+import { getParkingRateConfig, getRateAcceptanceProbability } from '@/config/parkingRateConfig';
+import { getNeedDefinition } from '@/config/needs.config';
+import {
+  getParkerArchetype,
+  getParkerPenaltyWeight,
+  getWalkPreferenceScale,
+  hasParkerArchetypes,
+  pickParkerArchetype,
+} from '@/config/parkerArchetypes.config';
+
+/**
+ * Serializable vehicle state for save games. Spawner pairs are saved separately with the grid.
+ */
+export interface VehicleSystemSaveState {
+  vehicles: Vehicle[];
+  spawnTimers: Array<[string, number]>;
+  spawnPaused: boolean;
+  /** Missing in saves written before congestion tracking */
+  congestion?: CongestionTotals;
+}
+
+/** Running traffic totals over vehicles that have left the map */
+export interface CongestionTotals {
+  vehiclesCompleted: number;
+  totalStalledMs: number;
+  maxStalledMs: number;
+  /** Vehicles that parked (they are the only ones with both trip legs) */
+  parkersCompleted: number;
+  totalInboundTripMs: number;
+  totalOutboundTripMs: number;
+}
+
+/**
+ * Congestion summary for vehicles that have left the map. Times are real ms at 1x
+ * (1 game min = 1000 ms); averages are 0 when nothing has completed yet.
+ */
+export interface CongestionMetrics {
+  vehiclesCompleted: number;
+  /** Average time a vehicle spent stalled behind traffic */
+  averageStalledMs: number;
+  maxStalledMs: number;
+  /** Average spawner-to-spot drive for vehicles that parked */
+  averageInboundTripMs: number;
+  /** Average spot-to-despawner drive for vehicles that parked */
+  averageOutboundTripMs: number;
+}
+
+const DEFAULT_SPOT_PREFERENCE_WEIGHTS: SpotPreferenceWeights = {
+  drive: 0.5,
+  walk: 2,
+  price: 3,
+  needProximity: 0.5,
+  randomness: 4,
+};
+
+function createCongestionTotals(): CongestionTotals {
+  return {
+    vehiclesCompleted: 0,
+    totalStalledMs: 0,
+    maxStalledMs: 0,
+    parkersCompleted: 0,
+    totalInboundTripMs: 0,
+    totalOutboundTripMs: 0,
+  };
+}
 
 export class VehicleSystem {
   private vehicles: VehicleEntity[] = [];
@@ -21,6 +86,8 @@ export class VehicleSystem {
   private readonly minSpeed: number = 30; // Minimum pixels per second
   private readonly maxSpeed: number = 60; // Maximum pixels per second
   private readonly speedBumpMaxSpeed: number = 30; // Maximum speed on speed bump (pixels per second)
+  private readonly boothServiceMs: number = 1500; // Time a paying vehicle stops on a booth collection tile
+  private readonly gridlockTimeoutMs: number = 8000; // Waiting this long for the next cell counts as gridlock
   private potentialParkerChance: number = 0.5;
   private getPotentialParkerChanceCallback?: () => number;
   private minParkingDuration: number = 5000; // Minimum parking time (real ms; 1 game min = 1 real sec)
@@ -28,6 +95,15 @@ export class VehicleSystem {
   private movieGoerModeEnabled: boolean = false;
   private movieGoerDurationFn: (() => number | null) | null = null;
   private suppressNoSpotPenalty: boolean = false; // Airport Arrivals: full lot = silent redirect
+  private trafficDelayToleranceMs: number = 20000; // Stalled time a parker accepts before losing rating
+  private trafficDelayPenaltyPerMinute: number = 1;
+  private trafficDelayMessage: string | null = null; // Challenge override for MessageSystem.trafficDelay
+  private congestion: CongestionTotals = createCongestionTotals();
+  private spotPreferenceWeights: SpotPreferenceWeights = { ...DEFAULT_SPOT_PREFERENCE_WEIGHTS };
+  private spotSearchEnabled: boolean = false;
+  private spotSearchTimeoutMs: number = 15000;
+  private readonly spotSightRange: number = 2; // Cells (square radius) a hunting parker can see free spots in
+  private readonly occupancySensorRange: number = 3; // Cells (square radius) of spots an Occupancy Sensor reports
   private getCellData: (x: number, y: number) => CellData | undefined;
   private getParkingSpots: () => Ploppable[];
   private pedestrianSystem?: PedestrianSystem;
@@ -75,6 +151,14 @@ export class VehicleSystem {
     );
   }
 
+  /**
+   * Let pathfinding cache distance fields, invalidated when the revision changes
+   * (see GridManager.getPathingRevision)
+   */
+  setGridRevisionCallback(getGridRevision: () => number): void {
+    this.pathfindingSystem.setGridRevisionCallback(getGridRevision);
+  }
+
   /**
    * Set spawn interval in ms (e.g. from challenge config). Used when no schedule callback is set.
    */
@@ -149,6 +233,33 @@ export class VehicleSystem {
     this.suppressNoSpotPenalty = enabled;
   }
 
+  /**
+   * Traffic-delay rating penalty: a parker stalled longer than toleranceMs over their visit complains
+   * (message, or MessageSystem.trafficDelay's default when null) and loses penaltyPerMinute points per
+   * game minute over, applied when they leave.
+   */
+  setTrafficDelayPenalty(toleranceMs: number, penaltyPerMinute: number, message: string | null = null): void {
+    this.trafficDelayToleranceMs = Math.max(0, toleranceMs);
+    this.trafficDelayPenaltyPerMinute = Math.max(0, penaltyPerMinute);
+    this.trafficDelayMessage = message;
+  }
+
+  /**
+   * Override how parkers rank acceptable spots (see SpotPreferenceWeights). Omitted weights use the defaults.
+   */
+  setSpotPreferenceWeights(weights: Partial<SpotPreferenceWeights>): void {
+    this.spotPreferenceWeights = { ...DEFAULT_SPOT_PREFERENCE_WEIGHTS, ...weights };
+  }
+
+  /**
+   * Spot hunting: parkers without sensor/sign guidance cruise for a free spot instead of reserving
+   * one at spawn, and give up after timeoutMs.
+   */
+  setSpotSearch(enabled: boolean, timeoutMs: number = 15000): void {
+    this.spotSearchEnabled = enabled;
+    this.spotSearchTimeoutMs = Math.max(0, timeoutMs);
+  }
+
   /**
    * When set alongside movie-goer mode, this function is consulted on each parker-park to derive a
    * per-vehicle parking duration in real ms (e.g. anchor to the next showtime end). Return null to
@@ -158,13 +269,28 @@ export class VehicleSystem {
     this.movieGoerDurationFn = fn;
   }
 
-  /** Compute the parking duration for a newly-parked vehicle (ms, real-time). */
-  private pickParkingDurationMs(): number {
+  /**
+   * Compute the parking duration for a newly-parked vehicle (ms, real-time). The parker's archetype
+   * scales the min/max range; showtime-anchored stays are left alone.
+   */
+  private pickParkingDurationMs(archetype?: ParkerArchetypeId): number {
     if (this.movieGoerModeEnabled && this.movieGoerDurationFn) {
       const dynamic = this.movieGoerDurationFn();
       if (dynamic != null && dynamic > 0) return dynamic;
     }
-    return this.minParkingDuration + Math.random() * (this.maxParkingDuration - this.minParkingDuration);
+    const duration = GameSystems.random.range(this.minParkingDuration, this.maxParkingDuration);
+    const stayScale = getParkerArchetype(archetype)?.stayDurationScale;
+    return stayScale ? duration * GameSystems.random.range(stayScale[0], stayScale[1]) : duration;
+  }
+
+  /**
+   * Stay length for a vehicle that just parked: the stay planned at spawn (the one its rate was accepted for),
+   * except showtime-anchored stays, which are set on arrival
+   */
+  private getStayDurationMs(vehicle: VehicleEntity): number {
+    const showtimeAnchored = this.movieGoerModeEnabled && this.movieGoerDurationFn !== null;
+    if (vehicle.plannedStayMs !== undefined && !showtimeAnchored) return vehicle.plannedStayMs;
+    return this.pickParkingDurationMs(vehicle.archetype);
   }
 
   /**
@@ -174,7 +300,7 @@ export class VehicleSystem {
     this.spawnerDespawnerPairs.push(pair);
     const key = `${pair.spawnerX},${pair.spawnerY}`;
     // Initialize spawn timer with some variance
-    this.spawnTimers.set(key, this.getCurrentSpawnIntervalMs() + Math.random() * 1000);
+    this.spawnTimers.set(key, this.getCurrentSpawnIntervalMs() + GameSystems.random.next() * 1000);
   }
 
   /**
@@ -227,58 +353,115 @@ export class VehicleSystem {
     return false;
   }
 
+  /**
+   * Demand curve: draw a potential parker's willingness-to-pay for each payment type from the
+   * challenge's distributions (scaled by their archetype) and plan their stay, then roll whether they
+   * accept what that stay would cost per billing interval at each rate in effect now. Those rates are
+   * locked in for the parker: the stay is billed at the rates they accepted, and those prices are what
+   * they rank spots on.
+   */
+  private rollRateAcceptance(archetype?: ParkerArchetypeId): {
+    willingnessToPay: { meter: number; booth: number };
+    acceptsRate: { meter: boolean; booth: boolean };
+    plannedStayMs: number;
+    lockedRates: { meter: number; booth: number };
+    quotedPrices: { meter: number; booth: number };
+  } {
+    const parkingTimer = ParkingTimerSystem.getInstance();
+    const config = getParkingRateConfig();
+    const wtpScale = getParkerArchetype(archetype)?.willingnessToPayScale ?? 1;
+    const sensitivityScale = getParkerArchetype(archetype)?.priceSensitivityScale ?? 1;
+    const willingnessToPay = {
+      meter: Math.max(0, GameSystems.random.normal(config.meterWillingnessToPay.mean * wtpScale, config.meterWillingnessToPay.stdDev * wtpScale)),
+      booth: Math.max(0, GameSystems.random.normal(config.boothWillingnessToPay.mean * wtpScale, config.boothWillingnessToPay.stdDev * wtpScale)),
+    };
+    const plannedStayMs = this.pickParkingDurationMs(archetype);
+    const now = GameSystems.time.getTotalMinutes();
+    const lockedRates = { meter: parkingTimer.getRateInEffect('meter', now), booth: parkingTimer.getRateInEffect('booth', now) };
+    // 1 real second = 1 game minute, so the planned stay in ms / 1000 is its length in game minutes
+    const quote = (paymentType: PaymentType) =>
+      parkingTimer.getEffectiveRate(paymentType, plannedStayMs / 1000, lockedRates[paymentType], now, false);
+    const quotedPrices = { meter: quote('meter'), booth: quote('booth') };
+    const acceptsRate = {
+      meter: GameSystems.random.next() < getRateAcceptanceProbability(quotedPrices.meter, willingnessToPay.meter, sensitivityScale),
+      booth: GameSystems.random.next() < getRateAcceptanceProbability(quotedPrices.booth, willingnessToPay.booth, sensitivityScale),
+    };
+    return { willingnessToPay, acceptsRate, plannedStayMs, lockedRates, quotedPrices };
+  }
+
+  /**
+   * Whether a parker accepts a spot of this payment type: they accepted its rate, and no meter spots
+   * when a booth exists (meter+booth combo). Parkers without a roll (older saves) accept any rate.
+   */
+  private isSpotAcceptable(isMeter: boolean, boothExists: boolean, acceptsRate?: { meter: boolean; booth: boolean }): boolean {
+    if (isMeter) {
+      return !boothExists && (acceptsRate?.meter ?? true);
+    }
+    return !boothExists || (acceptsRate?.booth ?? true);
+  }
+
   /**
    * Find an unreserved parking spot that is reachable and passes refusal checks.
-   * Refusal reasons: rate too high, or meter spot when booth exists (meter+booth combo).
+   * Refusal reasons: parker refused the rate, or meter spot when booth exists (meter+booth combo).
+   * With isGuided (spot hunting), only spots the parker knows are free can be picked; a parker who
+   * knows of none sets searchNeeded instead. That includes a full lot, unless guidance covers every
+   * spot (they can see it's full). Spots are ranked on prices, what the parker was quoted per billing
+   * interval for each payment type.
    */
-  private findUnreservedParkingSpot(fromX: number, fromY: number): {
+  private findUnreservedParkingSpot(
+    fromX: number,
+    fromY: number,
+    acceptsRate: { meter: boolean; booth: boolean },
+    prices: { meter: number; booth: number },
+    archetype: ParkerArchetypeId | undefined,
+    destination: { x: number; y: number } | undefined,
+    isGuided?: (spot: Ploppable) => boolean
+  ): {
     spot: { x: number; y: number } | null;
     refusalSpotType: 'meter' | 'booth' | 'meter_and_booth' | null;
+    searchNeeded?: boolean;
   } {
     const parkingSpots = this.getParkingSpots();
-    const parkingTimer = ParkingTimerSystem.getInstance();
-    const config = getParkingRateConfig();
     const boothExists = this.hasBoothInLot();
 
     // Build list of unreserved, reachable spots with their payment type
     const candidates: { spot: Ploppable; isMeter: boolean }[] = [];
     for (const spot of parkingSpots) {
       if (spot.reserved) continue;
-      const path = this.pathfindingSystem.findPath(fromX, fromY, spot.x, spot.y, 'vehicle');
-      if (path.length === 0 && !(fromX === spot.x && fromY === spot.y)) continue;
+      if (!this.pathfindingSystem.isReachable(fromX, fromY, spot.x, spot.y, 'vehicle')) continue;
       const isMeter = spot.type === 'Parking Meter';
       candidates.push({ spot, isMeter });
     }
 
-    if (candidates.length === 0) return { spot: null, refusalSpotType: null };
+    if (candidates.length === 0) {
+      return { spot: null, refusalSpotType: null, searchNeeded: isGuided !== undefined && parkingSpots.some(spot => !isGuided(spot)) };
+    }
 
-    // Filter by rate refusal threshold
+    // Filter by the parker's rate acceptance
     // Non-meter spots only check booth rate when a booth actually exists on the lot;
     // otherwise they're free parking and always acceptable.
     const rateAcceptable = candidates.filter(({ isMeter }) => {
       if (isMeter) {
-        return parkingTimer.getMeterParkingRate() < config.meterRefusalThreshold;
+        return acceptsRate.meter;
       }
       if (boothExists) {
-        return parkingTimer.getBoothParkingRate() < config.boothRefusalThreshold;
+        return acceptsRate.booth;
       }
       return true;
     });
 
     // Filter out meter spots when booth exists (meter+booth = refuse)
-    const finalAcceptable = rateAcceptable.filter(
-      ({ isMeter }) => !(boothExists && isMeter)
-    );
-
-    const shuffled = [...(finalAcceptable.length > 0 ? finalAcceptable : rateAcceptable.length > 0 ? rateAcceptable : candidates)].sort(
-      () => Math.random() - 0.5
-    );
+    const finalAcceptable = candidates.filter(({ isMeter }) => this.isSpotAcceptable(isMeter, boothExists, acceptsRate));
 
-    const chosen = shuffled[0];
     if (finalAcceptable.length > 0) {
-      return { spot: { x: chosen.spot.x, y: chosen.spot.y }, refusalSpotType: null };
+      const choices = isGuided ? finalAcceptable.filter(({ spot }) => isGuided(spot)) : finalAcceptable;
+      if (choices.length === 0) return { spot: null, refusalSpotType: null, searchNeeded: true };
+      const best = this.pickPreferredSpot(choices, fromX, fromY, prices, boothExists, archetype, destination);
+      return { spot: { x: best.x, y: best.y }, refusalSpotType: null };
     }
 
+    const chosen = GameSystems.random.shuffle(rateAcceptable.length > 0 ? rateAcceptable : candidates)[0];
+
     // Determine refusal reason for message
     if (rateAcceptable.length > 0) {
       return { spot: null, refusalSpotType: 'meter_and_booth' };
@@ -289,6 +472,128 @@ export class VehicleSystem {
     };
   }
 
+  /**
+   * Choose the acceptable spot with the lowest preference score (see SpotPreferenceWeights):
+   * drive from the spawner, walk to the parker's destination (the closest one when they have none)
+   * and the closest need ploppable, the price they were quoted, and jitter. Parkers whose archetype
+   * tolerates less walking weigh the walk more.
+   */
+  private pickPreferredSpot(
+    acceptable: { spot: Ploppable; isMeter: boolean }[],
+    fromX: number,
+    fromY: number,
+    prices: { meter: number; booth: number },
+    boothExists: boolean,
+    archetype?: ParkerArchetypeId,
+    destination?: { x: number; y: number }
+  ): Ploppable {
+    const weights = this.spotPreferenceWeights;
+    const walkWeight = weights.walk * getWalkPreferenceScale(archetype);
+    const walking = this.pedestrianSystem?.getWalkingCostsFrom(acceptable.map(({ spot }) => spot), destination);
+
+    let best = acceptable[0].spot;
+    let bestScore = Infinity;
+    acceptable.forEach(({ spot, isMeter }, i) => {
+      const price = isMeter ? prices.meter : boothExists ? prices.booth : 0;
+      let score =
+        weights.drive * this.pathfindingSystem.getPathCostFrom(fromX, fromY, spot.x, spot.y, 'vehicle') +
+        weights.price * price +
+        weights.randomness * GameSystems.random.next();
+      // Unreachable walks (no destinations / need ploppables yet) don't count against a spot
+      const walk = walking?.[i];
+      if (walk && walk.destination !== Infinity) score += walkWeight * walk.destination;
+      if (walk && walk.need !== Infinity) score += weights.needProximity * walk.need;
+      if (score < bestScore) {
+        best = spot;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Spot hunting: spots a parker knows are free before entering the lot. Every spot when the lot
+   * has a Spaces Sign, otherwise spots within occupancySensorRange of an Occupancy Sensor.
+   */
+  private getGuidedSpotFilter(): (spot: Ploppable) => boolean {
+    const sensors: { x: number; y: number }[] = [];
+    for (let x = 0; x < this.gridWidth; x++) {
+      for (let y = 0; y < this.gridHeight; y++) {
+        const type = this.getCellData(x, y)?.ploppable?.type;
+        if (type === 'Spaces Sign') return () => true;
+        if (type === 'Occupancy Sensor') sensors.push({ x, y });
+      }
+    }
+    const range = this.occupancySensorRange;
+    return spot => sensors.some(s => Math.abs(s.x - spot.x) <= range && Math.abs(s.y - spot.y) <= range);
+  }
+
+  /**
+   * Spot hunting: path to the aisle cell beside a random parking spot (the next place to look).
+   * Returns an empty path if no spot can be driven to.
+   */
+  private planSpotSearchLeg(fromX: number, fromY: number): { x: number; y: number }[] {
+    for (const spot of GameSystems.random.shuffle(this.getParkingSpots())) {
+      const path = this.pathfindingSystem.findPath(fromX, fromY, spot.x, spot.y, 'vehicle');
+      // Stop short of the spot itself; from the aisle the parker can see whether it's free
+      if (path.length > 1) return path.slice(0, -1);
+    }
+    return [];
+  }
+
+  /**
+   * Spot hunting: called each time a searching parker reaches a cell. Takes the nearest acceptable
+   * free spot in sight, or starts the next search leg at the end of the current one.
+   * @returns true if the vehicle's path was replaced
+   */
+  private continueSpotSearch(vehicle: VehicleEntity): boolean {
+    const boothExists = this.hasBoothInLot();
+    let nearest: { spot: Ploppable; path: { x: number; y: number }[] } | null = null;
+    for (const spot of this.getParkingSpots()) {
+      if (spot.reserved) continue;
+      if (Math.abs(spot.x - vehicle.x) > this.spotSightRange || Math.abs(spot.y - vehicle.y) > this.spotSightRange) continue;
+      if (!this.isSpotAcceptable(spot.type === 'Parking Meter', boothExists, vehicle.acceptsRate)) continue;
+      const path = this.pathfindingSystem.findPath(vehicle.x, vehicle.y, spot.x, spot.y, 'vehicle');
+      if (path.length === 0) continue;
+      if (!nearest || path.length < nearest.path.length) nearest = { spot, path };
+    }
+
+    if (nearest && this.reserveParkingSpot(nearest.spot.x, nearest.spot.y)) {
+      vehicle.searchingForSpot = false;
+      vehicle.reservedSpotX = nearest.spot.x;
+      vehicle.reservedSpotY = nearest.spot.y;
+      vehicle.path = nearest.path;
+      vehicle.currentPathIndex = 0;
+      return true;
+    }
+
+    if (vehicle.currentPathIndex < vehicle.path.length) return false;
+    const leg = this.planSpotSearchLeg(vehicle.x, vehicle.y);
+    if (leg.length === 0) {
+      this.giveUpSpotSearch(vehicle);
+    } else {
+      vehicle.path = leg;
+      vehicle.currentPathIndex = 0;
+    }
+    return true;
+  }
+
+  /**
+   * Spot hunting: parker ran out of patience (or places to look). Zero their score and head for the exit.
+   */
+  private giveUpSpotSearch(vehicle: VehicleEntity): void {
+    vehicle.searchingForSpot = false;
+    const score = GameSystems.rating.getParkerScore(vehicle.id);
+    if (score !== undefined && score !== 0) {
+      GameSystems.rating.updateParkerScore(vehicle.id, -score, 'gaveUpSearch');
+    }
+    if (vehicle.name) MessageSystem.gaveUpSpotSearch(vehicle.name);
+
+    vehicle.path = this.pathfindingSystem.findPath(vehicle.x, vehicle.y, vehicle.despawnerX, vehicle.despawnerY, 'vehicle');
+    vehicle.currentPathIndex = 0;
+    if (vehicle.path.length === 0) vehicle.state = 'despawning';
+  }
+
   /**
    * Reserve a parking spot
    */
@@ -317,7 +622,7 @@ export class VehicleSystem {
    * Spawn a vehicle at a spawner
    */
   private spawnVehicle(pair: SpawnerDespawnerPair): void {
-    const isPotentialParker = Math.random() < this.getCurrentPotentialParkerChance();
+    const isPotentialParker = GameSystems.random.next() < this.getCurrentPotentialParkerChance();
     
     let targetX = pair.despawnerX;
     let targetY = pair.despawnerY;
@@ -325,9 +630,22 @@ export class VehicleSystem {
     
     // If potential parker, try to find and reserve a parking spot
     let refusalSpotType: 'meter' | 'booth' | 'meter_and_booth' | null = null;
-    if (isPotentialParker) {
-      const result = this.findUnreservedParkingSpot(pair.spawnerX, pair.spawnerY);
+    let searchingForSpot = false;
+    const archetype = isPotentialParker && hasParkerArchetypes() ? pickParkerArchetype(GameSystems.random.next()) : undefined;
+    const demand = isPotentialParker ? this.rollRateAcceptance(archetype) : null;
+    const destination = isPotentialParker ? this.pedestrianSystem?.pickDestination() : undefined;
+    if (demand) {
+      const result = this.findUnreservedParkingSpot(
+        pair.spawnerX,
+        pair.spawnerY,
+        demand.acceptsRate,
+        demand.quotedPrices,
+        archetype,
+        destination,
+        this.spotSearchEnabled ? this.getGuidedSpotFilter() : undefined
+      );
       refusalSpotType = result.refusalSpotType;
+      searchingForSpot = result.searchNeeded === true;
       if (result.spot && this.reserveParkingSpot(result.spot.x, result.spot.y)) {
         reservedSpot = result.spot;
         targetX = reservedSpot.x;
@@ -337,14 +655,17 @@ export class VehicleSystem {
       }
     }
     
-    // Find path using A* pathfinding
-    let path = this.pathfindingSystem.findPath(
-      pair.spawnerX,
-      pair.spawnerY,
-      targetX,
-      targetY,
-      'vehicle'
-    );
+    // Find path using A* pathfinding (hunting parkers start with a search leg, or just drive through)
+    let path = searchingForSpot ? this.planSpotSearchLeg(pair.spawnerX, pair.spawnerY) : [];
+    if (path.length === 0) {
+      path = this.pathfindingSystem.findPath(
+        pair.spawnerX,
+        pair.spawnerY,
+        targetX,
+        targetY,
+        'vehicle'
+      );
+    }
 
     // If no path found and we reserved a spot, unreserve it and try for despawner
     if (path.length === 0 && reservedSpot) {
@@ -379,10 +700,10 @@ export class VehicleSystem {
     this.onVehiclePathFound?.(path, pair.spawnerX, pair.spawnerY, targetX, targetY);
 
     // Random speed with variance
-    const speed = this.minSpeed + Math.random() * (this.maxSpeed - this.minSpeed);
+    const speed = GameSystems.random.range(this.minSpeed, this.maxSpeed);
 
     const pool: VehicleVariant[] = isPotentialParker ? PARKER_VARIANTS : NON_PARKER_VARIANTS;
-    const chosen = pool[Math.floor(Math.random() * pool.length)];
+    const chosen = GameSystems.random.pick(pool);
     const spriteVariant = VEHICLE_VARIANTS.indexOf(chosen);
     
     const vehicle = new VehicleEntity(
@@ -393,13 +714,25 @@ export class VehicleSystem {
       path,
       speed,
       isPotentialParker,
-      spriteVariant
+      spriteVariant,
+      archetype
     );
     
+    if (demand) {
+      vehicle.willingnessToPay = demand.willingnessToPay;
+      vehicle.acceptsRate = demand.acceptsRate;
+      vehicle.plannedStayMs = demand.plannedStayMs;
+      vehicle.lockedRates = demand.lockedRates;
+      vehicle.destination = destination;
+    }
+
     // Set reserved spot if found
     if (reservedSpot) {
       vehicle.reservedSpotX = reservedSpot.x;
       vehicle.reservedSpotY = reservedSpot.y;
+    } else if (searchingForSpot) {
+      vehicle.searchingForSpot = true;
+      vehicle.spotSearchTimer = this.spotSearchTimeoutMs;
     }
     
     // Set initial screen position
@@ -411,12 +744,12 @@ export class VehicleSystem {
     
     // Register potential parker with rating system
     if (isPotentialParker) {
-      if (reservedSpot !== null) {
-        // Found a spot - register with initial score of 70
+      if (reservedSpot !== null || searchingForSpot) {
+        // Found a spot (or is hunting for one) - register with initial score of 70
         GameSystems.rating.registerParker(vehicle.id, 70);
       } else if (refusalSpotType) {
         // Refused due to rate — register with 0 score and show the refusal message.
-        GameSystems.rating.registerParker(vehicle.id, 0);
+        GameSystems.rating.registerParker(vehicle.id, 0, 'rateRefused');
         if (vehicle.name) {
           const config = getParkingRateConfig();
           const msg =
@@ -432,7 +765,7 @@ export class VehicleSystem {
         }
       } else if (!this.suppressNoSpotPenalty) {
         // Lot full — normal challenges register a 0-score parker and surface the "no spot" message.
-        GameSystems.rating.registerParker(vehicle.id, 0);
+        GameSystems.rating.registerParker(vehicle.id, 0, 'noSpot');
         if (vehicle.name) {
           MessageSystem.noSpotAvailable(vehicle.name);
         }
@@ -459,12 +792,15 @@ export class VehicleSystem {
       const newTime = currentTime - delta;
       
       const currentInterval = this.getCurrentSpawnIntervalMs();
-      if (newTime <= 0) {
+      if (newTime <= 0 && this.isCellOccupied(pair.spawnerX, pair.spawnerY)) {
+        // Previous car hasn't cleared the entrance yet; spawn as soon as it does
+        this.spawnTimers.set(key, 0);
+      } else if (newTime <= 0) {
         this.spawnVehicle(pair);
-        this.spawnTimers.set(key, currentInterval + Math.random() * 1000);
+        this.spawnTimers.set(key, currentInterval + GameSystems.random.next() * 1000);
       } else if (newTime > currentInterval + 1000) {
         // Schedule window changed to a shorter interval -- re-sync timer
-        this.spawnTimers.set(key, currentInterval + Math.random() * 1000);
+        this.spawnTimers.set(key, currentInterval + GameSystems.random.next() * 1000);
       } else {
         this.spawnTimers.set(key, newTime);
       }
@@ -480,17 +816,31 @@ export class VehicleSystem {
         ParkingTimerSystem.getInstance().cancelParkingTimer(vehicle.id);
         // Apply penalties and finalize parker's score before removing
         if (vehicle.isPotentialParker) {
-          // Apply -10 penalty if drove on more than 2 concrete tiles
+          // Apply -10 penalty (times the archetype's weight) if drove on more than 2 concrete tiles
           if ((vehicle.concreteTileCount || 0) > 2) {
-            GameSystems.rating.updateParkerScore(vehicle.id, -10);
+            GameSystems.rating.updateParkerScore(vehicle.id, -10 * getParkerPenaltyWeight(vehicle.archetype, 'droveOnSidewalk'), 'droveOnSidewalk');
+          }
+          
+          // Apply traffic delay penalty (per game minute stalled past the tolerance)
+          const minutesOverTolerance = Math.floor(((vehicle.stalledMs || 0) - this.trafficDelayToleranceMs) / 1000);
+          if (minutesOverTolerance > 0 && this.trafficDelayPenaltyPerMinute > 0) {
+            GameSystems.rating.updateParkerScore(
+              vehicle.id,
+              -minutesOverTolerance * this.trafficDelayPenaltyPerMinute * getParkerPenaltyWeight(vehicle.archetype, 'trafficDelay'),
+              'trafficDelay'
+            );
           }
           
           // Get unfulfilled needs penalty from pedestrian (if exists)
           if (this.pedestrianSystem) {
             const pedestrian = this.pedestrianSystem.getPedestrianByVehicleId(vehicle.id);
             if (pedestrian && pedestrian.unfulfilledNeeds && pedestrian.unfulfilledNeeds.length > 0) {
-              // Apply -10 for each unfulfilled need
-              GameSystems.rating.updateParkerScore(vehicle.id, -10 * pedestrian.unfulfilledNeeds.length);
+              // Apply each unfulfilled need's penalty
+              const weight = getParkerPenaltyWeight(vehicle.archetype, 'unfulfilledNeed');
+              for (const need of pedestrian.unfulfilledNeeds) {
+                const penalty = getNeedDefinition(need)?.unfulfilledPenalty ?? 10;
+                GameSystems.rating.updateParkerScore(vehicle.id, -penalty * weight, unfulfilledNeedReason(need));
+              }
             }
           }
           
@@ -498,11 +848,12 @@ export class VehicleSystem {
           const currentScore = GameSystems.rating.getParkerScore(vehicle.id);
           if (currentScore !== undefined && currentScore < 0) {
             // Adjust score back to 0 (add the difference)
-            GameSystems.rating.updateParkerScore(vehicle.id, -currentScore);
+            GameSystems.rating.updateParkerScore(vehicle.id, -currentScore, 'scoreFloor');
           }
           
           GameSystems.rating.finalizeParker(vehicle.id);
         }
+        this.recordCompletedTrip(vehicle);
         vehiclesToRemove.push(vehicle.id);
         return;
       }
@@ -513,10 +864,12 @@ export class VehicleSystem {
       }
 
       if (vehicle.state === 'moving') {
+        vehicle.inboundTripMs = (vehicle.inboundTripMs || 0) + delta;
         this.updateMovingVehicle(vehicle, delta);
       } else if (vehicle.state === 'parking') {
         this.updateParkingVehicle(vehicle, delta);
       } else if (vehicle.state === 'leaving') {
+        vehicle.outboundTripMs = (vehicle.outboundTripMs || 0) + delta;
         this.updateLeavingVehicle(vehicle, delta);
       }
     });
@@ -535,11 +888,19 @@ export class VehicleSystem {
       return;
     }
     
+    if (vehicle.searchingForSpot) {
+      vehicle.spotSearchTimer = (vehicle.spotSearchTimer ?? 0) - delta;
+      if (vehicle.spotSearchTimer <= 0) this.giveUpSpotSearch(vehicle);
+      if (vehicle.state !== 'moving') return;
+    }
+
     if (vehicle.currentPathIndex < vehicle.path.length) {
+      if (this.isStoppedInTraffic(vehicle, delta)) return;
       const reachedTarget = this.moveVehicleTowardsTarget(vehicle, delta);
       
       if (reachedTarget) {
         vehicle.currentPathIndex++;
+        if (vehicle.searchingForSpot && this.continueSpotSearch(vehicle)) return;
         
         // Check if reached end of path
         if (vehicle.currentPathIndex >= vehicle.path.length) {
@@ -550,7 +911,7 @@ export class VehicleSystem {
               vehicle.y === vehicle.reservedSpotY) {
             // Start parking
             vehicle.state = 'parking';
-            vehicle.parkingDuration = this.pickParkingDurationMs();
+            vehicle.parkingDuration = this.getStayDurationMs(vehicle);
             vehicle.parkingTimer = vehicle.parkingDuration;
           } else {
             // Reached despawner
@@ -565,7 +926,7 @@ export class VehicleSystem {
           vehicle.x === vehicle.reservedSpotX &&
           vehicle.y === vehicle.reservedSpotY) {
         vehicle.state = 'parking';
-        vehicle.parkingDuration = this.pickParkingDurationMs();
+        vehicle.parkingDuration = this.getStayDurationMs(vehicle);
         vehicle.parkingTimer = vehicle.parkingDuration;
       } else {
         vehicle.state = 'despawning';
@@ -580,7 +941,7 @@ export class VehicleSystem {
     // Start parking timer when first entering parking state
     if (vehicle.parkingTimer === vehicle.parkingDuration) {
       // Just started parking - start the parking timer system
-      ParkingTimerSystem.getInstance().startParkingTimer(vehicle.id);
+      ParkingTimerSystem.getInstance().startParkingTimer(vehicle.id, vehicle.willingnessToPay, vehicle.archetype, vehicle.lockedRates);
       if (this.movieGoerModeEnabled) {
         vehicle.movieGoerMode = true;
         vehicle.movieGoerNeedEvents = this.rollMovieGoerNeedEventTimes(vehicle.parkingDuration ?? this.maxParkingDuration);
@@ -592,14 +953,16 @@ export class VehicleSystem {
       const existingPedestrian = this.pedestrianSystem.getPedestrianByVehicleId(vehicle.id);
       if (!existingPedestrian && vehicle.parkingTimer === vehicle.parkingDuration) {
         // Movie-goer vehicles never spawn a destination-bound pedestrian. Need trips are fired below.
-        const shouldSpawn = !this.movieGoerModeEnabled && Math.random() < this.driverExitsVehicleProbability;
+        const shouldSpawn = !this.movieGoerModeEnabled && GameSystems.random.next() < this.driverExitsVehicleProbability;
         vehicle.pedestrianSpawned = shouldSpawn;
         if (shouldSpawn) {
           this.pedestrianSystem.spawnPedestrianFromVehicle(
             vehicle.id,
             vehicle.x,
             vehicle.y,
-            vehicle.name
+            vehicle.name,
+            vehicle.archetype,
+            vehicle.destination
           );
         }
       }
@@ -615,7 +978,7 @@ export class VehicleSystem {
         // Only spawn a new need-trip ped if there's no active ped for this car (prevents overlap).
         const existing = this.pedestrianSystem.getPedestrianByVehicleId(vehicle.id);
         if (!existing) {
-          this.pedestrianSystem.spawnMovieGoerNeedPedestrian(vehicle.id, vehicle.x, vehicle.y, vehicle.name);
+          this.pedestrianSystem.spawnMovieGoerNeedPedestrian(vehicle.id, vehicle.x, vehicle.y, vehicle.name, vehicle.archetype);
         }
       }
     }
@@ -648,13 +1011,13 @@ export class VehicleSystem {
    * Returns remaining-time-to-fire values sorted ascending (element 0 fires first).
    */
   private rollMovieGoerNeedEventTimes(parkingDurationMs: number): number[] {
-    const numEvents = Math.floor(Math.random() * 3); // uniform {0, 1, 2}
+    const numEvents = GameSystems.random.int(3); // uniform {0, 1, 2}
     if (numEvents === 0) return [];
     const buffer = parkingDurationMs * 0.1;
     const usable = Math.max(0, parkingDurationMs - 2 * buffer);
     const times: number[] = [];
     for (let i = 0; i < numEvents; i++) {
-      times.push(buffer + Math.random() * usable);
+      times.push(buffer + GameSystems.random.next() * usable);
     }
     times.sort((a, b) => a - b);
     return times;
@@ -689,7 +1052,7 @@ export class VehicleSystem {
     }
     
     // Roll a new random speed for leaving (between minSpeed and maxSpeed)
-    vehicle.speed = this.minSpeed + Math.random() * (this.maxSpeed - this.minSpeed);
+    vehicle.speed = GameSystems.random.range(this.minSpeed, this.maxSpeed);
     
     // Find path to despawner
     const pathToDespawner = this.pathfindingSystem.findPath(
@@ -717,10 +1080,11 @@ export class VehicleSystem {
 
   /**
    * Drive-In Disaster: force a currently-parked parker to abandon their spot and drive out.
-   * Zeroes their parker rating contribution (treated the same as "couldn't find a spot") and
-   * clears any scheduled movie-goer need events. No-op if the vehicle isn't found or isn't parking.
+   * Zeroes their parker rating contribution (treated the same as "couldn't find a spot") under
+   * the reason that drove them out, and clears any scheduled movie-goer need events.
+   * No-op if the vehicle isn't found or isn't parking.
    */
-  forceParkerEarlyExit(vehicleId: string): void {
+  forceParkerEarlyExit(vehicleId: string, reason: RatingReason = 'leftEarly'): void {
     const vehicle = this.vehicles.find(v => v.id === vehicleId);
     if (!vehicle) return;
     if (vehicle.state !== 'parking') return;
@@ -728,7 +1092,7 @@ export class VehicleSystem {
     // Zero the parker's running score (same treatment as "no spot available").
     const current = GameSystems.rating.getParkerScore(vehicleId);
     if (current !== undefined && current !== 0) {
-      GameSystems.rating.updateParkerScore(vehicleId, -current);
+      GameSystems.rating.updateParkerScore(vehicleId, -current, reason);
     }
 
     // Drop any remaining scheduled need events so we don't spawn a ped into a leaving car.
@@ -749,6 +1113,7 @@ export class VehicleSystem {
     }
     
     if (vehicle.currentPathIndex < vehicle.path.length) {
+      if (this.isStoppedInTraffic(vehicle, delta)) return;
       const reachedTarget = this.moveVehicleTowardsTarget(vehicle, delta);
       
       if (reachedTarget) {
@@ -763,6 +1128,167 @@ export class VehicleSystem {
     }
   }
 
+  /**
+   * Hold a driving vehicle in place this frame if it is paying at a booth or the next cell isn't clear.
+   * Returns true if the vehicle should not move.
+   */
+  private isStoppedInTraffic(vehicle: VehicleEntity, delta: number): boolean {
+    if (vehicle.boothServiceTimer !== undefined && vehicle.boothServiceTimer > 0) {
+      vehicle.boothServiceTimer -= delta;
+      return true;
+    }
+    if (this.isBlockedByTraffic(vehicle)) {
+      this.waitInTraffic(vehicle, delta);
+      return true;
+    }
+    vehicle.waitTimer = 0;
+    return false;
+  }
+
+  /** Vehicles that are driving (parked cars sit in their spot and don't block through-traffic). */
+  private isDriving(vehicle: VehicleEntity): boolean {
+    return vehicle.state === 'spawning' || vehicle.state === 'moving' || vehicle.state === 'leaving';
+  }
+
+  private getNextPathCell(vehicle: VehicleEntity): { x: number; y: number } | null {
+    return vehicle.path[vehicle.currentPathIndex] ?? null;
+  }
+
+  /**
+   * Whether a driving vehicle holds this cell. A car holds the cell it is leaving until it reaches
+   * the next one (see moveVehicleTowardsTarget), which gives followers a one-cell gap.
+   */
+  private isCellOccupied(x: number, y: number): boolean {
+    return this.vehicles.some(v => this.isDriving(v) && v.x === x && v.y === y);
+  }
+
+  /**
+   * Whether the vehicle must wait before driving into its next path cell:
+   * - another driving car holds that cell (unless it is coming head-on into ours: cars pass in opposite lanes), or
+   * - another car is heading into the same cell and is closer to it (merge: the closer car goes first).
+   */
+  private isBlockedByTraffic(vehicle: VehicleEntity): boolean {
+    const next = this.getNextPathCell(vehicle);
+    if (!next || (next.x === vehicle.x && next.y === vehicle.y)) return false;
+    const nextScreen = isoToScreen(next.x, next.y);
+    const distance = Math.hypot(nextScreen.x - vehicle.screenX, nextScreen.y - vehicle.screenY);
+
+    for (const other of this.vehicles) {
+      if (other === vehicle || !this.isDriving(other)) continue;
+      const otherNext = this.getNextPathCell(other);
+      if (other.x === next.x && other.y === next.y) {
+        const headOn = otherNext !== null && otherNext.x === vehicle.x && otherNext.y === vehicle.y;
+        if (!headOn) return true;
+      } else if (otherNext && otherNext.x === next.x && otherNext.y === next.y) {
+        const otherDistance = Math.hypot(nextScreen.x - other.screenX, nextScreen.y - other.screenY);
+        // Ties go to whichever car is earlier in the list so exactly one of them proceeds
+        if (otherDistance < distance || (otherDistance === distance && this.vehicles.indexOf(other) < this.vehicles.indexOf(vehicle))) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Count time spent blocked. After gridlockTimeoutMs the vehicle tries once to route around the
+   * blocked cell; if that fails (or it jams again) it abandons the trip.
+   */
+  private waitInTraffic(vehicle: VehicleEntity, delta: number): void {
+    const stalledBefore = vehicle.stalledMs || 0;
+    vehicle.stalledMs = stalledBefore + delta;
+    if (
+      vehicle.isPotentialParker &&
+      vehicle.name &&
+      this.trafficDelayPenaltyPerMinute > 0 &&
+      stalledBefore < this.trafficDelayToleranceMs &&
+      vehicle.stalledMs >= this.trafficDelayToleranceMs
+    ) {
+      if (this.trafficDelayMessage) {
+        MessageSystem.getInstance().addParkerReaction(vehicle.name, this.trafficDelayMessage, '');
+      } else {
+        MessageSystem.trafficDelay(vehicle.name);
+      }
+    }
+
+    vehicle.waitTimer = (vehicle.waitTimer ?? 0) + delta;
+    if (vehicle.waitTimer < this.gridlockTimeoutMs) return;
+    vehicle.waitTimer = 0;
+    if (!vehicle.gridlockRerouted) {
+      vehicle.gridlockRerouted = true;
+      if (this.rerouteAroundNextCell(vehicle)) return;
+    }
+    this.abandonTrip(vehicle);
+  }
+
+  /**
+   * Replace the rest of the path with one that avoids the vehicle's (blocked) next cell.
+   * Returns false if there is no such path.
+   */
+  private rerouteAroundNextCell(vehicle: VehicleEntity): boolean {
+    const next = this.getNextPathCell(vehicle);
+    const goal = vehicle.path[vehicle.path.length - 1];
+    if (!next || !goal || (next.x === goal.x && next.y === goal.y)) return false;
+    const detour = this.pathfindingSystem.findPath(
+      vehicle.x,
+      vehicle.y,
+      goal.x,
+      goal.y,
+      'vehicle',
+      new Set([`${next.x},${next.y}`])
+    );
+    if (detour.length === 0) return false;
+    vehicle.path = detour;
+    vehicle.currentPathIndex = 0;
+    return true;
+  }
+
+  /**
+   * Gridlock: the vehicle gives up and leaves the map. Parkers lose 10 rating points (times their
+   * archetype's weight) and complain; a reserved spot is released.
+   */
+  private abandonTrip(vehicle: VehicleEntity): void {
+    if (vehicle.reservedSpotX !== undefined && vehicle.reservedSpotY !== undefined && vehicle.state === 'moving') {
+      this.unreserveParkingSpot(vehicle.reservedSpotX, vehicle.reservedSpotY);
+      vehicle.reservedSpotX = undefined;
+      vehicle.reservedSpotY = undefined;
+    }
+    if (vehicle.isPotentialParker) {
+      GameSystems.rating.updateParkerScore(vehicle.id, -10 * getParkerPenaltyWeight(vehicle.archetype, 'gridlock'), 'gridlock');
+      if (vehicle.name) MessageSystem.stuckInTraffic(vehicle.name);
+    }
+    vehicle.state = 'despawning';
+  }
+
+  /**
+   * Add a despawning vehicle's stall and trip times to the congestion totals
+   */
+  private recordCompletedTrip(vehicle: VehicleEntity): void {
+    const stalledMs = vehicle.stalledMs || 0;
+    this.congestion.vehiclesCompleted++;
+    this.congestion.totalStalledMs += stalledMs;
+    this.congestion.maxStalledMs = Math.max(this.congestion.maxStalledMs, stalledMs);
+    if (vehicle.outboundTripMs !== undefined) {
+      this.congestion.parkersCompleted++;
+      this.congestion.totalInboundTripMs += vehicle.inboundTripMs || 0;
+      this.congestion.totalOutboundTripMs += vehicle.outboundTripMs;
+    }
+  }
+
+  /**
+   * Congestion summary (stall and trip times) over all vehicles that have left the map
+   */
+  getCongestionMetrics(): CongestionMetrics {
+    const c = this.congestion;
+    return {
+      vehiclesCompleted: c.vehiclesCompleted,
+      averageStalledMs: c.vehiclesCompleted > 0 ? c.totalStalledMs / c.vehiclesCompleted : 0,
+      maxStalledMs: c.maxStalledMs,
+      averageInboundTripMs: c.parkersCompleted > 0 ? c.totalInboundTripMs / c.parkersCompleted : 0,
+      averageOutboundTripMs: c.parkersCompleted > 0 ? c.totalOutboundTripMs / c.parkersCompleted : 0,
+    };
+  }
+
   /**
    * Move vehicle towards its current path target.
    * Returns true if the target was reached.
@@ -816,8 +1342,9 @@ export class VehicleSystem {
   private checkParkingBooth(vehicle: VehicleEntity): void {
     const cellData = this.getCellData(vehicle.x, vehicle.y);
     if (cellData?.ploppable?.type === 'Parking Booth' && cellData.ploppable.subType === 'COLLECTION') {
-      // Vehicle entered booth collection tile - collect fee
-      ParkingTimerSystem.getInstance().collectBoothFee(vehicle.id, vehicle.name);
+      // Vehicle entered booth collection tile - collect fee; paying cars stop briefly, so booths form queues
+      const fee = ParkingTimerSystem.getInstance().collectBoothFee(vehicle.id, vehicle.name);
+      if (fee > 0) vehicle.boothServiceTimer = this.boothServiceMs;
     }
   }
 
@@ -887,4 +1414,29 @@ export class VehicleSystem {
     this.gridHeight = height ?? width;
     this.pathfindingSystem.setGridSize(this.gridWidth, this.gridHeight);
   }
+
+  /**
+   * Snapshot live vehicles and spawn timers for a save game
+   */
+  getSaveState(): VehicleSystemSaveState {
+    return {
+      vehicles: this.vehicles.map(v => ({ ...v })),
+      spawnTimers: Array.from(this.spawnTimers.entries()),
+      spawnPaused: this.spawnPaused,
+      congestion: { ...this.congestion },
+    };
+  }
+
+  /**
+   * Restore vehicles and spawn timers from a save game.
+   * Call after spawner pairs are rebuilt (that clears vehicles and resets timers).
+   */
+  loadSaveState(state: VehicleSystemSaveState): void {
+    this.vehicles = state.vehicles.map(v => Object.assign(Object.create(VehicleEntity.prototype) as VehicleEntity, v));
+    for (const [key, timer] of state.spawnTimers) {
+      this.spawnTimers.set(key, timer);
+    }
+    this.spawnPaused = state.spawnPaused;
+    this.congestion = state.congestion ? { ...state.congestion } : createCongestionTotals();
+  }
 }
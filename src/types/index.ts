@@ -20,6 +20,12 @@ export interface Challenge {
   startTimeMinutes?: number;
   lotSize: { width: number; height: number };
   budget: number;
+  /** Optional: most the player can owe in loans at once. 0 or omitted = no loans. */
+  loanLimit?: number;
+  /** Optional: interest charged each midnight on outstanding debt (0.02 = 2%). Default 0.02. */
+  loanDailyInterestRate?: number;
+  /** Optional: days over which each loan is repaid in equal midnight installments. Default 5. */
+  loanTermDays?: number;
   winConditions: WinCondition[];
   /** Optional: vehicle spawn interval in ms when no schedule (default from VehicleSystem) */
   vehicleSpawnIntervalMs?: number;
@@ -44,7 +50,35 @@ export interface Challenge {
   /** Optional: probability (0-1) that a pedestrian generates a need */
   needGenerationProbability?: number;
   /** Optional: distribution of need types (must sum to 1). Omit a type or set 0 to disable. */
-  needTypeDistribution?: Partial<Record<'trash' | 'thirst' | 'toilet', number>>;
+  needTypeDistribution?: Partial<Record<NeedType, number>>;
+  /**
+   * Optional: needs added for this challenge (or built-in needs redefined by id). Give them a
+   * weight in needTypeDistribution for pedestrians to have them.
+   */
+  needs?: NeedDefinition[];
+  /**
+   * Optional: mix of parker archetypes (weights, normalized). Each potential parker is one of them, which
+   * scales their demand, walking tolerance, needs, stay length and penalties. Omitted = every parker is a
+   * plain parker with the challenge's settings.
+   */
+  parkerArchetypeDistribution?: Partial<Record<ParkerArchetypeId, number>>;
+  /** Optional: archetypes added for this challenge (or built-in archetypes redefined by id) */
+  parkerArchetypes?: ParkerArchetype[];
+  /**
+   * Optional: which day a parker's final score counts toward when their stay crosses midnight:
+   * 'arrival' (the day they registered) or 'departure' (the day they leave). Default 'departure'.
+   */
+  ratingAttribution?: RatingAttribution;
+  /**
+   * Optional: days of parker scores the parker rating averages over, today included. Long-stay lots use
+   * more than 1 so travelers who left since yesterday still count. Default 1.
+   */
+  ratingWindowDays?: number;
+  /**
+   * Optional: the lot rating formula, as components summed into the 0–100 rating (each worth up to its
+   * maxPoints, which should total 100). Omitted = parker 70 + appeal 15 + safety 15 with boolean coverage.
+   */
+  ratingComponents?: RatingComponent[];
   /** Optional: probability (0-1) that driver exits vehicle (spawns pedestrian). Default 1. Lower = "stay in car" (e.g. Drive-In). */
   driverExitsVehicleProbability?: number;
   /** Optional: min parking duration in real-time ms (1 game min = 1 real sec). Overrides VehicleSystem default 5000. */
@@ -89,6 +123,29 @@ export interface Challenge {
    * lot, and we want the narrative to be "overflow travelers just used a different lot."
    */
   suppressNoSpotPenalty?: boolean;
+  /**
+   * Optional: real-time ms (1 game min = 1 real sec) a parker will sit stalled in traffic over their whole
+   * visit before it costs rating. Past it the parker complains once and loses trafficDelayPenaltyPerMinute
+   * points per game minute over, applied when they leave. Default 20000 (20 game minutes).
+   */
+  trafficDelayToleranceMs?: number;
+  /** Optional: rating points per game minute stalled past trafficDelayToleranceMs. 0 = no penalty. Default 1. */
+  trafficDelayPenaltyPerMinute?: number;
+  /** Optional: message when a parker's traffic delay passes the tolerance (include emoji). */
+  trafficDelayMessage?: string;
+  /**
+   * Optional: how parkers rank acceptable parking spots (lowest score wins). Omitted weights keep
+   * VehicleSystem's defaults; set everything but randomness to 0 for the old uniform-random choice.
+   */
+  spotPreferenceWeights?: Partial<SpotPreferenceWeights>;
+  /**
+   * Optional: spot hunting. When true, parkers only get a spot at spawn if an Occupancy Sensor or a
+   * Spaces Sign tells them one is free; otherwise they cruise the lot and take the first acceptable
+   * free spot they see, giving up (score zeroed) after spotSearchTimeoutMs.
+   */
+  spotSearchMode?: boolean;
+  /** Optional: real-time ms a hunting parker searches before giving up (1 game min = 1 real sec). Default 15000. */
+  spotSearchTimeoutMs?: number;
   /**
    * Optional: lock the Parking Spot placement tool to a single edge-missing orientation
    * (0=west-facing / missing left, 1=north / missing bottom, 2=south / missing top, 3=west / missing right,
@@ -98,33 +155,37 @@ export interface Challenge {
    */
   lockedParkingSpotOrientation?: number;
   /**
-   * Optional: dollar amount per 15 minutes above which parkers get a rating penalty.
-   * Fallback when meter/booth-specific values are omitted. Default 5.
+   * Optional: price parkers will pay per METER billing interval. Each potential parker draws their own
+   * willingness-to-pay from this distribution; the chance they accept a rate falls smoothly as it rises
+   * past theirs. Default { mean: 7, stdDev: 2 }.
+   */
+  meterWillingnessToPay?: WillingnessToPayDistribution;
+  /** Optional: as meterWillingnessToPay, for BOOTH payments. Default { mean: 7, stdDev: 2 }. */
+  boothWillingnessToPay?: WillingnessToPayDistribution;
+  /**
+   * Optional: how sharply acceptance drops around a parker's willingness-to-pay, in $. A rate this much
+   * over it is accepted ~27% of the time, twice as much ~12%. Default 0.5.
    */
-  highParkingRateThreshold?: number;
+  priceSensitivity?: number;
   /**
-   * Optional: rating points to subtract per dollar over threshold.
-   * Fallback when meter/booth-specific values are omitted. Default 2.
+   * Optional: rating points to subtract per dollar a parker paid over their willingness-to-pay
+   * (per billing interval). Fallback when meter/booth-specific values are omitted. Default 10.
    */
   highParkingRatePenaltyPerDollar?: number;
-  /** Optional: threshold for METER payments (pay-at-spot). Overrides highParkingRateThreshold when set. */
-  meterHighParkingRateThreshold?: number;
-  /** Optional: penalty per $ over meter threshold. 0 = no penalty. Overrides highParkingRatePenaltyPerDollar when set. */
+  /** Optional: penalty per $ over willingness-to-pay for METER payments. 0 = no penalty. Overrides highParkingRatePenaltyPerDollar when set. */
   meterHighParkingRatePenaltyPerDollar?: number;
-  /** Optional: threshold for BOOTH payments (pay-at-exit). Overrides highParkingRateThreshold when set. */
-  boothHighParkingRateThreshold?: number;
-  /** Optional: penalty per $ over booth threshold. 0 = no penalty. Overrides highParkingRatePenaltyPerDollar when set. */
+  /** Optional: penalty per $ over willingness-to-pay for BOOTH payments. 0 = no penalty. Overrides highParkingRatePenaltyPerDollar when set. */
   boothHighParkingRatePenaltyPerDollar?: number;
-  /** Optional: rate ($/15min) at or above which parkers refuse to reserve a METER spot. */
-  meterRefusalToParkThreshold?: number;
-  /** Optional: rate ($/15min) at or above which parkers refuse to reserve a BOOTH spot (regular spot, pay at exit). */
-  boothRefusalToParkThreshold?: number;
   /**
    * Optional: billing interval size for METER payments (in game minutes).
    * Default 15 (the current global behavior).
    * Example: 60 = bill per hour.
    */
   meterBillingIntervalMinutes?: number;
+  /** Optional: grace period, daily cap, flat / overnight rates and validation for METER payments. Omitted fields are off. */
+  meterBillingPolicy?: Partial<BillingPolicy>;
+  /** Optional: grace period, daily cap, flat / overnight rates and validation for BOOTH payments. Omitted fields are off. */
+  boothBillingPolicy?: Partial<BillingPolicy>;
   /**
    * Optional: billing interval size for BOOTH payments (in game minutes).
    * Default 15 (the current global behavior).
@@ -143,6 +204,47 @@ export interface Challenge {
   initialGridPath?: string;
 }
 
+/**
+ * Weights for a parker's spot score. Each term is multiplied by its weight and summed; the
+ * lowest-scoring acceptable spot is chosen. Costs are pathfinding costs (1 per tile plus surface penalties).
+ */
+export interface SpotPreferenceWeights {
+  /** Per unit of driving cost from the spawner to the spot */
+  drive: number;
+  /** Per unit of walking cost from the spot to the parker's destination (their errand; the closest one if they have none) */
+  walk: number;
+  /** Per $ the parker's stay would cost per billing interval at the spot, under its billing policy (meter, booth when a booth exists, else free) */
+  price: number;
+  /** Per unit of walking cost from the spot to the closest need ploppable (trash can, vending machine, toilet) */
+  needProximity: number;
+  /** Scale of a uniform random 0-1 term, so parkers don't all pick the same spot */
+  randomness: number;
+}
+
+/**
+ * How a stay is priced on top of the per-interval rate. 0 turns a field off.
+ * Flat rate wins over overnight rate, which wins over interval billing (grace period and daily max apply
+ * only to interval billing); the validation discount applies to whichever price results.
+ */
+export interface BillingPolicy {
+  /** Free game minutes at the start of a stay before interval billing starts */
+  gracePeriodMinutes: number;
+  /** Most interval billing can charge per 24 game hours of a stay */
+  dailyMaxCharge: number;
+  /** Flat price per stay regardless of length (event parking) */
+  flatRate: number;
+  /** Price per midnight a stay crosses, replacing interval billing for overnight stays */
+  overnightRate: number;
+  /** Fraction (0-1) taken off when the parker visited a destination (merchant validation) */
+  validationDiscount: number;
+}
+
+/** Normal distribution of parkers' willingness-to-pay, in $ per billing interval (draws below 0 count as 0) */
+export interface WillingnessToPayDistribution {
+  mean: number;
+  stdDev: number;
+}
+
 export interface WinCondition {
   type: 'profit' | 'rating' | 'time' | 'min_rating' | 'min_parking_spots' | 'required_ploppables';
   value: number;
@@ -173,6 +275,8 @@ export interface Ploppable {
   parkingSpotOrientation?: number; // For Parking Meter: stores the original parking spot orientation (missing edge) for drawing spot lines
   spriteFlip?: boolean; // Cosmetic horizontal flip for sprite rendering (randomized at placement for Tree, Shrub, Flower Patch)
   addOns?: string[]; // Add-on ploppables attached to this one (e.g. 'Security Camera' on a Street Light)
+  fillLevel?: number; // Uses since last serviced, for ploppables with a fillCapacity (Trash Can, Dumpster, Portable Toilet)
+  preplaced?: boolean; // Came with the challenge's starting lot rather than built by the player (no daily upkeep)
 }
 
 export interface NPC {
@@ -213,6 +317,34 @@ export interface Vehicle {
   movieGoerMode?: boolean;
   /** Drive-In: remaining time (ms) until each scheduled need event fires. Sorted ascending; element 0 fires next. */
   movieGoerNeedEvents?: number[];
+  /** Time (ms) spent waiting behind another vehicle for the next cell. Reset when the vehicle moves again. */
+  waitTimer?: number;
+  /** True once this vehicle has tried a detour around a gridlock; the next gridlock timeout abandons the trip. */
+  gridlockRerouted?: boolean;
+  /** Time (ms) left stopped at a Parking Booth collection tile while paying. */
+  boothServiceTimer?: number;
+  /** Total time (ms) spent stalled behind traffic over the whole visit. Unlike waitTimer it is never reset. */
+  stalledMs?: number;
+  /** Time (ms) driving from the spawner to the parking spot (whole spawner-to-despawner trip for non-parkers). */
+  inboundTripMs?: number;
+  /** Time (ms) driving from the parking spot to the despawner. Undefined if the vehicle never parked. */
+  outboundTripMs?: number;
+  /** Spot hunting: parker is cruising the lot looking for a free spot (no spot reserved yet). */
+  searchingForSpot?: boolean;
+  /** Spot hunting: time (ms) left before the parker gives up and leaves. */
+  spotSearchTimer?: number;
+  /** Potential parkers: most they'll pay per billing interval, drawn at spawn */
+  willingnessToPay?: { meter: number; booth: number };
+  /** Potential parkers: whether they accepted each rate in effect at spawn (rolled against willingnessToPay) */
+  acceptsRate?: { meter: boolean; booth: boolean };
+  /** Potential parkers: stay length (ms) planned at spawn; its price under the billing policy is what they accept or refuse */
+  plannedStayMs?: number;
+  /** Potential parkers: rates in effect when they rolled acceptance at spawn; their stay is billed at these */
+  lockedRates?: { meter: number; booth: number };
+  /** Potential parkers: the destination (de/respawner) their driver will walk to, picked at spawn */
+  destination?: { x: number; y: number };
+  /** Potential parkers: archetype rolled at spawn from the challenge's parkerArchetypeDistribution */
+  archetype?: ParkerArchetypeId;
 }
 
 export interface SpawnerDespawnerPair {
@@ -237,23 +369,157 @@ export interface Pedestrian {
   vehicleY: number; // Grid Y of vehicle (parking spot)
   destinationX?: number; // Grid X of destination (spawner/de-respawner)
   destinationY?: number; // Grid Y of destination (spawner/de-respawner)
-  state: 'spawning' | 'going_to_destination' | 'at_destination' | 'despawned' | 'respawning' | 'returning_to_vehicle' | 'at_vehicle' | 'going_to_need' | 'fulfilling_need';
+  state: 'spawning' | 'going_to_destination' | 'at_destination' | 'despawned' | 'respawning' | 'returning_to_vehicle' | 'at_vehicle' | 'going_to_need' | 'queued_for_need' | 'fulfilling_need';
   respawnTimer?: number; // Time remaining before respawn (milliseconds)
   respawnDuration?: number; // Total time to wait before respawn (milliseconds)
   // Need system fields
-  currentNeed?: 'trash' | 'thirst' | 'toilet' | null; // Current need the pedestrian has
+  currentNeed?: NeedType | null; // Current need the pedestrian has
   needTargetPloppableId?: string; // ID of the ploppable that fulfills this need
   needTargetX?: number; // Grid X where they need to go to fulfill the need
   needTargetY?: number; // Grid Y where they need to go to fulfill the need
-  needFulfillmentTimer?: number; // Timer for vending machine (in game minutes)
-  needFulfillmentStartTime?: number; // Game time (minutes) when they arrived at the vending machine
+  needFulfillmentTimer?: number; // Despawn needs: time (ms) left hidden inside the ploppable
+  needFulfillmentStartTime?: number; // Timed needs: game time (minutes) when they arrived at the ploppable
+  needFulfillmentMinutes?: number; // Timed needs: game minutes to spend at the ploppable
+  needServiceSlot?: boolean; // Holding one of the need ploppable's service slots (walking in from the queue, or being served)
+  needQueueStartTime?: number; // Queued: game time (minutes) when they joined the line for a full ploppable
   // Personal variables for later use (lot rating, satisfaction, etc.)
   satisfaction?: number; // Satisfaction rating (0-100)
   rating?: number; // Personal rating contribution
-  unfulfilledNeeds?: ('trash' | 'thirst' | 'toilet')[]; // List of needs that couldn't be satisfied
+  unfulfilledNeeds?: NeedType[]; // List of needs that couldn't be satisfied
   actualPathTiles?: { x: number; y: number }[]; // Actual tiles walked on (for concrete percentage calculation)
   /** Drive-In movie-goer one-shot need trip: when true, this ped is removed when it returns to the vehicle (instead of triggering the vehicle to leave). */
   isMovieGoerNeedTrip?: boolean;
+  /** The driver's parker archetype (copied from the vehicle) */
+  archetype?: ParkerArchetypeId;
+}
+
+/**
+ * Id of a pedestrian need in the need registry (built in: 'trash', 'thirst', 'toilet')
+ */
+export type NeedType = string;
+
+/**
+ * How a pedestrian fulfills a need once they reach the ploppable:
+ * 'instant' (e.g. trash can), 'timed' (waits beside it, e.g. vending machine),
+ * 'despawn' (disappears inside it and reappears, e.g. portable toilet)
+ */
+export type NeedFulfillmentMode = 'instant' | 'timed' | 'despawn';
+
+/**
+ * A pedestrian need, as registered in the need registry (config/needs.config.ts)
+ */
+export interface NeedDefinition {
+  id: NeedType;
+  /** Ploppable types that fulfill the need */
+  ploppables: string[];
+  mode: NeedFulfillmentMode;
+  /** Timed/despawn: [min, max] game minutes spent at the ploppable, rolled uniformly */
+  durationMinutes?: [number, number];
+  /** Game minutes a pedestrian waits in line at a full ploppable before re-routing or giving up (default 10) */
+  queuePatienceMinutes?: number;
+  /** When the need can't be fulfilled, the pedestrian drops litter on their cell */
+  littersWhenUnfulfilled?: boolean;
+  /** Parker score lost when the need can't be fulfilled */
+  unfulfilledPenalty: number;
+  /** Parker reaction when the need can't be fulfilled */
+  unfulfilledMessage: { text: string; emoji: string };
+}
+
+/**
+ * Which day a parker's score is credited to (see Challenge.ratingAttribution)
+ */
+export type RatingAttribution = 'arrival' | 'departure';
+
+/**
+ * What a rating component measures: parker satisfaction, or the share of playable cells with
+ * appeal, with safety, or free of litter (cleanliness)
+ */
+export type RatingComponentSource = 'parker' | 'appeal' | 'safety' | 'cleanliness';
+
+/**
+ * How a cell-based rating component turns cell values into coverage (0–1):
+ * - boolean: share of playable cells with a value above 0
+ * - graded: each cell counts value / fullValue (clamped to 0–1), so stacked coverage earns more
+ * - capped: boolean coverage, with full points once capFraction of the cells are covered
+ */
+export type RatingCoverageMode = 'boolean' | 'graded' | 'capped';
+
+export interface RatingCoverage {
+  mode: RatingCoverageMode;
+  /** graded: cell value that earns full credit. Default 2. */
+  fullValue?: number;
+  /** capped: share of playable cells (0–1) that earns full points. Default 0.5. */
+  capFraction?: number;
+}
+
+/**
+ * One term of the lot rating formula (see Challenge.ratingComponents)
+ */
+export interface RatingComponent {
+  /** Unique within the formula; the breakdown row is #rating-{id} */
+  id: string;
+  /** Shown in the rating breakdown */
+  label: string;
+  source: RatingComponentSource;
+  /** Points at full parker satisfaction or full coverage */
+  maxPoints: number;
+  /** Cell sources only. Default boolean. */
+  coverage?: RatingCoverage;
+}
+
+/**
+ * Id of a parker archetype in the archetype registry (built in: 'commuter', 'tourist', 'family', 'budget', 'premium')
+ */
+export type ParkerArchetypeId = string;
+
+/**
+ * Rating penalties a parker archetype can weigh: driving over sidewalk, too little sidewalk on foot,
+ * an unfulfilled need, traffic delay, giving up in gridlock, paying over willingness-to-pay, a long walk
+ */
+export type ParkerPenalty =
+  | 'droveOnSidewalk'
+  | 'missingSidewalk'
+  | 'unfulfilledNeed'
+  | 'trafficDelay'
+  | 'gridlock'
+  | 'highRate'
+  | 'longWalk';
+
+/**
+ * Why a parker's score changed (see RatingSystem.updateParkerScore). Starting below the full score
+ * (no spot, refused the rate) counts as a loss too; 'scoreFloor' gives back what took a score below 0.
+ */
+export type RatingReason =
+  | Exclude<ParkerPenalty, 'unfulfilledNeed'>
+  | `unfulfilledNeed:${NeedType}`
+  | 'noSpot'
+  | 'rateRefused'
+  | 'gaveUpSearch'
+  | 'leftEarly'
+  | 'scoreFloor';
+
+/**
+ * A kind of parker, as registered in the archetype registry (config/parkerArchetypes.config.ts).
+ * Scales are multipliers on the challenge's own settings, so one archetype fits every challenge.
+ */
+export interface ParkerArchetype {
+  id: ParkerArchetypeId;
+  /** Shown after the parker's name in messages */
+  label: string;
+  /** Multiplier on the willingness-to-pay distributions (below 1 = cheaper, above 1 = pays more) */
+  willingnessToPayScale: number;
+  /** Multiplier on priceSensitivity (below 1 = refuses sharply past their willingness-to-pay) */
+  priceSensitivityScale: number;
+  /** Tiles the parker will walk from their spot to their errand; each tile further costs 1 rating point (times the longWalk weight) */
+  walkingToleranceTiles: number;
+  /** Multiplier on the chance of having a need on each walk */
+  needChanceScale: number;
+  /** Multipliers on the challenge's needTypeDistribution weights (renormalized). Omitted needs = 1. */
+  needWeights?: Partial<Record<NeedType, number>>;
+  /** [min, max] multiplier on the challenge's stay: parking duration and time away at the errand */
+  stayDurationScale: [number, number];
+  /** Multipliers on rating penalties. Omitted penalties = 1. */
+  penaltyWeights: Partial<Record<ParkerPenalty, number>>;
 }
 
 /**
@@ -323,6 +589,9 @@ export interface CellData {
   // Surface behavior properties
   behavesLikeSidewalk?: boolean;  // If true, cell behaves like concrete sidewalk for pedestrian pathfinding (used by Crosswalk)
   
+  // Maintenance
+  litter?: number;  // Pieces of litter dropped here (each lowers appeal nearby until picked up)
+  
   // Additional properties can be added here as needed
   // e.g., terrain type, elevation, ownership, etc.
 }
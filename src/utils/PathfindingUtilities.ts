@@ -2,6 +2,7 @@ import { GridManager } from '@/core/GridManager';
 import { CellData } from '@/types';
 import { getIsometricTilePoints, isoToScreen } from './isometric';
 import { PassabilitySystem } from '@/systems/PassabilitySystem';
+import type { EdgeBlockedCallback, MoveCostCallback } from '@/systems/PathfindingSystem';
 
 /**
  * PathfindingUtilities - Utility functions for pathfinding and edge blocking
@@ -320,6 +321,94 @@ export class PathfindingUtilities {
     return 0;
   }
 
+  /**
+   * Build the edge blocking callback used by PathfindingSystem, VehicleSystem and PedestrianSystem.
+   * The grid manager is resolved on every call so callers that swap grids (resize) stay in sync.
+   */
+  static createEdgeBlockedCallback(getGridManager: () => GridManager): EdgeBlockedCallback {
+    return (
+      cellX: number,
+      cellY: number,
+      edge: number,
+      entityType: 'vehicle' | 'pedestrian',
+      isEntryEdge: boolean,
+      movementDirection: 'north' | 'south' | 'east' | 'west',
+      laneLineOneWayOnly?: boolean
+    ): boolean => {
+      return this.isEdgeBlockedForEntity(
+        cellX,
+        cellY,
+        edge,
+        entityType,
+        getGridManager(),
+        isEntryEdge,
+        movementDirection,
+        laneLineOneWayOnly ?? false
+      );
+    };
+  }
+
+  /**
+   * Build the move cost callback used for pathfinding.
+   * - Vehicles: penalizes lane-line crossings and non-asphalt surfaces
+   * - Pedestrians: penalizes non-concrete tiles to encourage using sidewalks
+   */
+  static createMoveCostCallback(getGridManager: () => GridManager): MoveCostCallback {
+    return (
+      fromX: number,
+      fromY: number,
+      toX: number,
+      toY: number,
+      direction: 'north' | 'south' | 'east' | 'west',
+      entityType: 'vehicle' | 'pedestrian'
+    ): number => {
+      const gridManager = getGridManager();
+      let cost = this.getLaneLineCrossingCost(
+        fromX,
+        fromY,
+        toX,
+        toY,
+        direction,
+        entityType,
+        gridManager
+      );
+
+      const targetCell = gridManager.getCellData(toX, toY);
+
+      if (entityType === 'vehicle') {
+        // Vehicles strongly prefer asphalt. Other drivable surfaces carry increasing
+        // penalties so A* routes along roads when possible, while still allowing
+        // short cuts through 1-2 tiles of concrete (e.g. a sidewalk-enclosed lot
+        // entrance) when no better route exists.
+        // Grass is hard-blocked in isEdgeBlockedForEntity; no cost entry needed here.
+        const surface = targetCell?.surfaceType;
+        if (surface === 'concrete' && !targetCell?.behavesLikeSidewalk) {
+          cost += 10;
+        } else if (surface === 'dirt') {
+          cost += 4;
+        } else if (surface === 'gravel') {
+          cost += 2;
+        }
+        // Concrete sidewalks (behavesLikeSidewalk but NOT crosswalks) get a moderate
+        // penalty so vehicles prefer asphalt but can still cut through 1-2 tiles.
+        // Crosswalks are exempt -- they inherit the underlying surface cost (asphalt = 0).
+        if (targetCell?.behavesLikeSidewalk && targetCell?.ploppable?.type !== 'Crosswalk') {
+          cost += 5;
+        }
+      } else {
+        // For pedestrians, ADD cost for non-concrete tiles to encourage using sidewalks
+        // We use a penalty approach instead of discount because negative costs break A* heuristic
+        // (Manhattan distance doesn't account for discounts, causing suboptimal paths)
+        const isSidewalkLike = targetCell?.surfaceType === 'concrete' || targetCell?.behavesLikeSidewalk === true;
+        if (!isSidewalkLike) {
+          cost += 0.8;
+        }
+      }
+      
+      return cost;
+    };
+  }
+
   /**
    * Validate a vehicle path: count how many path steps cross a lane line (perpendicular). Used for debug; one-way violations are prevented by blocking, not cost.
    * @returns Object with crossingCount (perpendicular crossings only).
@@ -0,0 +1,58 @@
+// Phaser-free helpers for the grid footprint of multi-tile ploppables.
+// PloppableManager delegates here so simulation systems can use them without pulling in the renderer.
+
+import { getPloppableDefinition } from '@/config/ploppables.config';
+
+/**
+ * Get the size of a ploppable (number of tiles it occupies)
+ */
+export function getPloppableSize(ploppableType: string): number {
+  return getPloppableDefinition(ploppableType)?.size ?? 1; // Default to single tile
+}
+
+/**
+ * Get the second cell coordinates for a 2-tile ploppable
+ * Returns null if the ploppable is not 2-tile or orientation is invalid
+ */
+export function getSecondCellForTwoTile(
+  gridX: number,
+  gridY: number,
+  orientation: number,
+  gridWidth: number,
+  gridHeight: number
+): { x: number; y: number } | null {
+  let secondX: number, secondY: number;
+  
+  // For 2-tile ploppables, the second cell is adjacent based on orientation
+  // Orientation 0 (north): second cell is south (y+1) - vertical, front face at north
+  // Orientation 1 (east): second cell is west (x-1) - horizontal, front face at east
+  // Orientation 2 (south): second cell is north (y-1) - vertical, front face at south
+  // Orientation 3 (west): second cell is east (x+1) - horizontal, front face at west
+  switch (orientation) {
+    case 0: // North - vertical, front face at top
+      secondX = gridX;
+      secondY = gridY + 1;
+      break;
+    case 1: // East - horizontal, front face at right
+      secondX = gridX - 1;
+      secondY = gridY;
+      break;
+    case 2: // South - vertical, front face at bottom
+      secondX = gridX;
+      secondY = gridY - 1;
+      break;
+    case 3: // West - horizontal, front face at left
+      secondX = gridX + 1;
+      secondY = gridY;
+      break;
+    default:
+      return null;
+  }
+  
+  // Check if second cell is within bounds
+  if (secondX < 0 || secondX >= gridWidth || secondY < 0 || secondY >= gridHeight) {
+    return null;
+  }
+  
+  return { x: secondX, y: secondY };
+}